@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useCallback, useState, useEffect, Suspense, useRef } from 'react';
+import React, { useCallback, useState, useEffect, useMemo, Suspense, useRef } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
 import {
     ReactFlow,
@@ -22,19 +22,47 @@ import '@xyflow/react/dist/style.css';
 import { toast } from "sonner";
 
 import TableNode, { TableNodeData } from '@/components/TableNode';
+import ViewNode from '@/components/ViewNode';
+import NamespaceNode, { NamespaceNodeData } from '@/components/NamespaceNode';
 import ExportPanel from '@/components/ExportPanel';
-import { useSchemaStore, Table, Column, Relation } from '@/store/schemaStore';
+import EnumPanel from '@/components/EnumPanel';
+import SequencePanel from '@/components/SequencePanel';
+import RolePanel from '@/components/RolePanel';
+import ProjectSettingsPanel from '@/components/ProjectSettingsPanel';
+import { useSchemaStore, Table, View, Column, Relation, ColumnPair, ReferentialAction, Cardinality, JoinTablePrismaMode } from '@/store/schemaStore';
 import { validateSchema } from '@/lib/schemaValidator';
 import { denormalizeSchema } from '@/lib/schemaDenormalizer';
-import { normalizeSchema, NormalizedSchema } from '@/lib/schemaNormalizer';
+import { normalizeSchema, NormalizedSchema, DEFAULT_NAMESPACE } from '@/lib/schemaNormalizer';
+import { toSingular } from '@/lib/naming';
 import { ThemeToggle } from '@/components/ThemeToggle';
 
 const nodeTypes = {
     tableNode: TableNode,
+    viewNode: ViewNode,
+    namespaceNode: NamespaceNode,
 } as const;
 
+// View dependency edges are derived from the views, never stored as relations
+const VIEW_DEPENDENCY_EDGE_PREFIX = 'view-dependency:';
+
+// Namespace frames are derived from table positions, never stored as nodes
+const NAMESPACE_NODE_PREFIX = 'namespace:';
+const NAMESPACE_PADDING = 24;
+const NAMESPACE_LABEL_HEIGHT = 24;
+
+const REFERENTIAL_ACTIONS: ReferentialAction[] = ['CASCADE', 'SET NULL', 'SET DEFAULT', 'RESTRICT', 'NO ACTION'];
+
+const CARDINALITY_LABELS: Record<Cardinality, string> = {
+    'one-to-one': '1:1',
+    'one-to-many': '1:N',
+    'many-to-many': 'M:N',
+};
+
+// Select value for creating a fresh join table instead of picking an existing one
+const NEW_JOIN_TABLE = '__new__';
+
 function EditorPageContent() {
-    const { tables, relations, addTable, addRelation, updateRelation, removeRelation, getNormalizedSchema, loadSchema, setNormalized } = useSchemaStore();
+    const { tables, relations, enums, sequences, views, roles, extensions, addTable, addView, addRelation, updateRelation, removeRelation, setRelationCardinality, convertToManyToMany, updateJoinTable, getNormalizedSchema, loadSchema, setNormalized } = useSchemaStore();
     const searchParams = useSearchParams();
     const router = useRouter(); // Use App Router
 
@@ -42,6 +70,7 @@ function EditorPageContent() {
     const [nodes, setNodes] = useState<Node<TableNodeData>[]>([]);
     const [edges, setEdges] = useState<Edge[]>([]);
     const [selectedEdgeId, setSelectedEdgeId] = useState<string | null>(null);
+    const [joinTableChoice, setJoinTableChoice] = useState<string>(NEW_JOIN_TABLE);
 
     // Project state
     const [projectId, setProjectId] = useState<string | null>(null);
@@ -50,6 +79,12 @@ function EditorPageContent() {
     // Instructions panel state
     const [instructionsExpanded, setInstructionsExpanded] = useState<boolean>(true);
 
+    // Enum registry panel state
+    const [showEnumPanel, setShowEnumPanel] = useState<boolean>(false);
+    const [showSequencePanel, setShowSequencePanel] = useState<boolean>(false);
+    const [showRolePanel, setShowRolePanel] = useState<boolean>(false);
+    const [showSettingsPanel, setShowSettingsPanel] = useState<boolean>(false);
+
     // Project list modal state
     const [showProjectList, setShowProjectList] = useState<boolean>(false);
     const [projectsList, setProjectsList] = useState<Array<{ id: string; name: string; updatedAt: string }>>([]);
@@ -59,52 +94,56 @@ function EditorPageContent() {
     const [savedPositions, setSavedPositions] = useState<{ [tableId: string]: { x: number; y: number } } | null>(null);
     const hasLoadedRef = useRef(false);
 
-    // Sync Zustand tables to React Flow nodes
+    // Sync Zustand tables and views to React Flow nodes
     useEffect(() => {
+        const items = [
+            ...tables.map((table: Table) => ({ id: table.id, name: table.name, type: 'tableNode' })),
+            ...views.map((view: View) => ({ id: view.id, name: view.name, type: 'viewNode' })),
+        ];
         setNodes((nds: Node<TableNodeData>[]) => {
-            const newNodes: Node<TableNodeData>[] = tables.map((table: Table, index: number) => {
+            const newNodes: Node<TableNodeData>[] = items.map((item, index: number) => {
                 // Try to preserve existing position first
-                const existingNode = nds.find((n) => n.id === table.id);
+                const existingNode = nds.find((n) => n.id === item.id);
                 if (existingNode) {
                     return {
-                        id: table.id,
-                        type: 'tableNode',
+                        id: item.id,
+                        type: item.type,
                         position: existingNode.position,
                         data: {
-                            name: table.name,
+                            name: item.name,
                         },
                     };
                 }
 
                 // Then try saved position
-                const savedPos = savedPositions?.[table.id];
+                const savedPos = savedPositions?.[item.id];
                 if (savedPos) {
                     return {
-                        id: table.id,
-                        type: 'tableNode',
+                        id: item.id,
+                        type: item.type,
                         position: savedPos,
                         data: {
-                            name: table.name,
+                            name: item.name,
                         },
                     };
                 }
 
                 // Fall back to default position
                 return {
-                    id: table.id,
-                    type: 'tableNode',
+                    id: item.id,
+                    type: item.type,
                     position: {
                         x: 100 + (index % 3) * 350,
                         y: 100 + Math.floor(index / 3) * 250,
                     },
                     data: {
-                        name: table.name,
+                        name: item.name,
                     },
                 };
             });
             return newNodes as Node<TableNodeData>[];
         });
-    }, [tables, savedPositions]);
+    }, [tables, views, savedPositions]);
 
     // Sync Zustand relations to React Flow edges with improved styling
     // Only create edges if both source and target nodes exist
@@ -118,10 +157,15 @@ function EditorPageContent() {
                 id: relation.id,
                 source: relation.fromTableId,
                 target: relation.toTableId,
-                sourceHandle: `${relation.fromTableId}::${relation.fromColumnId}`,
-                targetHandle: `${relation.toTableId}::${relation.toColumnId}`,
+                // A composite key is drawn as one edge anchored at its first column pair
+                sourceHandle: `${relation.fromTableId}::${relation.columns[0]?.fromColumnId}`,
+                targetHandle: `${relation.toTableId}::${relation.columns[0]?.toColumnId}`,
                 type: 'smoothstep',
                 animated: false,
+                label: relation.columns.length > 1
+                    ? `${CARDINALITY_LABELS[relation.cardinality]} (${relation.columns.length} cols)`
+                    : CARDINALITY_LABELS[relation.cardinality],
+                labelStyle: { fontSize: 10, fontWeight: 600, fill: '#1d4ed8' },
                 style: {
                     stroke: '#3b82f6',
                     strokeWidth: 2,
@@ -133,13 +177,36 @@ function EditorPageContent() {
                     color: '#3b82f6',
                 },
             }));
-        setEdges(validEdges);
-    }, [relations, tables]);
+
+        // Dashed edges from each table or view to the views that read from it
+        const nodeIds = new Set([...tableIds, ...views.map((view: View) => view.id)]);
+        const dependencyEdges = views.flatMap((view: View) => view.dependencyIds
+            .filter((dependencyId) => nodeIds.has(dependencyId))
+            .map((dependencyId) => ({
+                id: `${VIEW_DEPENDENCY_EDGE_PREFIX}${dependencyId}:${view.id}`,
+                source: dependencyId,
+                target: view.id,
+                type: 'smoothstep',
+                animated: false,
+                selectable: false,
+                deletable: false,
+                style: {
+                    stroke: '#10b981',
+                    strokeWidth: 1.5,
+                    strokeDasharray: '6 4',
+                },
+            })));
+        setEdges([...validEdges, ...dependencyEdges]);
+    }, [relations, tables, views]);
 
     const handleAddTable = useCallback(() => {
         addTable();
     }, [addTable]);
 
+    const handleAddView = useCallback(() => {
+        addView();
+    }, [addView]);
+
     const handleTestNormalization = useCallback(() => {
         const normalized = getNormalizedSchema();
         console.log('Normalized Schema:', JSON.stringify(normalized, null, 2));
@@ -148,7 +215,19 @@ function EditorPageContent() {
         const validationResult = validateSchema(normalized);
         console.log('Validation Result:', validationResult);
 
-        if (validationResult.valid) {
+        if (validationResult.valid && validationResult.warnings.length > 0) {
+            setNormalized(true); // Warnings do not block export
+            const warningCount = validationResult.warnings.length;
+            toast.warning(`Schema is valid with ${warningCount} warning${warningCount > 1 ? 's' : ''}`, {
+                description: validationResult.warnings[0].message,
+                duration: 5000,
+            });
+            console.group('Validation Warnings');
+            validationResult.warnings.forEach((warning, index) => {
+                console.warn(`${index + 1}. [${warning.code}] ${warning.message}`);
+            });
+            console.groupEnd();
+        } else if (validationResult.valid) {
             setNormalized(true); // Mark as normalized when validation passes
             toast.success('Schema is valid!', {
                 description: 'No validation errors found',
@@ -190,7 +269,7 @@ function EditorPageContent() {
             });
 
             // Normalize schema with positions
-            const normalized = normalizeSchema(tables, relations, positions);
+            const normalized = normalizeSchema({ tables, relations, enums, sequences, views, roles, extensions }, positions);
             const name = projectName || 'Untitled Project';
 
             let response: Response;
@@ -229,7 +308,7 @@ function EditorPageContent() {
                 duration: 5000,
             });
         }
-    }, [projectId, projectName, tables, relations, nodes]);
+    }, [projectId, projectName, tables, relations, enums, sequences, views, roles, extensions, nodes]);
 
     const handleLoad = useCallback(async (id?: string) => {
         if (!id) {
@@ -262,7 +341,7 @@ function EditorPageContent() {
     }, [router]);
 
     const handleNewProject = useCallback(() => {
-        loadSchema([], []);
+        loadSchema({ tables: [], relations: [], enums: [], sequences: [], views: [], roles: [], extensions: [] });
         setProjectId(null);
         setProjectName('Untitled Project');
         setSavedPositions(null); // Clear saved positions for new project
@@ -286,7 +365,7 @@ function EditorPageContent() {
                 loadingRef.current = urlProjectId;
 
                 // IMMEDIATE FIX: Clear existing state to prevent "flash" of old project
-                loadSchema([], []);
+                loadSchema({ tables: [], relations: [], enums: [], sequences: [], views: [], roles: [], extensions: [] });
                 setProjectId(null); // Reset ID temporarily
                 setProjectName('Loading...'); // UI indicator
 
@@ -305,8 +384,8 @@ function EditorPageContent() {
                         const schema = project.schema as NormalizedSchema;
 
                         // Denormalize and load into store
-                        const { tables: loadedTables, relations: loadedRelations, positions: loadedPositions } = denormalizeSchema(schema);
-                        loadSchema(loadedTables, loadedRelations);
+                        const { positions: loadedPositions, ...loadedSchema } = denormalizeSchema(schema);
+                        loadSchema(loadedSchema);
 
                         // Store positions for restoration (will be used by node sync useEffect)
                         if (loadedPositions) {
@@ -340,9 +419,50 @@ function EditorPageContent() {
         }
     }, [searchParams, projectId, loadSchema, handleNewProject]);
 
+    // Frame the tables of each non-public schema so namespaces read as groups
+    const namespaceNodes = useMemo(() => {
+        const bounds = new Map<string, { minX: number; minY: number; maxX: number; maxY: number }>();
+        nodes.forEach((node) => {
+            const namespace = tables.find((t: Table) => t.id === node.id)?.namespace
+                ?? views.find((v: View) => v.id === node.id)?.namespace;
+            if (!namespace || namespace === DEFAULT_NAMESPACE) return;
+
+            // Unmeasured nodes (first render) fall back to a typical table size
+            const width = node.measured?.width ?? 280;
+            const height = node.measured?.height ?? 200;
+            const box = bounds.get(namespace);
+            bounds.set(namespace, {
+                minX: Math.min(box?.minX ?? Infinity, node.position.x),
+                minY: Math.min(box?.minY ?? Infinity, node.position.y),
+                maxX: Math.max(box?.maxX ?? -Infinity, node.position.x + width),
+                maxY: Math.max(box?.maxY ?? -Infinity, node.position.y + height),
+            });
+        });
+
+        return Array.from(bounds.entries()).map(([namespace, box]): Node<NamespaceNodeData> => ({
+            id: `${NAMESPACE_NODE_PREFIX}${namespace}`,
+            type: 'namespaceNode',
+            position: {
+                x: box.minX - NAMESPACE_PADDING,
+                y: box.minY - NAMESPACE_PADDING - NAMESPACE_LABEL_HEIGHT,
+            },
+            width: box.maxX - box.minX + NAMESPACE_PADDING * 2,
+            height: box.maxY - box.minY + NAMESPACE_PADDING * 2 + NAMESPACE_LABEL_HEIGHT,
+            data: { name: namespace },
+            selectable: false,
+            draggable: false,
+            connectable: false,
+            focusable: false,
+            zIndex: -1,
+            style: { pointerEvents: 'none' },
+        }));
+    }, [nodes, tables, views]);
+
     // Enable node dragging
     const onNodesChange: OnNodesChange = useCallback((changes) => {
-        setNodes((nds) => applyNodeChanges(changes, nds) as Node<TableNodeData>[]);
+        // Namespace frames are recomputed from the tables, so their changes are dropped
+        const tableChanges = changes.filter((change) => change.type === 'add' || !change.id.startsWith(NAMESPACE_NODE_PREFIX));
+        setNodes((nds) => applyNodeChanges(tableChanges, nds) as Node<TableNodeData>[]);
     }, []);
 
     // Enable edge deletion and sync to store
@@ -350,9 +470,9 @@ function EditorPageContent() {
         setEdges((eds) => {
             const newEdges = applyEdgeChanges(changes, eds);
 
-            // Detect deletions and sync to store
+            // Detect deletions and sync to store (dependency edges belong to their view)
             changes.forEach((change) => {
-                if (change.type === 'remove') {
+                if (change.type === 'remove' && !change.id.startsWith(VIEW_DEPENDENCY_EDGE_PREFIX)) {
                     removeRelation(change.id);
                 }
             });
@@ -412,17 +532,32 @@ function EditorPageContent() {
             const targetTable = tables.find((t: Table) => t.id === targetTableId);
             const targetColumn = targetTable?.columns.find((c: Column) => c.id === targetColumnId);
 
+            // A composite key needs every PK column mapped; match the rest by name in the target
+            const columns: ColumnPair[] = [{ fromColumnId: sourceColumnId, toColumnId: targetColumnId }];
+            const otherKeys = sourceTable.columns.filter((c: Column) => c.primaryKey && c.id !== sourceColumnId);
+            for (const key of otherKeys) {
+                const match = targetTable?.columns.find((c: Column) =>
+                    c.id !== targetColumnId &&
+                    (c.name === key.name || c.name === `${toSingular(sourceTable.name)}_${key.name}`)
+                );
+                if (match) {
+                    columns.push({ fromColumnId: key.id, toColumnId: match.id });
+                }
+            }
+
             // Add relation
             addRelation({
                 fromTableId: sourceTableId,
-                fromColumnId: sourceColumnId,
                 toTableId: targetTableId,
-                toColumnId: targetColumnId,
+                columns,
+                cardinality: 'one-to-many',
             });
 
             // Success notification
             toast.success('Relationship created successfully', {
-                description: `${sourceTable.name}.${sourceColumn.name} → ${targetTable?.name}.${targetColumn?.name}`,
+                description: otherKeys.length > 0 && columns.length <= otherKeys.length
+                    ? `Map the remaining ${sourceTable.name} key columns in the relationship panel`
+                    : `${sourceTable.name}.${sourceColumn.name} → ${targetTable?.name}.${targetColumn?.name}`,
                 duration: 3000,
             });
         },
@@ -447,6 +582,8 @@ function EditorPageContent() {
 
     const handleEdgeClick = useCallback((event: React.MouseEvent, edge: Edge) => {
         event.stopPropagation();
+        // Dependency edges are edited on their view, not in the relationship panel
+        if (edge.id.startsWith(VIEW_DEPENDENCY_EDGE_PREFIX)) return;
         setSelectedEdgeId(edge.id);
     }, []);
 
@@ -473,7 +610,7 @@ function EditorPageContent() {
 
         updateRelation(selectedEdgeId, {
             toTableId: targetTableId,
-            toColumnId: targetColumnId,
+            columns: [{ fromColumnId: relation.columns[0]?.fromColumnId, toColumnId: targetColumnId }],
         });
 
         const targetTable = tables.find((t: Table) => t.id === targetTableId);
@@ -484,11 +621,70 @@ function EditorPageContent() {
         });
     }, [selectedEdgeId, relations, tables, updateRelation]);
 
+    // Maps one column of a composite key; an empty target removes the pair
+    const handleUpdateColumnPair = useCallback((fromColumnId: string, toColumnId: string) => {
+        if (!selectedEdgeId) return;
+
+        const relation = relations.find((r: Relation) => r.id === selectedEdgeId);
+        if (!relation) return;
+
+        const columns = relation.columns.filter((pair: ColumnPair) => pair.fromColumnId !== fromColumnId);
+        if (toColumnId) {
+            columns.push({ fromColumnId, toColumnId });
+        }
+        updateRelation(selectedEdgeId, { columns });
+    }, [selectedEdgeId, relations, updateRelation]);
+
+    const handleUpdateReferentialAction = useCallback((field: 'onDelete' | 'onUpdate', value: string) => {
+        if (!selectedEdgeId) return;
+
+        // Empty selection falls back to the database default (NO ACTION)
+        updateRelation(selectedEdgeId, {
+            [field]: value ? value as ReferentialAction : undefined,
+        });
+    }, [selectedEdgeId, updateRelation]);
+
+    const handleUpdateCardinality = useCallback((value: string) => {
+        if (!selectedEdgeId) return;
+
+        setRelationCardinality(selectedEdgeId, value as Exclude<Cardinality, 'many-to-many'>);
+    }, [selectedEdgeId, setRelationCardinality]);
+
+    const handleConvertToManyToMany = useCallback(() => {
+        if (!selectedEdgeId) return;
+
+        const relation = relations.find((r: Relation) => r.id === selectedEdgeId);
+        const targetTable = tables.find((t: Table) => t.id === relation?.toTableId);
+        if (!targetTable?.columns.some((c: Column) => c.primaryKey)) {
+            toast.error('Cannot create many-to-many relationship', {
+                description: `Table '${targetTable?.name}' needs a Primary Key for the join table to reference`,
+                duration: 4000,
+            });
+            return;
+        }
+
+        const targetColumns = targetTable.columns.filter((c: Column) =>
+            relation?.columns.some((pair: ColumnPair) => pair.toColumnId === c.id) && !c.primaryKey
+        );
+        convertToManyToMany(selectedEdgeId, joinTableChoice === NEW_JOIN_TABLE ? undefined : joinTableChoice);
+        setSelectedEdgeId(null);
+        setJoinTableChoice(NEW_JOIN_TABLE);
+        toast.success('Many-to-many relationship created', {
+            description: targetColumns.length > 0
+                ? `${targetColumns.map((c: Column) => `${targetTable.name}.${c.name}`).join(', ')} no longer ${targetColumns.length > 1 ? 'form a foreign key' : 'is a foreign key'} and can be removed`
+                : undefined,
+            duration: 3000,
+        });
+    }, [selectedEdgeId, relations, tables, joinTableChoice, convertToManyToMany]);
+
     return (
         <div className="h-screen flex flex-col bg-white dark:bg-gray-950">
             <ReactFlow
-                nodes={nodes}
+                nodes={[...namespaceNodes, ...nodes] as Node[]}
                 edges={edges.map((edge) => {
+                    if (edge.id.startsWith(VIEW_DEPENDENCY_EDGE_PREFIX)) {
+                        return edge;
+                    }
                     const isSelected = edge.id === selectedEdgeId;
                     // Only creating new object if selection status changes effectively
                     // But for now, map is fine as long as useEffect doesn't loop.
@@ -556,6 +752,26 @@ function EditorPageContent() {
                             </svg>
                             <span className="text-sm">Add Table</span>
                         </button>
+                        <button
+                            onClick={handleAddView}
+                            className="group bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-750 text-gray-700 dark:text-gray-200 font-medium px-4 py-2 rounded-lg shadow-sm hover:shadow-md border border-gray-200 dark:border-gray-700 transition-all duration-200 flex items-center gap-2"
+                            title="Add a view or materialized view"
+                        >
+                            <svg
+                                xmlns="http://www.w3.org/2000/svg"
+                                className="h-4 w-4 text-gray-500 dark:text-gray-400 group-hover:text-gray-700 dark:group-hover:text-gray-200 transition-colors"
+                                viewBox="0 0 20 20"
+                                fill="currentColor"
+                            >
+                                <path d="M10 12a2 2 0 100-4 2 2 0 000 4z" />
+                                <path
+                                    fillRule="evenodd"
+                                    d="M.458 10C1.732 5.943 5.522 3 10 3s8.268 2.943 9.542 7c-1.274 4.057-5.064 7-9.542 7S1.732 14.057.458 10zM14 10a4 4 0 11-8 0 4 4 0 018 0z"
+                                    clipRule="evenodd"
+                                />
+                            </svg>
+                            <span className="text-sm">Add View</span>
+                        </button>
                         {/* Theme Toggle */}
                         <ThemeToggle />
                         <button
@@ -629,6 +845,94 @@ function EditorPageContent() {
                             </svg>
                             <span className="text-sm">New</span>
                         </button>
+                        <button
+                            onClick={() => {
+                                setShowEnumPanel(!showEnumPanel);
+                                setShowSequencePanel(false);
+                                setShowRolePanel(false);
+                                setShowSettingsPanel(false);
+                            }}
+                            className="group bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-750 text-gray-700 dark:text-gray-200 font-medium px-4 py-2 rounded-lg shadow-sm hover:shadow-md border border-gray-200 dark:border-gray-700 transition-all duration-200 flex items-center gap-2"
+                            title="Manage enum types"
+                        >
+                            <svg
+                                xmlns="http://www.w3.org/2000/svg"
+                                className="h-4 w-4 text-gray-500 dark:text-gray-400 group-hover:text-gray-700 dark:group-hover:text-gray-200 transition-colors"
+                                viewBox="0 0 20 20"
+                                fill="currentColor"
+                            >
+                                <path
+                                    fillRule="evenodd"
+                                    d="M3 4a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm0 4a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm0 4a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm0 4a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1z"
+                                    clipRule="evenodd"
+                                />
+                            </svg>
+                            <span className="text-sm">Enums</span>
+                        </button>
+                        <button
+                            onClick={() => {
+                                setShowSequencePanel(!showSequencePanel);
+                                setShowEnumPanel(false);
+                                setShowRolePanel(false);
+                                setShowSettingsPanel(false);
+                            }}
+                            className="group bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-750 text-gray-700 dark:text-gray-200 font-medium px-4 py-2 rounded-lg shadow-sm hover:shadow-md border border-gray-200 dark:border-gray-700 transition-all duration-200 flex items-center gap-2"
+                            title="Manage sequences"
+                        >
+                            <svg
+                                xmlns="http://www.w3.org/2000/svg"
+                                className="h-4 w-4 text-gray-500 dark:text-gray-400 group-hover:text-gray-700 dark:group-hover:text-gray-200 transition-colors"
+                                viewBox="0 0 20 20"
+                                fill="currentColor"
+                            >
+                                <path d="M3 3a1 1 0 000 2h11a1 1 0 100-2H3zM3 7a1 1 0 000 2h7a1 1 0 100-2H3zM3 11a1 1 0 100 2h4a1 1 0 100-2H3zM15 8a1 1 0 10-2 0v5.586l-1.293-1.293a1 1 0 00-1.414 1.414l3 3a1 1 0 001.414 0l3-3a1 1 0 00-1.414-1.414L15 13.586V8z" />
+                            </svg>
+                            <span className="text-sm">Sequences</span>
+                        </button>
+                        <button
+                            onClick={() => {
+                                setShowRolePanel(!showRolePanel);
+                                setShowEnumPanel(false);
+                                setShowSequencePanel(false);
+                                setShowSettingsPanel(false);
+                            }}
+                            className="group bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-750 text-gray-700 dark:text-gray-200 font-medium px-4 py-2 rounded-lg shadow-sm hover:shadow-md border border-gray-200 dark:border-gray-700 transition-all duration-200 flex items-center gap-2"
+                            title="Manage roles and privileges"
+                        >
+                            <svg
+                                xmlns="http://www.w3.org/2000/svg"
+                                className="h-4 w-4 text-gray-500 dark:text-gray-400 group-hover:text-gray-700 dark:group-hover:text-gray-200 transition-colors"
+                                viewBox="0 0 20 20"
+                                fill="currentColor"
+                            >
+                                <path d="M9 6a3 3 0 11-6 0 3 3 0 016 0zM17 6a3 3 0 11-6 0 3 3 0 016 0zM12.93 17c.046-.327.07-.66.07-1a6.97 6.97 0 00-1.5-4.33A5 5 0 0119 16v1h-6.07zM6 11a5 5 0 015 5v1H1v-1a5 5 0 015-5z" />
+                            </svg>
+                            <span className="text-sm">Roles</span>
+                        </button>
+                        <button
+                            onClick={() => {
+                                setShowSettingsPanel(!showSettingsPanel);
+                                setShowEnumPanel(false);
+                                setShowSequencePanel(false);
+                                setShowRolePanel(false);
+                            }}
+                            className="group bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-750 text-gray-700 dark:text-gray-200 font-medium px-4 py-2 rounded-lg shadow-sm hover:shadow-md border border-gray-200 dark:border-gray-700 transition-all duration-200 flex items-center gap-2"
+                            title="Project settings and PostgreSQL extensions"
+                        >
+                            <svg
+                                xmlns="http://www.w3.org/2000/svg"
+                                className="h-4 w-4 text-gray-500 dark:text-gray-400 group-hover:text-gray-700 dark:group-hover:text-gray-200 transition-colors"
+                                viewBox="0 0 20 20"
+                                fill="currentColor"
+                            >
+                                <path
+                                    fillRule="evenodd"
+                                    d="M11.49 3.17c-.38-1.56-2.6-1.56-2.98 0a1.532 1.532 0 01-2.286.948c-1.372-.836-2.942.734-2.106 2.106.54.886.061 2.042-.947 2.287-1.561.379-1.561 2.6 0 2.978a1.532 1.532 0 01.947 2.287c-.836 1.372.734 2.942 2.106 2.106a1.532 1.532 0 012.287.947c.379 1.561 2.6 1.561 2.978 0a1.533 1.533 0 012.287-.947c1.372.836 2.942-.734 2.106-2.106a1.533 1.533 0 01.947-2.287c1.561-.379 1.561-2.6 0-2.978a1.532 1.532 0 01-.947-2.287c.836-1.372-.734-2.942-2.106-2.106a1.532 1.532 0 01-2.287-.947zM10 13a3 3 0 100-6 3 3 0 000 6z"
+                                    clipRule="evenodd"
+                                />
+                            </svg>
+                            <span className="text-sm">Settings</span>
+                        </button>
                     </div>
                     {projectId && (
                         <div className="bg-white/95 dark:bg-gray-800/95 backdrop-blur-sm px-3 py-2 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
@@ -645,13 +949,29 @@ function EditorPageContent() {
                     )}
                 </div>
 
+                {/* Enum Registry Panel */}
+                {showEnumPanel && <EnumPanel onClose={() => setShowEnumPanel(false)} />}
+
+                {/* Sequence Panel */}
+                {showSequencePanel && <SequencePanel onClose={() => setShowSequencePanel(false)} />}
+
+                {/* Role Panel */}
+                {showRolePanel && <RolePanel onClose={() => setShowRolePanel(false)} />}
+
+                {/* Project Settings Panel */}
+                {showSettingsPanel && <ProjectSettingsPanel onClose={() => setShowSettingsPanel(false)} />}
+
                 {/* Edge Selection Panel */}
                 {selectedEdgeId && (() => {
                     const relation = relations.find((relation: Relation) => relation.id === selectedEdgeId);
                     if (!relation) return null;
 
                     const sourceTable = tables.find((t: Table) => t.id === relation.fromTableId);
-                    const sourceColumn = sourceTable?.columns.find((c: Column) => c.id === relation.fromColumnId);
+                    const sourceKeys = sourceTable?.columns.filter((c: Column) => c.primaryKey) ?? [];
+                    const sourceColumns = relation.columns
+                        .map((pair: ColumnPair) => sourceTable?.columns.find((c: Column) => c.id === pair.fromColumnId)?.name)
+                        .filter(Boolean);
+                    const targetTable = tables.find((t: Table) => t.id === relation.toTableId);
 
                     return (
                         <div className="absolute top-32 right-4 bg-white rounded-lg shadow-lg p-4 max-w-sm z-10 border border-gray-200">
@@ -682,30 +1002,135 @@ function EditorPageContent() {
                                         From (Source)
                                     </label>
                                     <div className="text-sm text-gray-900 bg-gray-50 px-2 py-1.5 rounded border border-gray-200">
-                                        {sourceTable?.name}.{sourceColumn?.name}
+                                        {sourceColumns.length > 1
+                                            ? `${sourceTable?.name}(${sourceColumns.join(', ')})`
+                                            : `${sourceTable?.name}.${sourceColumns[0]}`}
                                     </div>
                                 </div>
 
-                                <div>
-                                    <label className="text-xs font-medium text-gray-700 block mb-1">
-                                        To (Target)
-                                    </label>
-                                    <select
-                                        value={`${relation.toTableId}:: ${relation.toColumnId}`}
-                                        onChange={(e) => handleUpdateTargetColumn(e.target.value)}
-                                        className="w-full text-sm border border-gray-300 rounded px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-blue-400"
-                                    >
-                                        {tables.map((table: Table) =>
-                                            table.columns.map((column: Column) => (
-                                                <option
-                                                    key={`${table.id}:: ${column.id}`}
-                                                    value={`${table.id}:: ${column.id}`}
-                                                >
-                                                    {table.name}.{column.name}
-                                                </option>
-                                            ))
-                                        )}
-                                    </select>
+                                {sourceKeys.length > 1 ? (
+                                    <div>
+                                        <label className="text-xs font-medium text-gray-700 block mb-1">
+                                            Column mapping ({targetTable?.name})
+                                        </label>
+                                        <div className="space-y-1">
+                                            {sourceKeys.map((key: Column) => (
+                                                <div key={key.id} className="flex items-center gap-2">
+                                                    <span className="w-24 shrink-0 truncate text-xs font-mono text-gray-700">{key.name}</span>
+                                                    <span className="text-xs text-gray-400">→</span>
+                                                    <select
+                                                        value={relation.columns.find((pair: ColumnPair) => pair.fromColumnId === key.id)?.toColumnId ?? ''}
+                                                        onChange={(e) => handleUpdateColumnPair(key.id, e.target.value)}
+                                                        className="flex-1 min-w-0 text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-blue-400"
+                                                    >
+                                                        <option value="">(unmapped)</option>
+                                                        {targetTable?.columns.map((column: Column) => (
+                                                            <option key={column.id} value={column.id}>
+                                                                {column.name}
+                                                            </option>
+                                                        ))}
+                                                    </select>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </div>
+                                ) : (
+                                    <div>
+                                        <label className="text-xs font-medium text-gray-700 block mb-1">
+                                            To (Target)
+                                        </label>
+                                        <select
+                                            value={`${relation.toTableId}::${relation.columns[0]?.toColumnId}`}
+                                            onChange={(e) => handleUpdateTargetColumn(e.target.value)}
+                                            className="w-full text-sm border border-gray-300 rounded px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-blue-400"
+                                        >
+                                            {tables.map((table: Table) =>
+                                                table.columns.map((column: Column) => (
+                                                    <option
+                                                        key={`${table.id}::${column.id}`}
+                                                        value={`${table.id}::${column.id}`}
+                                                    >
+                                                        {table.name}.{column.name}
+                                                    </option>
+                                                ))
+                                            )}
+                                        </select>
+                                    </div>
+                                )}
+
+                                {relation.cardinality === 'many-to-many' && targetTable?.joinTable ? (
+                                    <div>
+                                        <label className="text-xs font-medium text-gray-700 block mb-1">
+                                            Many-to-many via {targetTable.name}
+                                        </label>
+                                        <select
+                                            value={targetTable.joinTable.prismaMode}
+                                            onChange={(e) => updateJoinTable(targetTable.id, { prismaMode: e.target.value as JoinTablePrismaMode })}
+                                            className="w-full text-sm border border-gray-300 rounded px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-blue-400"
+                                        >
+                                            <option value="implicit">Prisma: implicit relation</option>
+                                            <option value="explicit">Prisma: explicit join model</option>
+                                        </select>
+                                    </div>
+                                ) : (
+                                    <div>
+                                        <label className="text-xs font-medium text-gray-700 block mb-1">
+                                            Cardinality
+                                        </label>
+                                        <select
+                                            value={relation.cardinality === 'one-to-one' ? 'one-to-one' : 'one-to-many'}
+                                            onChange={(e) => handleUpdateCardinality(e.target.value)}
+                                            className="w-full text-sm border border-gray-300 rounded px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-blue-400"
+                                        >
+                                            <option value="one-to-many">One-to-many (1:N)</option>
+                                            <option value="one-to-one">One-to-one (1:1)</option>
+                                        </select>
+                                        <div className="flex gap-2 mt-2">
+                                            <select
+                                                value={joinTableChoice}
+                                                onChange={(e) => setJoinTableChoice(e.target.value)}
+                                                className="flex-1 min-w-0 text-sm border border-gray-300 rounded px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-blue-400"
+                                                title="Join table for the many-to-many relationship"
+                                            >
+                                                <option value={NEW_JOIN_TABLE}>New join table</option>
+                                                {tables
+                                                    .filter((t: Table) => t.id !== relation.fromTableId && t.id !== relation.toTableId)
+                                                    .map((t: Table) => (
+                                                        <option key={t.id} value={t.id}>
+                                                            {t.name}
+                                                        </option>
+                                                    ))}
+                                            </select>
+                                            <button
+                                                onClick={handleConvertToManyToMany}
+                                                className="px-2 py-1.5 text-sm text-blue-600 hover:text-blue-700 hover:bg-blue-50 rounded transition-colors font-medium shrink-0"
+                                            >
+                                                Make M:N
+                                            </button>
+                                        </div>
+                                    </div>
+                                )}
+
+                                <div className="grid grid-cols-2 gap-2">
+                                    {(['onDelete', 'onUpdate'] as const).map((field) => (
+                                        <div key={field}>
+                                            <label className="text-xs font-medium text-gray-700 block mb-1">
+                                                {field === 'onDelete' ? 'On Delete' : 'On Update'}
+                                            </label>
+                                            <select
+                                                value={relation[field] || ''}
+                                                onChange={(e) => handleUpdateReferentialAction(field, e.target.value)}
+                                                className="w-full text-sm border border-gray-300 rounded px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-blue-400"
+                                            >
+                                                <option value="">(default)</option>
+                                                {REFERENTIAL_ACTIONS.map((action) => (
+                                                    <option key={action} value={action}>
+                                                        {action}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                    ))}
                                 </div>
                             </div>
 
@@ -775,6 +1200,10 @@ function EditorPageContent() {
                                             <span className="text-gray-400 dark:text-gray-500 mt-0.5">•</span>
                                             <span><strong className="text-gray-700 dark:text-gray-300 font-medium">Tables:</strong> "Add Table" to create</span>
                                         </li>
+                                        <li className="flex items-start gap-1.5">
+                                            <span className="text-gray-400 dark:text-gray-500 mt-0.5">•</span>
+                                            <span><strong className="text-gray-700 dark:text-gray-300 font-medium">Views:</strong> &quot;Add View&quot;, then pick what it reads from</span>
+                                        </li>
                                         <li className="flex items-start gap-1.5">
                                             <span className="text-gray-400 dark:text-gray-500 mt-0.5">•</span>
                                             <span><strong className="text-gray-700 dark:text-gray-300 font-medium">Relations:</strong> Drag PK to target</span>
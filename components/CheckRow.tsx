@@ -0,0 +1,69 @@
+'use client';
+
+import React from 'react';
+import { useSchemaStore, CheckConstraint } from '@/store/schemaStore';
+
+interface CheckRowProps {
+    tableId: string;
+    check: CheckConstraint;
+}
+
+export default function CheckRow({ tableId, check }: CheckRowProps) {
+    const { updateCheck, deleteCheck } = useSchemaStore();
+
+    const handleNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        updateCheck(tableId, check.id, { name: e.target.value });
+    };
+
+    const handleExpressionChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        updateCheck(tableId, check.id, { expression: e.target.value });
+    };
+
+    const handleDelete = () => {
+        deleteCheck(tableId, check.id);
+    };
+
+    return (
+        <div className="px-3 py-2 border-b border-gray-100 dark:border-gray-700 last:border-b-0 text-sm">
+            <div className="flex items-center gap-2">
+                {/* Constraint Name */}
+                <input
+                    type="text"
+                    value={check.name}
+                    onChange={handleNameChange}
+                    className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400"
+                    placeholder="auto-named"
+                />
+
+                {/* Delete Button */}
+                <button
+                    onClick={handleDelete}
+                    className="p-1.5 text-gray-400 dark:text-gray-500 hover:text-red-500 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-colors shrink-0"
+                    title="Delete check"
+                >
+                    <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        className="h-4 w-4"
+                        viewBox="0 0 20 20"
+                        fill="currentColor"
+                    >
+                        <path
+                            fillRule="evenodd"
+                            d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z"
+                            clipRule="evenodd"
+                        />
+                    </svg>
+                </button>
+            </div>
+
+            {/* Expression */}
+            <input
+                type="text"
+                value={check.expression}
+                onChange={handleExpressionChange}
+                className="w-full mt-2 px-2 py-1 text-xs font-mono border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400"
+                placeholder="e.g. start_at < end_at"
+            />
+        </div>
+    );
+}
@@ -2,18 +2,48 @@
 
 import React, { useState } from 'react';
 import { Handle, Position } from '@xyflow/react';
-import { useSchemaStore, Column, Table } from '@/store/schemaStore';
+import { useSchemaStore, Column, Table, EnumType, Sequence, IdentityOptions } from '@/store/schemaStore';
+import { BASE_TYPES, BaseType, ColumnType, TYPE_REGISTRY, getTypeCategory, isTimestampType, parseLiteral } from '@/lib/columnTypes';
 
 interface ColumnRowProps {
     tableId: string;
     column: Column;
 }
 
-const DATATYPES = ['int', 'varchar', 'text', 'boolean', 'timestamp', 'uuid'];
+// Enum types are selected as "enum:<enumId>" so the dropdown can hold them alongside scalars
+const ENUM_OPTION_PREFIX = 'enum:';
+
+/**
+ * Whether a column of the given type can keep a default of the given kind
+ */
+function supportsDefault(kind: NonNullable<Column['default']>['kind'], type: ColumnType): boolean {
+    const category = getTypeCategory(type);
+    if (kind === 'autoincrement' || kind === 'identity' || kind === 'sequence') {
+        return category === 'integer' && !type.array;
+    }
+    if (kind === 'uuid') {
+        return (category === 'uuid' || category === 'string') && !type.array;
+    }
+    if (kind === 'now') {
+        return category === 'temporal' && !type.array;
+    }
+    // Custom values are kept unless the column leaves or changes enum (handled by the caller)
+    return true;
+}
+
+/**
+ * Parse a type parameter input; empty input clears the parameter
+ */
+function parseTypeParam(value: string): number | undefined {
+    return value.trim() === '' ? undefined : Number(value);
+}
 
 export default function ColumnRow({ tableId, column }: ColumnRowProps) {
-    const { tables, updateColumn, deleteColumn } = useSchemaStore();
+    const { tables, enums, sequences, updateColumn, deleteColumn } = useSchemaStore();
     const [showAdvanced, setShowAdvanced] = useState(false);
+    const [customKind, setCustomKind] = useState<'value' | 'expression'>(
+        column.default?.kind === 'expression' ? 'expression' : 'value'
+    );
 
     // Get the current table to check for other columns
     const currentTable = tables.find((t: Table) => t.id === tableId);
@@ -23,33 +53,82 @@ export default function ColumnRow({ tableId, column }: ColumnRowProps) {
     const hasOtherAutoincrement = otherColumns.some((c: Column) => c.default?.kind === 'autoincrement');
 
     // Determine which options are enabled
-    const canUseAutoincrement = column.type === 'int' && column.primaryKey && !hasOtherAutoincrement;
-    const canUseUUID = (column.type === 'uuid' || column.type === 'varchar') && column.primaryKey;
-    const canUseNow = column.type === 'timestamp';
+    const canUseAutoincrement = supportsDefault('autoincrement', column.type) && column.primaryKey && !hasOtherAutoincrement;
+    const canUseUUID = supportsDefault('uuid', column.type) && column.primaryKey;
+    const canUseNow = supportsDefault('now', column.type);
+    const canUseIdentity = supportsDefault('identity', column.type);
+    const canUseSequence = supportsDefault('sequence', column.type) && sequences.length > 0;
+    const typeParams = TYPE_REGISTRY[column.type.base]?.params ?? 'none';
 
     // Check if UUID or autoincrement is currently set
     const hasAutoincrement = column.default?.kind === 'autoincrement';
     const hasUUID = column.default?.kind === 'uuid';
     const hasNow = column.default?.kind === 'now';
-    const hasCustom = column.default?.kind === 'value';
+    const hasCustom = column.default?.kind === 'value' || column.default?.kind === 'expression';
+    // Literal defaults are rendered per type, so flag text that will not parse as one
+    const hasInvalidLiteral = column.default?.kind === 'value' && column.type.base !== 'enum' &&
+        !parseLiteral(column.type, column.default.value ?? '');
+    const hasSequence = column.default?.kind === 'sequence';
+    const identity = column.default?.kind === 'identity' ? column.default.identity ?? { generation: 'by-default' } : undefined;
+
+    // Enum the column uses, if any (custom defaults become a choice of its values)
+    const columnEnum = column.type.base === 'enum'
+        ? enums.find((e: EnumType) => e.id === column.enumId)
+        : undefined;
+    const typeValue = column.type.base === 'enum' ? `${ENUM_OPTION_PREFIX}${column.enumId ?? ''}` : column.type.base;
 
     const handleNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         updateColumn(tableId, column.id, { name: e.target.value });
     };
 
     const handleTypeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-        const newType = e.target.value;
-        const updates: Partial<Column> = { type: newType };
+        if (e.target.value.startsWith(ENUM_OPTION_PREFIX)) {
+            // Switching enums invalidates any default, since it must be one of the enum's values
+            updateColumn(tableId, column.id, {
+                type: { base: 'enum', array: column.type.array },
+                enumId: e.target.value.slice(ENUM_OPTION_PREFIX.length),
+                default: undefined,
+                autoUpdate: undefined,
+            });
+            return;
+        }
+
+        // Parameters belong to the old base type, so only the array flag carries over
+        const newType: ColumnType = { base: e.target.value as BaseType, array: column.type.array };
+        const updates: Partial<Column> = { type: newType, enumId: undefined };
 
         // Clear incompatible defaults when type changes
-        if (column.default) {
-            if (newType !== 'int' && column.default.kind === 'autoincrement') {
-                updates.default = undefined;
-            } else if (newType !== 'timestamp' && column.default.kind === 'now') {
-                updates.default = undefined;
-            } else if ((newType !== 'uuid' && newType !== 'varchar') && column.default.kind === 'uuid') {
-                updates.default = undefined;
-            }
+        if (column.type.base === 'enum') {
+            updates.default = undefined;
+        } else if (column.default && !supportsDefault(column.default.kind, newType)) {
+            updates.default = undefined;
+        }
+        if (!isTimestampType(newType)) {
+            updates.autoUpdate = undefined;
+        }
+
+        updateColumn(tableId, column.id, updates);
+    };
+
+    const handleTypeParamChange = (param: 'length' | 'precision' | 'scale', value: string) => {
+        const newType: ColumnType = { ...column.type, [param]: parseTypeParam(value) };
+        // Scale is meaningless without a precision
+        if (param === 'precision' && newType.precision === undefined) {
+            newType.scale = undefined;
+        }
+        updateColumn(tableId, column.id, { type: newType });
+    };
+
+    const handleToggleArray = () => {
+        const newType: ColumnType = { ...column.type, array: !column.type.array };
+        const updates: Partial<Column> = { type: newType };
+
+        // Generated defaults and auto-update only apply to scalar columns
+        if (column.default && !supportsDefault(column.default.kind, newType)) {
+            updates.default = undefined;
+        }
+        if (!isTimestampType(newType)) {
+            updates.autoUpdate = undefined;
         }
 
         updateColumn(tableId, column.id, updates);
@@ -68,16 +147,25 @@ export default function ColumnRow({ tableId, column }: ColumnRowProps) {
         updateColumn(tableId, column.id, updates);
     };
 
-    const handleDefaultChange = (kind: 'autoincrement' | 'uuid' | 'now' | 'value' | null, value?: string) => {
+    const handleDefaultChange = (kind: NonNullable<Column['default']>['kind'] | null, value?: string) => {
         if (kind === null) {
             updateColumn(tableId, column.id, { default: undefined });
-        } else if (kind === 'value') {
-            updateColumn(tableId, column.id, { default: { kind: 'value', value: value || '' } });
+        } else if (kind === 'value' || kind === 'expression') {
+            updateColumn(tableId, column.id, { default: { kind, value: value || '' } });
+        } else if (kind === 'sequence') {
+            updateColumn(tableId, column.id, { default: { kind: 'sequence', sequenceId: value } });
+        } else if (kind === 'identity') {
+            updateColumn(tableId, column.id, { default: { kind: 'identity', identity: { generation: 'by-default' } } });
         } else {
             updateColumn(tableId, column.id, { default: { kind } });
         }
     };
 
+    const handleIdentityChange = (updates: Partial<IdentityOptions>) => {
+        if (!identity) return;
+        updateColumn(tableId, column.id, { default: { kind: 'identity', identity: { ...identity, ...updates } } });
+    };
+
     const handleDelete = () => {
         deleteColumn(tableId, column.id);
     };
@@ -112,23 +200,81 @@ export default function ColumnRow({ tableId, column }: ColumnRowProps) {
                     onChange={handleNameChange}
                     className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400 max-w-[120px]"
                     placeholder="column_name"
+                    title={column.description}
                 />
 
                 {/* Type Dropdown */}
                 <select
-                    value={column.type}
+                    value={typeValue}
                     onChange={handleTypeChange}
                     className="px-2 py-1 text-sm border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400 bg-white shrink-0"
                 >
-                    {DATATYPES.map((type) => (
+                    {BASE_TYPES.map((type) => (
                         <option key={type} value={type}>
                             {type}
                         </option>
                     ))}
+                    {enums.length > 0 && (
+                        <optgroup label="Enums">
+                            {enums.map((enumType: EnumType) => (
+                                <option key={enumType.id} value={`${ENUM_OPTION_PREFIX}${enumType.id}`}>
+                                    {enumType.name}
+                                </option>
+                            ))}
+                        </optgroup>
+                    )}
                 </select>
 
+                {/* Type Parameters */}
+                {typeParams === 'length' && (
+                    <input
+                        type="number"
+                        min={1}
+                        value={column.type.length ?? ''}
+                        onChange={(e) => handleTypeParamChange('length', e.target.value)}
+                        className="w-14 px-1.5 py-1 text-sm border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400 shrink-0"
+                        placeholder="len"
+                        title="Length"
+                    />
+                )}
+                {typeParams === 'precisionScale' && (
+                    <>
+                        <input
+                            type="number"
+                            min={1}
+                            value={column.type.precision ?? ''}
+                            onChange={(e) => handleTypeParamChange('precision', e.target.value)}
+                            className="w-12 px-1.5 py-1 text-sm border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400 shrink-0"
+                            placeholder="p"
+                            title="Precision"
+                        />
+                        <input
+                            type="number"
+                            min={0}
+                            value={column.type.scale ?? ''}
+                            onChange={(e) => handleTypeParamChange('scale', e.target.value)}
+                            disabled={column.type.precision === undefined}
+                            className="w-12 px-1.5 py-1 text-sm border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400 shrink-0 disabled:opacity-50"
+                            placeholder="s"
+                            title="Scale"
+                        />
+                    </>
+                )}
+
                 {/* Toggles */}
                 <div className="flex items-center gap-1 shrink-0">
+                    {/* Array */}
+                    <button
+                        onClick={handleToggleArray}
+                        className={`px-1.5 py-0.5 text-xs font-medium rounded transition-colors ${column.type.array
+                            ? 'bg-purple-100 text-purple-700 hover:bg-purple-200'
+                            : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+                            }`}
+                        title="Array"
+                    >
+                        []
+                    </button>
+
                     {/* Primary Key */}
                     <button
                         onClick={() => handleToggle('primaryKey')}
@@ -257,12 +403,12 @@ export default function ColumnRow({ tableId, column }: ColumnRowProps) {
                             />
                             <div className="flex-1">
                                 <span className={`block font-medium ${!canUseAutoincrement || hasUUID ? 'text-gray-400 dark:text-gray-600' : 'text-gray-700 dark:text-gray-300'}`}>
-                                    Auto-increment
+                                    Auto-increment (SERIAL)
                                 </span>
                                 {(!canUseAutoincrement || hasUUID) && (
                                     <span className="block text-gray-400 dark:text-gray-500 text-xs mt-0.5">
                                         {!column.primaryKey ? '(Requires Primary Key)' :
-                                            column.type !== 'int' ? '(Requires int type)' :
+                                            !supportsDefault('autoincrement', column.type) ? '(Requires integer type)' :
                                                 hasOtherAutoincrement ? '(Only one per table)' :
                                                     hasUUID ? '(Cannot use with UUID)' : ''}
                                     </span>
@@ -270,6 +416,79 @@ export default function ColumnRow({ tableId, column }: ColumnRowProps) {
                             </div>
                         </label>
 
+                        {/* Identity */}
+                        <div className="p-2">
+                            <label className="flex items-start gap-2.5 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={identity !== undefined}
+                                    disabled={!canUseIdentity}
+                                    onChange={(e) => handleDefaultChange(e.target.checked ? 'identity' : null)}
+                                    className="mt-0.5 rounded border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-blue-600 focus:ring-blue-500 dark:focus:ring-blue-400 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+                                />
+                                <div className="flex-1">
+                                    <span className={`block font-medium ${!canUseIdentity ? 'text-gray-400 dark:text-gray-600' : 'text-gray-700 dark:text-gray-300'}`}>
+                                        Identity
+                                    </span>
+                                    {!canUseIdentity && (
+                                        <span className="block text-gray-400 dark:text-gray-500 text-xs mt-0.5">
+                                            (Requires integer type)
+                                        </span>
+                                    )}
+                                </div>
+                            </label>
+                            {identity && (
+                                <div className="flex items-center gap-2 mt-2 ml-6">
+                                    <select
+                                        value={identity.generation}
+                                        onChange={(e) => handleIdentityChange({ generation: e.target.value as IdentityOptions['generation'] })}
+                                        className="px-1.5 py-1 text-xs border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-400"
+                                        title="ALWAYS rejects explicit values on insert"
+                                    >
+                                        <option value="by-default">BY DEFAULT</option>
+                                        <option value="always">ALWAYS</option>
+                                    </select>
+                                    <input
+                                        type="number"
+                                        value={identity.start ?? ''}
+                                        onChange={(e) => handleIdentityChange({ start: parseTypeParam(e.target.value) })}
+                                        placeholder="start"
+                                        title="Start with"
+                                        className="w-14 px-1.5 py-1 text-xs border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-400"
+                                    />
+                                    <input
+                                        type="number"
+                                        value={identity.increment ?? ''}
+                                        onChange={(e) => handleIdentityChange({ increment: parseTypeParam(e.target.value) })}
+                                        placeholder="step"
+                                        title="Increment by"
+                                        className="w-14 px-1.5 py-1 text-xs border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-400"
+                                    />
+                                </div>
+                            )}
+                        </div>
+
+                        {/* Sequence */}
+                        <div className="flex items-center gap-2 p-2">
+                            <span className={`font-medium shrink-0 ${!canUseSequence ? 'text-gray-400 dark:text-gray-600' : 'text-gray-700 dark:text-gray-300'}`}>
+                                nextval
+                            </span>
+                            <select
+                                value={hasSequence ? column.default?.sequenceId ?? '' : ''}
+                                disabled={!canUseSequence}
+                                onChange={(e) => handleDefaultChange(e.target.value ? 'sequence' : null, e.target.value)}
+                                className="flex-1 px-2 py-1.5 text-xs border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-400 dark:focus:ring-blue-500 focus:border-blue-400 dark:focus:border-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                                title={sequences.length === 0 ? 'Create a sequence first' : 'Draw default values from a sequence'}
+                            >
+                                <option value="">No sequence</option>
+                                {sequences.map((sequence: Sequence) => (
+                                    <option key={sequence.id} value={sequence.id}>
+                                        {sequence.name}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+
                         {/* UUID */}
                         <label className="flex items-start gap-2.5 cursor-pointer hover:bg-gray-100/50 dark:hover:bg-gray-700/50 p-2 rounded transition-colors">
                             <input
@@ -292,7 +511,7 @@ export default function ColumnRow({ tableId, column }: ColumnRowProps) {
                                 {(!canUseUUID || hasAutoincrement) && (
                                     <span className="block text-gray-400 dark:text-gray-500 text-xs mt-0.5">
                                         {!column.primaryKey ? '(Requires Primary Key)' :
-                                            column.type !== 'uuid' && column.type !== 'varchar' ? '(Requires uuid/varchar type)' :
+                                            !supportsDefault('uuid', column.type) ? '(Requires uuid/varchar type)' :
                                                 hasAutoincrement ? '(Cannot use with auto-increment)' : ''}
                                     </span>
                                 )}
@@ -320,7 +539,7 @@ export default function ColumnRow({ tableId, column }: ColumnRowProps) {
                                 </span>
                                 {!canUseNow && (
                                     <span className="block text-gray-400 dark:text-gray-500 text-xs mt-0.5">
-                                        (Requires timestamp type)
+                                        (Requires date/time type)
                                     </span>
                                 )}
                             </div>
@@ -328,19 +547,59 @@ export default function ColumnRow({ tableId, column }: ColumnRowProps) {
 
                         {/* Custom value */}
                         <div className="flex items-center gap-2 p-2">
-                            <input
-                                type="text"
-                                value={hasCustom ? column.default?.value || '' : ''}
-                                onChange={(e) => {
-                                    if (e.target.value.trim()) {
-                                        handleDefaultChange('value', e.target.value);
-                                    } else {
-                                        handleDefaultChange(null);
-                                    }
-                                }}
-                                placeholder="Custom default value"
-                                className="flex-1 px-2 py-1.5 text-xs border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-400 dark:focus:ring-blue-500 focus:border-blue-400 dark:focus:border-blue-500 placeholder:text-gray-400 dark:placeholder:text-gray-500"
-                            />
+                            {columnEnum ? (
+                                <select
+                                    value={hasCustom ? column.default?.value || '' : ''}
+                                    onChange={(e) => {
+                                        if (e.target.value) {
+                                            handleDefaultChange('value', e.target.value);
+                                        } else {
+                                            handleDefaultChange(null);
+                                        }
+                                    }}
+                                    className="flex-1 px-2 py-1.5 text-xs border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-400 dark:focus:ring-blue-500 focus:border-blue-400 dark:focus:border-blue-500"
+                                >
+                                    <option value="">No default value</option>
+                                    {columnEnum.values.map((value) => (
+                                        <option key={value} value={value}>
+                                            {value}
+                                        </option>
+                                    ))}
+                                </select>
+                            ) : (
+                                <>
+                                    <select
+                                        value={customKind}
+                                        onChange={(e) => {
+                                            const kind = e.target.value as 'value' | 'expression';
+                                            setCustomKind(kind);
+                                            // Keep the text when switching between a literal and an expression
+                                            if (hasCustom) {
+                                                handleDefaultChange(kind, column.default?.value);
+                                            }
+                                        }}
+                                        className="px-1.5 py-1.5 text-xs border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-400 dark:focus:ring-blue-500 shrink-0"
+                                        title="A literal is quoted for the column type; an expression is emitted as raw SQL"
+                                    >
+                                        <option value="value">Literal</option>
+                                        <option value="expression">SQL</option>
+                                    </select>
+                                    <input
+                                        type="text"
+                                        value={hasCustom ? column.default?.value || '' : ''}
+                                        onChange={(e) => {
+                                            if (e.target.value.trim()) {
+                                                handleDefaultChange(customKind, e.target.value);
+                                            } else {
+                                                handleDefaultChange(null);
+                                            }
+                                        }}
+                                        placeholder={customKind === 'expression' ? 'e.g. CURRENT_DATE' : 'Custom default value'}
+                                        title={hasInvalidLiteral ? `Not a valid ${column.type.base} literal` : undefined}
+                                        className={`flex-1 min-w-0 px-2 py-1.5 text-xs border ${hasInvalidLiteral ? 'border-red-400 dark:border-red-500' : 'border-gray-300 dark:border-gray-600'} ${customKind === 'expression' ? 'font-mono' : ''} bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-400 dark:focus:ring-blue-500 focus:border-blue-400 dark:focus:border-blue-500 placeholder:text-gray-400 dark:placeholder:text-gray-500`}
+                                    />
+                                </>
+                            )}
                             {hasCustom && (
                                 <button
                                     onClick={() => handleDefaultChange(null)}
@@ -362,6 +621,60 @@ export default function ColumnRow({ tableId, column }: ColumnRowProps) {
                                 </button>
                             )}
                         </div>
+
+                        {/* CHECK constraint */}
+                        <div className="flex items-center gap-2 p-2">
+                            <span className="font-medium text-gray-700 dark:text-gray-300 shrink-0">CHECK</span>
+                            <input
+                                type="text"
+                                value={column.check || ''}
+                                onChange={(e) => updateColumn(tableId, column.id, { check: e.target.value || undefined })}
+                                placeholder={`e.g. ${column.name || 'price'} >= 0`}
+                                className="flex-1 px-2 py-1.5 text-xs font-mono border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-400 dark:focus:ring-blue-500 focus:border-blue-400 dark:focus:border-blue-500 placeholder:text-gray-400 dark:placeholder:text-gray-500"
+                            />
+                        </div>
+
+                        {/* Generated column */}
+                        <div className="flex items-center gap-2 p-2">
+                            <span className="font-medium text-gray-700 dark:text-gray-300 shrink-0" title="GENERATED ALWAYS AS (...) STORED">
+                                Generated
+                            </span>
+                            <input
+                                type="text"
+                                value={column.generated || ''}
+                                onChange={(e) => updateColumn(tableId, column.id, { generated: e.target.value || undefined })}
+                                placeholder="e.g. first_name || ' ' || last_name"
+                                className="flex-1 px-2 py-1.5 text-xs font-mono border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-400 dark:focus:ring-blue-500 focus:border-blue-400 dark:focus:border-blue-500 placeholder:text-gray-400 dark:placeholder:text-gray-500"
+                            />
+                        </div>
+
+                        {/* Auto-update on write */}
+                        <label
+                            className={`flex items-center gap-2 p-2 ${isTimestampType(column.type) ? '' : 'opacity-50 cursor-not-allowed'}`}
+                            title={isTimestampType(column.type) ? 'Prisma @updatedAt; a BEFORE UPDATE trigger in SQL' : 'Auto-update requires a timestamp column'}
+                        >
+                            <input
+                                type="checkbox"
+                                checked={!!column.autoUpdate}
+                                disabled={!isTimestampType(column.type)}
+                                onChange={(e) => updateColumn(tableId, column.id, { autoUpdate: e.target.checked || undefined })}
+                                className="rounded"
+                            />
+                            <span className="font-medium text-gray-700 dark:text-gray-300">Auto-update on write</span>
+                            <span className="text-gray-500 dark:text-gray-400">sets now() on every update</span>
+                        </label>
+
+                        {/* Description */}
+                        <div className="flex items-center gap-2 p-2">
+                            <span className="font-medium text-gray-700 dark:text-gray-300 shrink-0">Description</span>
+                            <input
+                                type="text"
+                                value={column.description || ''}
+                                onChange={(e) => updateColumn(tableId, column.id, { description: e.target.value || undefined })}
+                                placeholder="What this column holds"
+                                className="flex-1 px-2 py-1.5 text-xs border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-400 dark:focus:ring-blue-500 focus:border-blue-400 dark:focus:border-blue-500 placeholder:text-gray-400 dark:placeholder:text-gray-500"
+                            />
+                        </div>
                     </div>
                 </div>
             )}
@@ -0,0 +1,165 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useSchemaStore, EnumType } from '@/store/schemaStore';
+
+interface EnumPanelProps {
+    onClose: () => void;
+}
+
+interface EnumEditorProps {
+    enumType: EnumType;
+}
+
+function EnumEditor({ enumType }: EnumEditorProps) {
+    const { updateEnum, deleteEnum } = useSchemaStore();
+    const [newValue, setNewValue] = useState('');
+
+    const handleAddValue = () => {
+        const value = newValue.trim();
+        if (!value) return;
+        updateEnum(enumType.id, { values: [...enumType.values, value] });
+        setNewValue('');
+    };
+
+    const handleRemoveValue = (position: number) => {
+        updateEnum(enumType.id, { values: enumType.values.filter((_, i) => i !== position) });
+    };
+
+    // Values are ordered, so allow moving them up the list
+    const handleMoveValueUp = (position: number) => {
+        if (position === 0) return;
+        const values = [...enumType.values];
+        [values[position - 1], values[position]] = [values[position], values[position - 1]];
+        updateEnum(enumType.id, { values });
+    };
+
+    return (
+        <div className="px-4 py-3 border-b border-gray-100 dark:border-gray-700 last:border-b-0">
+            <div className="flex items-center gap-2">
+                <input
+                    type="text"
+                    value={enumType.name}
+                    onChange={(e) => updateEnum(enumType.id, { name: e.target.value })}
+                    className="flex-1 min-w-0 px-2 py-1 text-sm font-medium border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400"
+                    placeholder="enum_name"
+                />
+                <button
+                    onClick={() => deleteEnum(enumType.id)}
+                    className="p-1.5 text-gray-400 dark:text-gray-500 hover:text-red-500 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-colors shrink-0"
+                    title="Delete enum"
+                >
+                    <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        className="h-4 w-4"
+                        viewBox="0 0 20 20"
+                        fill="currentColor"
+                    >
+                        <path
+                            fillRule="evenodd"
+                            d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z"
+                            clipRule="evenodd"
+                        />
+                    </svg>
+                </button>
+            </div>
+
+            {/* Ordered Values */}
+            <ol className="mt-2 space-y-1">
+                {enumType.values.map((value, position) => (
+                    <li key={`${value}-${position}`} className="flex items-center gap-1.5 text-xs text-gray-700 dark:text-gray-300">
+                        <span className="w-4 text-right text-gray-400 dark:text-gray-500">{position + 1}</span>
+                        <span className="flex-1 font-mono truncate">{value}</span>
+                        <button
+                            onClick={() => handleMoveValueUp(position)}
+                            disabled={position === 0}
+                            className="px-1 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-30 disabled:cursor-not-allowed"
+                            title="Move up"
+                        >
+                            ↑
+                        </button>
+                        <button
+                            onClick={() => handleRemoveValue(position)}
+                            className="px-1 text-gray-400 hover:text-red-500 dark:hover:text-red-400"
+                            title="Remove value"
+                        >
+                            ×
+                        </button>
+                    </li>
+                ))}
+            </ol>
+
+            {/* Add Value */}
+            <div className="flex items-center gap-2 mt-2">
+                <input
+                    type="text"
+                    value={newValue}
+                    onChange={(e) => setNewValue(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                            handleAddValue();
+                        }
+                    }}
+                    placeholder="Add value"
+                    className="flex-1 px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-400 dark:focus:ring-blue-500 placeholder:text-gray-400 dark:placeholder:text-gray-500"
+                />
+                <button
+                    onClick={handleAddValue}
+                    className="px-2 py-1 text-xs text-blue-600 hover:text-blue-700 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded transition-colors font-medium"
+                >
+                    Add
+                </button>
+            </div>
+        </div>
+    );
+}
+
+export default function EnumPanel({ onClose }: EnumPanelProps) {
+    const { enums, addEnum } = useSchemaStore();
+
+    return (
+        <div className="absolute top-36 left-4 z-10 w-72 max-h-[60vh] flex flex-col bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700">
+            <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+                <h3 className="font-semibold text-sm text-gray-900 dark:text-gray-100">Enum Types</h3>
+                <div className="flex items-center gap-1">
+                    <button
+                        onClick={addEnum}
+                        className="px-2 py-1 text-xs text-blue-600 hover:text-blue-700 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded transition-colors font-medium"
+                    >
+                        + Enum
+                    </button>
+                    <button
+                        onClick={onClose}
+                        className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+                        title="Close"
+                    >
+                        <svg
+                            xmlns="http://www.w3.org/2000/svg"
+                            className="h-4 w-4"
+                            viewBox="0 0 20 20"
+                            fill="currentColor"
+                        >
+                            <path
+                                fillRule="evenodd"
+                                d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z"
+                                clipRule="evenodd"
+                            />
+                        </svg>
+                    </button>
+                </div>
+            </div>
+
+            <div className="overflow-y-auto">
+                {enums.length > 0 ? (
+                    enums.map((enumType: EnumType) => (
+                        <EnumEditor key={enumType.id} enumType={enumType} />
+                    ))
+                ) : (
+                    <div className="px-4 py-3 text-gray-400 text-sm italic text-center">
+                        No enums yet
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -1,27 +1,49 @@
 "use client";
 
-import { useCallback, useMemo } from "react";
+import { useCallback, useMemo, useState } from "react";
 import { toast } from "sonner";
 import { useSchemaStore } from "@/store/schemaStore";
-import { normalizeSchema } from "@/lib/schemaNormalizer";
-import { validateSchema } from "@/lib/schemaValidator";
+import { NormalizedSchema, normalizeSchema } from "@/lib/schemaNormalizer";
+import { ValidationResult, validateSchema } from "@/lib/schemaValidator";
 import { generatePostgresSQL } from "@/lib/sql/postgresGenerator";
+import { generateMySQL, validateMySQLSchema } from "@/lib/sql/mysqlGenerator";
+import { generateSQLite, validateSQLiteSchema } from "@/lib/sql/sqliteGenerator";
+import { generateTSQL, validateTSQLSchema } from "@/lib/sql/tsqlGenerator";
 import { generatePrismaSchema } from "@/lib/prisma/prismaGenerator";
+import { generateDrizzleSchema } from "@/lib/drizzle/drizzleGenerator";
+import { bundleFiles, generateTypeORMEntities } from "@/lib/typeorm/typeormGenerator";
+
+interface SqlDialect {
+  label: string;
+  generate: (schema: NormalizedSchema) => string;
+  validate?: (schema: NormalizedSchema) => ValidationResult; // Checks on top of validateSchema
+}
+
+const SQL_DIALECTS = {
+  postgres: { label: "PostgreSQL", generate: generatePostgresSQL },
+  mysql: { label: "MySQL", generate: generateMySQL, validate: validateMySQLSchema },
+  sqlite: { label: "SQLite", generate: generateSQLite, validate: validateSQLiteSchema },
+  tsql: { label: "SQL Server", generate: generateTSQL, validate: validateTSQLSchema },
+} satisfies Record<string, SqlDialect>;
+
+type SqlDialectKey = keyof typeof SQL_DIALECTS;
 
 export default function ExportPanel() {
-  const { tables, relations, isNormalized } = useSchemaStore();
+  const { tables, relations, enums, sequences, views, roles, extensions, isNormalized } = useSchemaStore();
+  const [dialectKey, setDialectKey] = useState<SqlDialectKey>("postgres");
+  const dialect: SqlDialect = SQL_DIALECTS[dialectKey];
 
   // Check if schema is valid and normalized (for button disabled state)
   const canExport = useMemo(() => {
     if (!isNormalized) {
       return false; // Must normalize first
     }
-    const normalized = normalizeSchema(tables, relations);
+    const normalized = normalizeSchema({ tables, relations, enums, sequences, views, roles, extensions });
     const validation = validateSchema(normalized);
     return validation.valid;
-  }, [tables, relations, isNormalized]);
+  }, [tables, relations, enums, sequences, views, roles, extensions, isNormalized]);
 
-  const copyToClipboard = useCallback(async (type: "sql" | "prisma") => {
+  const copyToClipboard = useCallback(async (type: "sql" | "prisma" | "drizzle" | "typeorm") => {
     if (!isNormalized) {
       toast.error("Please normalize schema first", {
         description: "Click the 'Normalize' button before exporting.",
@@ -30,7 +52,7 @@ export default function ExportPanel() {
       return;
     }
 
-    const normalized = normalizeSchema(tables, relations);
+    const normalized = normalizeSchema({ tables, relations, enums, sequences, views, roles, extensions });
     const validation = validateSchema(normalized);
 
     if (!validation.valid) {
@@ -42,28 +64,60 @@ export default function ExportPanel() {
       return;
     }
 
+    // Dialect checks run only once the schema itself is valid
+    const dialectValidation = type === "sql" ? dialect.validate?.(normalized) : undefined;
+    if (dialectValidation && !dialectValidation.valid) {
+      toast.error(`Schema can't be exported to ${dialect.label}.`, {
+        description: dialectValidation.errors[0].message,
+        duration: 5000,
+      });
+      return;
+    }
+
     const output =
       type === "sql"
-        ? generatePostgresSQL(normalized)
-        : generatePrismaSchema(normalized);
+        ? dialect.generate(normalized)
+        : type === "prisma"
+          ? generatePrismaSchema(normalized)
+          : type === "drizzle"
+            ? generateDrizzleSchema(normalized)
+            : bundleFiles(generateTypeORMEntities(normalized));
 
     try {
       await navigator.clipboard.writeText(output);
-      toast.success("Copied to clipboard!", {
-        duration: 2000,
-      });
+      const warnings = dialectValidation?.warnings || [];
+      if (warnings.length > 0) {
+        toast.warning(`Copied with ${warnings.length} ${dialect.label} warning${warnings.length > 1 ? "s" : ""}`, {
+          description: warnings[0].message,
+          duration: 5000,
+        });
+      } else {
+        toast.success("Copied to clipboard!", {
+          duration: 2000,
+        });
+      }
     } catch {
       toast.error("Failed to copy to clipboard", {
         description: "Please try again or copy manually.",
         duration: 3000,
       });
     }
-  }, [tables, relations, isNormalized]);
+  }, [tables, relations, enums, sequences, views, roles, extensions, isNormalized, dialect]);
 
   const valid = canExport;
 
   return (
     <div className="absolute right-4 top-4 z-10 flex flex-col gap-2">
+      <select
+        value={dialectKey}
+        onChange={(e) => setDialectKey(e.target.value as SqlDialectKey)}
+        className="px-2 py-1 text-sm rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-1 focus:ring-blue-400"
+        title="SQL dialect to export"
+      >
+        {(Object.keys(SQL_DIALECTS) as SqlDialectKey[]).map((key) => (
+          <option key={key} value={key}>{SQL_DIALECTS[key].label}</option>
+        ))}
+      </select>
       <button
         onClick={() => copyToClipboard("sql")}
         disabled={!valid}
@@ -71,7 +125,7 @@ export default function ExportPanel() {
             ? "bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-750 text-gray-700 dark:text-gray-200 border border-gray-200 dark:border-gray-700"
             : "bg-gray-100 dark:bg-gray-800 text-gray-400 dark:text-gray-600 cursor-not-allowed border border-gray-200 dark:border-gray-700 opacity-50"
           }`}
-        title={valid ? "Copy PostgreSQL SQL to clipboard" : isNormalized ? "Fix schema errors before exporting" : "Normalize schema first"}
+        title={valid ? `Copy ${dialect.label} SQL to clipboard` : isNormalized ? "Fix schema errors before exporting" : "Normalize schema first"}
       >
         <svg
           xmlns="http://www.w3.org/2000/svg"
@@ -82,7 +136,7 @@ export default function ExportPanel() {
           <path d="M8 3a1 1 0 011-1h2a1 1 0 110 2H9a1 1 0 01-1-1z" />
           <path d="M6 3a2 2 0 00-2 2v11a2 2 0 002 2h8a2 2 0 002-2V5a2 2 0 00-2-2 3 3 0 01-3 3H9a3 3 0 01-3-3z" />
         </svg>
-        <span className="text-sm">Copy PostgreSQL</span>
+        <span className="text-sm">Copy {dialect.label}</span>
       </button>
       <button
         onClick={() => copyToClipboard("prisma")}
@@ -104,6 +158,46 @@ export default function ExportPanel() {
         </svg>
         <span className="text-sm">Copy Prisma</span>
       </button>
+      <button
+        onClick={() => copyToClipboard("drizzle")}
+        disabled={!valid}
+        className={`group px-4 py-2 rounded-lg shadow-sm hover:shadow-md transition-all duration-200 font-medium flex items-center gap-2 ${valid
+            ? "bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-750 text-gray-700 dark:text-gray-200 border border-gray-200 dark:border-gray-700"
+            : "bg-gray-100 dark:bg-gray-800 text-gray-400 dark:text-gray-600 cursor-not-allowed border border-gray-200 dark:border-gray-700 opacity-50"
+          }`}
+        title={valid ? "Copy Drizzle schema to clipboard" : isNormalized ? "Fix schema errors before exporting" : "Normalize schema first"}
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          className={`h-4 w-4 ${valid ? "text-gray-500 dark:text-gray-400 group-hover:text-gray-700 dark:group-hover:text-gray-200" : "text-gray-400 dark:text-gray-600"} transition-colors`}
+          viewBox="0 0 20 20"
+          fill="currentColor"
+        >
+          <path d="M8 3a1 1 0 011-1h2a1 1 0 110 2H9a1 1 0 01-1-1z" />
+          <path d="M6 3a2 2 0 00-2 2v11a2 2 0 002 2h8a2 2 0 002-2V5a2 2 0 00-2-2 3 3 0 01-3 3H9a3 3 0 01-3-3z" />
+        </svg>
+        <span className="text-sm">Copy Drizzle</span>
+      </button>
+      <button
+        onClick={() => copyToClipboard("typeorm")}
+        disabled={!valid}
+        className={`group px-4 py-2 rounded-lg shadow-sm hover:shadow-md transition-all duration-200 font-medium flex items-center gap-2 ${valid
+            ? "bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-750 text-gray-700 dark:text-gray-200 border border-gray-200 dark:border-gray-700"
+            : "bg-gray-100 dark:bg-gray-800 text-gray-400 dark:text-gray-600 cursor-not-allowed border border-gray-200 dark:border-gray-700 opacity-50"
+          }`}
+        title={valid ? "Copy TypeORM entities to clipboard, one section per file" : isNormalized ? "Fix schema errors before exporting" : "Normalize schema first"}
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          className={`h-4 w-4 ${valid ? "text-gray-500 dark:text-gray-400 group-hover:text-gray-700 dark:group-hover:text-gray-200" : "text-gray-400 dark:text-gray-600"} transition-colors`}
+          viewBox="0 0 20 20"
+          fill="currentColor"
+        >
+          <path d="M8 3a1 1 0 011-1h2a1 1 0 110 2H9a1 1 0 01-1-1z" />
+          <path d="M6 3a2 2 0 00-2 2v11a2 2 0 002 2h8a2 2 0 002-2V5a2 2 0 00-2-2 3 3 0 01-3 3H9a3 3 0 01-3-3z" />
+        </svg>
+        <span className="text-sm">Copy TypeORM</span>
+      </button>
     </div>
   );
 }
@@ -0,0 +1,154 @@
+'use client';
+
+import React from 'react';
+import { useSchemaStore, Column, Index, IndexMethod } from '@/store/schemaStore';
+
+interface IndexRowProps {
+    tableId: string;
+    index: Index;
+    columns: Column[];
+}
+
+const INDEX_METHODS: IndexMethod[] = ['btree', 'hash', 'gin', 'gist', 'brin'];
+
+function supportsTrigram(method: IndexMethod): boolean {
+    return method === 'gin' || method === 'gist';
+}
+
+export default function IndexRow({ tableId, index, columns }: IndexRowProps) {
+    const { updateIndex, deleteIndex } = useSchemaStore();
+
+    const handleNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        updateIndex(tableId, index.id, { name: e.target.value });
+    };
+
+    const handleMethodChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const method = e.target.value as IndexMethod;
+        // Only btree supports unique indexes and only gin and gist have trigram operator classes
+        updateIndex(tableId, index.id, {
+            method,
+            ...(method !== 'btree' ? { unique: false } : {}),
+            ...(!supportsTrigram(method) ? { trigram: undefined } : {}),
+        });
+    };
+
+    const handleToggleUnique = () => {
+        updateIndex(tableId, index.id, { unique: !index.unique });
+    };
+
+    const handleToggleTrigram = () => {
+        updateIndex(tableId, index.id, { trigram: index.trigram ? undefined : true });
+    };
+
+    // Clicking a column appends it to the index; clicking again removes it (order = click order)
+    const handleToggleColumn = (columnId: string) => {
+        const columnIds = index.columnIds.includes(columnId)
+            ? index.columnIds.filter((id) => id !== columnId)
+            : [...index.columnIds, columnId];
+        updateIndex(tableId, index.id, { columnIds });
+    };
+
+    const handleDelete = () => {
+        deleteIndex(tableId, index.id);
+    };
+
+    return (
+        <div className="px-3 py-2 border-b border-gray-100 dark:border-gray-700 last:border-b-0 text-sm">
+            <div className="flex items-center gap-2">
+                {/* Index Name */}
+                <input
+                    type="text"
+                    value={index.name}
+                    onChange={handleNameChange}
+                    className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400"
+                    placeholder="auto-named"
+                />
+
+                {/* Method Dropdown */}
+                <select
+                    value={index.method}
+                    onChange={handleMethodChange}
+                    className="px-2 py-1 text-sm border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400 bg-white shrink-0"
+                >
+                    {INDEX_METHODS.map((method) => (
+                        <option key={method} value={method}>
+                            {method}
+                        </option>
+                    ))}
+                </select>
+
+                {/* Unique */}
+                <button
+                    onClick={handleToggleUnique}
+                    disabled={index.method !== 'btree'}
+                    className={`px-1.5 py-0.5 text-xs font-medium rounded transition-colors shrink-0 disabled:opacity-50 disabled:cursor-not-allowed ${index.unique
+                        ? 'bg-green-100 text-green-700 hover:bg-green-200'
+                        : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+                        }`}
+                    title={index.method === 'btree' ? 'Unique' : 'Unique requires btree'}
+                >
+                    U
+                </button>
+
+                {/* Trigram (pg_trgm) */}
+                <button
+                    onClick={handleToggleTrigram}
+                    disabled={!supportsTrigram(index.method)}
+                    className={`px-1.5 py-0.5 text-xs font-medium rounded transition-colors shrink-0 disabled:opacity-50 disabled:cursor-not-allowed ${index.trigram
+                        ? 'bg-purple-100 text-purple-700 hover:bg-purple-200'
+                        : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+                        }`}
+                    title={supportsTrigram(index.method) ? 'Trigram operators (pg_trgm) for LIKE and similarity search' : 'Trigram requires gin or gist'}
+                >
+                    T
+                </button>
+
+                {/* Delete Button */}
+                <button
+                    onClick={handleDelete}
+                    className="p-1.5 text-gray-400 dark:text-gray-500 hover:text-red-500 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-colors shrink-0"
+                    title="Delete index"
+                >
+                    <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        className="h-4 w-4"
+                        viewBox="0 0 20 20"
+                        fill="currentColor"
+                    >
+                        <path
+                            fillRule="evenodd"
+                            d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z"
+                            clipRule="evenodd"
+                        />
+                    </svg>
+                </button>
+            </div>
+
+            {/* Column Picker */}
+            <div className="flex flex-wrap gap-1 mt-2">
+                {columns.length === 0 ? (
+                    <span className="text-xs text-gray-400 italic">Add columns to index them</span>
+                ) : (
+                    columns.map((column) => {
+                        const position = index.columnIds.indexOf(column.id);
+                        const selected = position !== -1;
+                        return (
+                            <button
+                                key={column.id}
+                                onClick={() => handleToggleColumn(column.id)}
+                                className={`px-1.5 py-0.5 text-xs rounded transition-colors ${selected
+                                    ? 'bg-blue-100 text-blue-700 hover:bg-blue-200 dark:bg-blue-900/30 dark:text-blue-400'
+                                    : 'bg-gray-100 text-gray-500 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-400'
+                                    }`}
+                                title={selected ? `Position ${position + 1} in index` : 'Add to index'}
+                            >
+                                {selected && <span className="font-semibold mr-1">{position + 1}</span>}
+                                {column.name}
+                            </button>
+                        );
+                    })
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,28 @@
+'use client';
+
+import React, { memo } from 'react';
+import { NodeProps } from '@xyflow/react';
+
+export interface NamespaceNodeData {
+    name: string;
+    [key: string]: unknown;
+}
+
+/**
+ * Background frame drawn behind the tables of one PostgreSQL schema.
+ * Sized by the editor from the tables it contains; it cannot be selected or dragged.
+ */
+// @ts-expect-error - React Flow NodeProps constraint expects full Node type but works with data type
+const NamespaceNode = ({ data: nodeData }: NodeProps<NamespaceNodeData>) => {
+    const data = nodeData as NamespaceNodeData;
+
+    return (
+        <div className="w-full h-full rounded-xl border-2 border-dashed border-indigo-300 dark:border-indigo-700 bg-indigo-50/40 dark:bg-indigo-950/20">
+            <div className="px-3 py-1 text-xs font-semibold tracking-wide text-indigo-600 dark:text-indigo-400">
+                {data.name}
+            </div>
+        </div>
+    );
+};
+
+export default memo(NamespaceNode);
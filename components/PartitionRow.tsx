@@ -0,0 +1,134 @@
+'use client';
+
+import React from 'react';
+import { useSchemaStore, Partition, PartitionStrategy } from '@/store/schemaStore';
+
+interface PartitionRowProps {
+    tableId: string;
+    partition: Partition;
+    strategy: PartitionStrategy;
+}
+
+/**
+ * Parse a hash bound input; empty input clears it
+ */
+function parseHashBound(value: string): number | undefined {
+    return value.trim() === '' ? undefined : Number(value);
+}
+
+export default function PartitionRow({ tableId, partition, strategy }: PartitionRowProps) {
+    const { updatePartition, deletePartition } = useSchemaStore();
+
+    const handleNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        updatePartition(tableId, partition.id, { name: e.target.value });
+    };
+
+    const handleToggleDefault = () => {
+        updatePartition(tableId, partition.id, { isDefault: !partition.isDefault });
+    };
+
+    const handleDelete = () => {
+        deletePartition(tableId, partition.id);
+    };
+
+    const inputClassName = 'min-w-0 px-2 py-1 text-xs font-mono border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400';
+
+    return (
+        <div className="px-3 py-2 border-b border-gray-100 dark:border-gray-700 last:border-b-0 text-sm">
+            <div className="flex items-center gap-2">
+                {/* Partition Name */}
+                <input
+                    type="text"
+                    value={partition.name}
+                    onChange={handleNameChange}
+                    className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400"
+                    placeholder="auto-named"
+                />
+
+                {/* Default partition (HASH has none) */}
+                <button
+                    onClick={handleToggleDefault}
+                    disabled={strategy === 'HASH'}
+                    className={`px-1.5 py-0.5 text-xs font-medium rounded transition-colors shrink-0 disabled:opacity-50 disabled:cursor-not-allowed ${partition.isDefault
+                        ? 'bg-amber-100 text-amber-700 hover:bg-amber-200'
+                        : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+                        }`}
+                    title={strategy === 'HASH' ? 'HASH partitioning has no default partition' : 'Default partition for rows no other bound matches'}
+                >
+                    Default
+                </button>
+
+                {/* Delete Button */}
+                <button
+                    onClick={handleDelete}
+                    className="p-1.5 text-gray-400 dark:text-gray-500 hover:text-red-500 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-colors shrink-0"
+                    title="Delete partition"
+                >
+                    <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        className="h-4 w-4"
+                        viewBox="0 0 20 20"
+                        fill="currentColor"
+                    >
+                        <path
+                            fillRule="evenodd"
+                            d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z"
+                            clipRule="evenodd"
+                        />
+                    </svg>
+                </button>
+            </div>
+
+            {/* Bound for the parent's strategy */}
+            {!partition.isDefault && strategy === 'RANGE' && (
+                <div className="flex items-center gap-1.5 mt-2 text-xs text-gray-500 dark:text-gray-400">
+                    <span>From</span>
+                    <input
+                        type="text"
+                        value={partition.from}
+                        onChange={(e) => updatePartition(tableId, partition.id, { from: e.target.value })}
+                        className={`flex-1 ${inputClassName}`}
+                        placeholder="'2024-01-01'"
+                    />
+                    <span>to</span>
+                    <input
+                        type="text"
+                        value={partition.to}
+                        onChange={(e) => updatePartition(tableId, partition.id, { to: e.target.value })}
+                        className={`flex-1 ${inputClassName}`}
+                        placeholder="'2025-01-01'"
+                    />
+                </div>
+            )}
+            {!partition.isDefault && strategy === 'LIST' && (
+                <input
+                    type="text"
+                    value={partition.values}
+                    onChange={(e) => updatePartition(tableId, partition.id, { values: e.target.value })}
+                    className={`w-full mt-2 ${inputClassName}`}
+                    placeholder="Values, e.g. 'eu', 'uk'"
+                />
+            )}
+            {strategy === 'HASH' && (
+                <div className="flex items-center gap-1.5 mt-2 text-xs text-gray-500 dark:text-gray-400">
+                    <span>Modulus</span>
+                    <input
+                        type="number"
+                        min={1}
+                        value={partition.modulus ?? ''}
+                        onChange={(e) => updatePartition(tableId, partition.id, { modulus: parseHashBound(e.target.value) })}
+                        className={`w-16 ${inputClassName}`}
+                    />
+                    <span>Remainder</span>
+                    <input
+                        type="number"
+                        min={0}
+                        value={partition.remainder ?? ''}
+                        onChange={(e) => updatePartition(tableId, partition.id, { remainder: parseHashBound(e.target.value) })}
+                        className={`w-16 ${inputClassName}`}
+                    />
+                </div>
+            )}
+        </div>
+    );
+}
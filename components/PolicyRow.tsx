@@ -0,0 +1,121 @@
+'use client';
+
+import React from 'react';
+import { useSchemaStore, Policy, PolicyCommand } from '@/store/schemaStore';
+
+const POLICY_COMMANDS: PolicyCommand[] = ['ALL', 'SELECT', 'INSERT', 'UPDATE', 'DELETE'];
+
+interface PolicyRowProps {
+    tableId: string;
+    policy: Policy;
+}
+
+export default function PolicyRow({ tableId, policy }: PolicyRowProps) {
+    const { updatePolicy, deletePolicy } = useSchemaStore();
+
+    // INSERT has no existing rows to filter; SELECT and DELETE write none to check
+    const allowsUsing = policy.command !== 'INSERT';
+    const allowsWithCheck = policy.command !== 'SELECT' && policy.command !== 'DELETE';
+
+    const handleNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        updatePolicy(tableId, policy.id, { name: e.target.value });
+    };
+
+    const handleCommandChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        updatePolicy(tableId, policy.id, { command: e.target.value as PolicyCommand });
+    };
+
+    const handleRolesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        updatePolicy(tableId, policy.id, { roles: e.target.value.split(',').map((role) => role.trim()) });
+    };
+
+    const handleUsingChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        updatePolicy(tableId, policy.id, { using: e.target.value });
+    };
+
+    const handleWithCheckChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        updatePolicy(tableId, policy.id, { withCheck: e.target.value });
+    };
+
+    const handleDelete = () => {
+        deletePolicy(tableId, policy.id);
+    };
+
+    return (
+        <div className="px-3 py-2 border-b border-gray-100 dark:border-gray-700 last:border-b-0 text-sm">
+            <div className="flex items-center gap-2">
+                {/* Policy Name */}
+                <input
+                    type="text"
+                    value={policy.name}
+                    onChange={handleNameChange}
+                    className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400"
+                    placeholder="auto-named"
+                />
+
+                {/* Command */}
+                <select
+                    value={policy.command}
+                    onChange={handleCommandChange}
+                    className="px-2 py-1 text-xs border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400 bg-white shrink-0"
+                    title="Command the policy applies to"
+                >
+                    {POLICY_COMMANDS.map((command) => (
+                        <option key={command} value={command}>
+                            {command}
+                        </option>
+                    ))}
+                </select>
+
+                {/* Delete Button */}
+                <button
+                    onClick={handleDelete}
+                    className="p-1.5 text-gray-400 dark:text-gray-500 hover:text-red-500 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-colors shrink-0"
+                    title="Delete policy"
+                >
+                    <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        className="h-4 w-4"
+                        viewBox="0 0 20 20"
+                        fill="currentColor"
+                    >
+                        <path
+                            fillRule="evenodd"
+                            d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z"
+                            clipRule="evenodd"
+                        />
+                    </svg>
+                </button>
+            </div>
+
+            {/* Roles */}
+            <input
+                type="text"
+                value={policy.roles.join(', ')}
+                onChange={handleRolesChange}
+                className="w-full mt-2 px-2 py-1 text-xs border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400"
+                placeholder="Roles, comma-separated (empty = PUBLIC)"
+            />
+
+            {/* USING */}
+            <input
+                type="text"
+                value={policy.using}
+                onChange={handleUsingChange}
+                disabled={!allowsUsing}
+                className="w-full mt-2 px-2 py-1 text-xs font-mono border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400 disabled:opacity-50"
+                placeholder={allowsUsing ? 'USING, e.g. owner_id = current_user_id()' : 'USING is not allowed for INSERT'}
+            />
+
+            {/* WITH CHECK */}
+            <input
+                type="text"
+                value={policy.withCheck}
+                onChange={handleWithCheckChange}
+                disabled={!allowsWithCheck}
+                className="w-full mt-2 px-2 py-1 text-xs font-mono border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400 disabled:opacity-50"
+                placeholder={allowsWithCheck ? 'WITH CHECK, e.g. owner_id = current_user_id()' : `WITH CHECK is not allowed for ${policy.command}`}
+            />
+        </div>
+    );
+}
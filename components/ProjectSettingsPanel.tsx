@@ -0,0 +1,127 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { useSchemaStore } from '@/store/schemaStore';
+import { normalizeSchema } from '@/lib/schemaNormalizer';
+import { KNOWN_EXTENSIONS, inferExtensions, isValidExtensionName } from '@/lib/extensions';
+
+interface ProjectSettingsPanelProps {
+    onClose: () => void;
+}
+
+export default function ProjectSettingsPanel({ onClose }: ProjectSettingsPanelProps) {
+    const { tables, relations, enums, sequences, views, roles, extensions, addExtension, removeExtension } = useSchemaStore();
+    const [newExtension, setNewExtension] = useState('');
+
+    // Extensions the schema already needs, whether or not they are declared
+    const inferred = useMemo(
+        () => inferExtensions(normalizeSchema({ tables, relations, enums, sequences, views, roles, extensions })),
+        [tables, relations, enums, sequences, views, roles, extensions]
+    );
+
+    const customExtensions = extensions.filter((name) => !KNOWN_EXTENSIONS.some((known) => known.name === name));
+    const trimmedExtension = newExtension.trim();
+    const canAdd = isValidExtensionName(trimmedExtension) && !extensions.includes(trimmedExtension);
+
+    const handleAdd = () => {
+        if (canAdd) {
+            addExtension(trimmedExtension);
+            setNewExtension('');
+        }
+    };
+
+    return (
+        <div className="absolute top-36 left-4 z-10 w-96 max-h-[60vh] flex flex-col bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700">
+            <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+                <h3 className="font-semibold text-sm text-gray-900 dark:text-gray-100">Project Settings</h3>
+                <button
+                    onClick={onClose}
+                    className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+                    title="Close"
+                >
+                    <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        className="h-4 w-4"
+                        viewBox="0 0 20 20"
+                        fill="currentColor"
+                    >
+                        <path
+                            fillRule="evenodd"
+                            d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z"
+                            clipRule="evenodd"
+                        />
+                    </svg>
+                </button>
+            </div>
+
+            <div className="overflow-y-auto px-4 py-3">
+                <div className="text-xs font-medium text-gray-500 dark:text-gray-400">PostgreSQL Extensions</div>
+                <p className="mt-1 text-[11px] text-gray-400">
+                    Emitted as CREATE EXTENSION and Prisma datasource extensions. Extensions the schema uses are added automatically.
+                </p>
+
+                {/* Known extensions */}
+                <div className="mt-2 space-y-1.5">
+                    {KNOWN_EXTENSIONS.map((extension) => {
+                        const declared = extensions.includes(extension.name);
+                        const reason = inferred[extension.name];
+                        return (
+                            <label key={extension.name} className="flex items-start gap-2 text-sm">
+                                <input
+                                    type="checkbox"
+                                    checked={declared || reason !== undefined}
+                                    disabled={reason !== undefined && !declared}
+                                    onChange={(e) => e.target.checked ? addExtension(extension.name) : removeExtension(extension.name)}
+                                    className="mt-0.5 rounded disabled:opacity-60"
+                                />
+                                <span className="min-w-0">
+                                    <span className="font-mono text-gray-800 dark:text-gray-200">{extension.name}</span>
+                                    <span className="block text-[11px] text-gray-500 dark:text-gray-400">{extension.description}</span>
+                                    {reason && (
+                                        <span className="block text-[11px] text-purple-600 dark:text-purple-400">Required: {reason}</span>
+                                    )}
+                                </span>
+                            </label>
+                        );
+                    })}
+                </div>
+
+                {/* Other declared extensions */}
+                {customExtensions.length > 0 && (
+                    <div className="mt-3 flex flex-wrap gap-1">
+                        {customExtensions.map((name) => (
+                            <span key={name} className="flex items-center gap-1 px-1.5 py-0.5 text-xs font-mono rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200">
+                                {name}
+                                <button
+                                    onClick={() => removeExtension(name)}
+                                    className="text-gray-400 hover:text-red-500"
+                                    title={`Remove ${name}`}
+                                >
+                                    ×
+                                </button>
+                            </span>
+                        ))}
+                    </div>
+                )}
+
+                <div className="mt-3 flex items-center gap-2">
+                    <input
+                        type="text"
+                        value={newExtension}
+                        onChange={(e) => setNewExtension(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                        className="flex-1 min-w-0 px-2 py-1 text-sm font-mono border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400"
+                        placeholder="other_extension"
+                    />
+                    <button
+                        onClick={handleAdd}
+                        disabled={!canAdd}
+                        className="px-2 py-1 text-xs text-blue-600 hover:text-blue-700 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        + Add
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
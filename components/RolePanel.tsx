@@ -0,0 +1,232 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useSchemaStore, Role, Table, Column, Grant, Privilege } from '@/store/schemaStore';
+
+const PRIVILEGES: Privilege[] = ['SELECT', 'INSERT', 'UPDATE', 'DELETE'];
+
+// DELETE removes whole rows, so it has no column-level form
+const COLUMN_PRIVILEGES: Privilege[] = ['SELECT', 'INSERT', 'UPDATE'];
+
+interface RolePanelProps {
+    onClose: () => void;
+}
+
+interface TableGrantsProps {
+    role: Role;
+    table: Table;
+}
+
+/**
+ * One row of a role's permission matrix: a checkbox per privilege on the table,
+ * expandable to limit SELECT, INSERT and UPDATE to some columns
+ */
+function TableGrants({ role, table }: TableGrantsProps) {
+    const { setGrant, setGrantColumns } = useSchemaStore();
+    const [showColumns, setShowColumns] = useState(false);
+
+    const findGrant = (privilege: Privilege): Grant | undefined =>
+        role.grants.find((grant) => grant.tableId === table.id && grant.privilege === privilege);
+
+    const columnGrants = COLUMN_PRIVILEGES
+        .map((privilege) => findGrant(privilege))
+        .filter((grant): grant is Grant => grant !== undefined);
+
+    const handleColumnToggle = (grant: Grant, columnId: string, checked: boolean) => {
+        const columnIds = grant.columnIds ?? [];
+        setGrantColumns(role.id, table.id, grant.privilege, checked
+            ? [...columnIds, columnId]
+            : columnIds.filter((id) => id !== columnId));
+    };
+
+    return (
+        <>
+            <tr className="border-t border-gray-100 dark:border-gray-700">
+                <td className="py-1 pr-2">
+                    <button
+                        onClick={() => setShowColumns(!showColumns)}
+                        disabled={columnGrants.length === 0}
+                        className="text-left text-gray-700 dark:text-gray-200 disabled:cursor-default hover:text-blue-600 disabled:hover:text-gray-700 dark:disabled:hover:text-gray-200"
+                        title={columnGrants.length > 0 ? 'Limit privileges to some columns' : undefined}
+                    >
+                        {table.name}
+                        {columnGrants.length > 0 && <span className="ml-1 text-gray-400">{showColumns ? '▾' : '▸'}</span>}
+                    </button>
+                </td>
+                {PRIVILEGES.map((privilege) => {
+                    const grant = findGrant(privilege);
+                    return (
+                        <td key={privilege} className="py-1 text-center">
+                            <input
+                                type="checkbox"
+                                checked={grant !== undefined}
+                                onChange={(e) => setGrant(role.id, table.id, privilege, e.target.checked)}
+                                className={`rounded ${grant?.columnIds ? 'opacity-60' : ''}`}
+                                title={grant?.columnIds ? `${privilege} on some columns` : `${privilege} on ${table.name}`}
+                            />
+                        </td>
+                    );
+                })}
+            </tr>
+            {showColumns && columnGrants.map((grant) => (
+                <tr key={grant.privilege}>
+                    <td colSpan={PRIVILEGES.length + 1} className="pb-1.5 pl-3">
+                        <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-[11px] text-gray-600 dark:text-gray-400">
+                            <select
+                                value={grant.columnIds ? 'columns' : 'table'}
+                                onChange={(e) => setGrantColumns(role.id, table.id, grant.privilege, e.target.value === 'columns' ? [] : undefined)}
+                                className="px-1 py-0.5 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:outline-none focus:ring-1 focus:ring-blue-400 bg-white"
+                            >
+                                <option value="table">{grant.privilege}: all columns</option>
+                                <option value="columns">{grant.privilege}: only</option>
+                            </select>
+                            {grant.columnIds && table.columns.map((column: Column) => (
+                                <label key={column.id} className="flex items-center gap-1">
+                                    <input
+                                        type="checkbox"
+                                        checked={grant.columnIds!.includes(column.id)}
+                                        onChange={(e) => handleColumnToggle(grant, column.id, e.target.checked)}
+                                        className="rounded"
+                                    />
+                                    {column.name}
+                                </label>
+                            ))}
+                        </div>
+                    </td>
+                </tr>
+            ))}
+        </>
+    );
+}
+
+interface RoleEditorProps {
+    role: Role;
+}
+
+function RoleEditor({ role }: RoleEditorProps) {
+    const { tables, updateRole, deleteRole } = useSchemaStore();
+    const [showGrants, setShowGrants] = useState(true);
+
+    return (
+        <div className="px-4 py-3 border-b border-gray-100 dark:border-gray-700 last:border-b-0">
+            <div className="flex items-center gap-2">
+                <input
+                    type="text"
+                    value={role.name}
+                    onChange={(e) => updateRole(role.id, { name: e.target.value })}
+                    className="flex-1 min-w-0 px-2 py-1 text-sm font-medium border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400"
+                    placeholder="role_name"
+                />
+                <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400 shrink-0" title="Role can log in (a user rather than a group)">
+                    <input
+                        type="checkbox"
+                        checked={role.login}
+                        onChange={(e) => updateRole(role.id, { login: e.target.checked })}
+                        className="rounded"
+                    />
+                    Login
+                </label>
+                <button
+                    onClick={() => deleteRole(role.id)}
+                    className="p-1.5 text-gray-400 dark:text-gray-500 hover:text-red-500 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-colors shrink-0"
+                    title="Delete role"
+                >
+                    <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        className="h-4 w-4"
+                        viewBox="0 0 20 20"
+                        fill="currentColor"
+                    >
+                        <path
+                            fillRule="evenodd"
+                            d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z"
+                            clipRule="evenodd"
+                        />
+                    </svg>
+                </button>
+            </div>
+
+            <button
+                onClick={() => setShowGrants(!showGrants)}
+                className="mt-2 text-xs font-medium text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition-colors"
+            >
+                Privileges ({role.grants.length}) {showGrants ? '▾' : '▸'}
+            </button>
+
+            {/* Permission matrix: tables × privileges */}
+            {showGrants && (
+                tables.length > 0 ? (
+                    <table className="w-full mt-1 text-xs">
+                        <thead>
+                            <tr className="text-gray-500 dark:text-gray-400">
+                                <th className="py-1 text-left font-medium">Table</th>
+                                {PRIVILEGES.map((privilege) => (
+                                    <th key={privilege} className="py-1 font-medium" title={privilege}>
+                                        {privilege.charAt(0)}
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {tables.map((table: Table) => (
+                                <TableGrants key={table.id} role={role} table={table} />
+                            ))}
+                        </tbody>
+                    </table>
+                ) : (
+                    <div className="mt-1 text-gray-400 text-xs italic">No tables yet</div>
+                )
+            )}
+        </div>
+    );
+}
+
+export default function RolePanel({ onClose }: RolePanelProps) {
+    const { roles, addRole } = useSchemaStore();
+
+    return (
+        <div className="absolute top-36 left-4 z-10 w-96 max-h-[60vh] flex flex-col bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700">
+            <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+                <h3 className="font-semibold text-sm text-gray-900 dark:text-gray-100">Roles</h3>
+                <div className="flex items-center gap-1">
+                    <button
+                        onClick={addRole}
+                        className="px-2 py-1 text-xs text-blue-600 hover:text-blue-700 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded transition-colors font-medium"
+                    >
+                        + Role
+                    </button>
+                    <button
+                        onClick={onClose}
+                        className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+                        title="Close"
+                    >
+                        <svg
+                            xmlns="http://www.w3.org/2000/svg"
+                            className="h-4 w-4"
+                            viewBox="0 0 20 20"
+                            fill="currentColor"
+                        >
+                            <path
+                                fillRule="evenodd"
+                                d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z"
+                                clipRule="evenodd"
+                            />
+                        </svg>
+                    </button>
+                </div>
+            </div>
+
+            <div className="overflow-y-auto">
+                {roles.length > 0 ? (
+                    roles.map((role: Role) => (
+                        <RoleEditor key={role.id} role={role} />
+                    ))
+                ) : (
+                    <div className="px-4 py-3 text-gray-400 text-sm italic text-center">
+                        No roles yet
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,138 @@
+'use client';
+
+import React from 'react';
+import { useSchemaStore, Sequence } from '@/store/schemaStore';
+
+interface SequencePanelProps {
+    onClose: () => void;
+}
+
+interface SequenceEditorProps {
+    sequence: Sequence;
+}
+
+/**
+ * Parse a sequence option input; empty input falls back to the database default
+ */
+function parseSequenceOption(value: string): number | undefined {
+    return value.trim() === '' ? undefined : Number(value);
+}
+
+function SequenceEditor({ sequence }: SequenceEditorProps) {
+    const { tables, updateSequence, deleteSequence } = useSchemaStore();
+
+    // Columns whose default calls nextval() on this sequence
+    const usageCount = tables.reduce(
+        (count, table) => count + table.columns.filter((c) => c.default?.kind === 'sequence' && c.default.sequenceId === sequence.id).length,
+        0
+    );
+
+    return (
+        <div className="px-4 py-3 border-b border-gray-100 dark:border-gray-700 last:border-b-0">
+            <div className="flex items-center gap-2">
+                <input
+                    type="text"
+                    value={sequence.name}
+                    onChange={(e) => updateSequence(sequence.id, { name: e.target.value })}
+                    className="flex-1 min-w-0 px-2 py-1 text-sm font-medium border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400"
+                    placeholder="sequence_name"
+                />
+                <button
+                    onClick={() => deleteSequence(sequence.id)}
+                    className="p-1.5 text-gray-400 dark:text-gray-500 hover:text-red-500 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-colors shrink-0"
+                    title="Delete sequence"
+                >
+                    <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        className="h-4 w-4"
+                        viewBox="0 0 20 20"
+                        fill="currentColor"
+                    >
+                        <path
+                            fillRule="evenodd"
+                            d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z"
+                            clipRule="evenodd"
+                        />
+                    </svg>
+                </button>
+            </div>
+
+            {/* Start / Increment */}
+            <div className="flex items-center gap-2 mt-2 text-xs text-gray-600 dark:text-gray-400">
+                <label className="flex items-center gap-1">
+                    Start
+                    <input
+                        type="number"
+                        value={sequence.start ?? ''}
+                        onChange={(e) => updateSequence(sequence.id, { start: parseSequenceOption(e.target.value) })}
+                        placeholder="1"
+                        className="w-16 px-1.5 py-0.5 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:outline-none focus:ring-1 focus:ring-blue-400"
+                    />
+                </label>
+                <label className="flex items-center gap-1">
+                    Increment
+                    <input
+                        type="number"
+                        value={sequence.increment ?? ''}
+                        onChange={(e) => updateSequence(sequence.id, { increment: parseSequenceOption(e.target.value) })}
+                        placeholder="1"
+                        className="w-16 px-1.5 py-0.5 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:outline-none focus:ring-1 focus:ring-blue-400"
+                    />
+                </label>
+                <span className="ml-auto text-gray-400 dark:text-gray-500">
+                    {usageCount} column{usageCount === 1 ? '' : 's'}
+                </span>
+            </div>
+        </div>
+    );
+}
+
+export default function SequencePanel({ onClose }: SequencePanelProps) {
+    const { sequences, addSequence } = useSchemaStore();
+
+    return (
+        <div className="absolute top-36 left-4 z-10 w-72 max-h-[60vh] flex flex-col bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700">
+            <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+                <h3 className="font-semibold text-sm text-gray-900 dark:text-gray-100">Sequences</h3>
+                <div className="flex items-center gap-1">
+                    <button
+                        onClick={addSequence}
+                        className="px-2 py-1 text-xs text-blue-600 hover:text-blue-700 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded transition-colors font-medium"
+                    >
+                        + Sequence
+                    </button>
+                    <button
+                        onClick={onClose}
+                        className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+                        title="Close"
+                    >
+                        <svg
+                            xmlns="http://www.w3.org/2000/svg"
+                            className="h-4 w-4"
+                            viewBox="0 0 20 20"
+                            fill="currentColor"
+                        >
+                            <path
+                                fillRule="evenodd"
+                                d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z"
+                                clipRule="evenodd"
+                            />
+                        </svg>
+                    </button>
+                </div>
+            </div>
+
+            <div className="overflow-y-auto">
+                {sequences.length > 0 ? (
+                    sequences.map((sequence: Sequence) => (
+                        <SequenceEditor key={sequence.id} sequence={sequence} />
+                    ))
+                ) : (
+                    <div className="px-4 py-3 text-gray-400 text-sm italic text-center">
+                        No sequences yet
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -1,9 +1,14 @@
 'use client';
 
-import React, { memo } from 'react';
+import React, { memo, useState } from 'react';
 import { Handle, Position, NodeProps } from '@xyflow/react';
-import { useSchemaStore, Column } from '@/store/schemaStore';
+import { toast } from 'sonner';
+import { useSchemaStore, Column, View, RowLevelSecurity, PartitionStrategy } from '@/store/schemaStore';
 import ColumnRow from './ColumnRow';
+import IndexRow from './IndexRow';
+import CheckRow from './CheckRow';
+import PolicyRow from './PolicyRow';
+import PartitionRow from './PartitionRow';
 
 export interface TableNodeData {
     name: string;
@@ -12,7 +17,11 @@ export interface TableNodeData {
 
 // @ts-expect-error - React Flow NodeProps constraint expects full Node type but works with data type
 const TableNode = ({ id: nodeId, data: nodeData }: NodeProps<TableNodeData>) => {
-    const { tables, updateTableName, deleteTable, addColumn } = useSchemaStore();
+    const { tables, views, updateTableName, updateTableDescription, updateTableNamespace, deleteTable, addColumn, addIndex, addCheck, addPolicy, updateRowLevelSecurity, updatePartitioning, addPartition } = useSchemaStore();
+    const [showIndexes, setShowIndexes] = useState(false);
+    const [showChecks, setShowChecks] = useState(false);
+    const [showPolicies, setShowPolicies] = useState(false);
+    const [showPartitions, setShowPartitions] = useState(false);
 
     // Type-safe data extraction
     const data = nodeData as TableNodeData;
@@ -25,7 +34,25 @@ const TableNode = ({ id: nodeId, data: nodeData }: NodeProps<TableNodeData>) =>
         updateTableName(id, e.target.value);
     };
 
+    const handleNamespaceChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        updateTableNamespace(id, e.target.value);
+    };
+
+    const handleDescriptionChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        updateTableDescription(id, e.target.value);
+    };
+
     const handleDelete = () => {
+        // Views reading from this table would break, so deleting it needs a second click
+        const dependents = views.filter((view: View) => view.dependencyIds.includes(id));
+        if (dependents.length > 0) {
+            toast.warning(`'${data.name}' is used by ${dependents.length} view${dependents.length > 1 ? 's' : ''}`, {
+                description: dependents.map((view: View) => view.name).join(', '),
+                action: { label: 'Delete anyway', onClick: () => deleteTable(id) },
+                duration: 8000,
+            });
+            return;
+        }
         deleteTable(id);
     };
 
@@ -33,6 +60,45 @@ const TableNode = ({ id: nodeId, data: nodeData }: NodeProps<TableNodeData>) =>
         addColumn(id);
     };
 
+    const handleAddIndex = () => {
+        addIndex(id);
+        setShowIndexes(true);
+    };
+
+    const handleAddCheck = () => {
+        addCheck(id);
+        setShowChecks(true);
+    };
+
+    const handleAddPolicy = () => {
+        addPolicy(id);
+        setShowPolicies(true);
+    };
+
+    const handleRowLevelSecurityChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        updateRowLevelSecurity(id, e.target.value ? e.target.value as RowLevelSecurity : undefined);
+    };
+
+    const handlePartitionStrategyChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        updatePartitioning(id, e.target.value ? { strategy: e.target.value as PartitionStrategy } : undefined);
+        setShowPartitions(e.target.value !== '');
+    };
+
+    const handleAddPartition = () => {
+        addPartition(id);
+        setShowPartitions(true);
+    };
+
+    // Clicking a column appends it to the partition key; clicking again removes it (order = click order)
+    const handleTogglePartitionKeyColumn = (columnId: string) => {
+        const keyColumnIds = table?.partitioning?.keyColumnIds ?? [];
+        updatePartitioning(id, {
+            keyColumnIds: keyColumnIds.includes(columnId)
+                ? keyColumnIds.filter((keyColumnId) => keyColumnId !== columnId)
+                : [...keyColumnIds, columnId],
+        });
+    };
+
     return (
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 min-w-[280px] max-w-[800px]">
             {/* Handles for future relations */}
@@ -49,12 +115,23 @@ const TableNode = ({ id: nodeId, data: nodeData }: NodeProps<TableNodeData>) =>
 
             {/* Header section */}
             <div className="bg-gray-50 dark:bg-gray-700 rounded-t-lg px-4 py-3 border-b border-gray-200 dark:border-gray-600 flex items-center justify-between">
+                {/* Schema namespace; left empty for public */}
+                <input
+                    type="text"
+                    value={table?.namespace || ''}
+                    onChange={handleNamespaceChange}
+                    className="w-16 shrink-0 text-xs text-gray-500 dark:text-gray-400 bg-transparent border-none outline-none focus:ring-1 focus:ring-blue-400 focus:bg-white dark:focus:bg-gray-600 rounded px-1 py-0.5 placeholder:text-gray-400 dark:placeholder:text-gray-500"
+                    placeholder="public"
+                    title="PostgreSQL schema"
+                />
+                <span className="text-gray-400 dark:text-gray-500 mr-1">.</span>
                 <input
                     type="text"
                     value={data.name}
                     onChange={handleNameChange}
                     className="flex-1 font-semibold text-gray-800 dark:text-gray-100 bg-transparent border-none outline-none focus:ring-2 focus:ring-blue-400 focus:bg-white dark:focus:bg-gray-600 rounded px-2 py-1 -mx-2 -my-1"
                     placeholder="Table name"
+                    title={table?.description}
                 />
                 <button
                     onClick={handleDelete}
@@ -76,6 +153,18 @@ const TableNode = ({ id: nodeId, data: nodeData }: NodeProps<TableNodeData>) =>
                 </button>
             </div>
 
+            {/* Description */}
+            <div className="px-3 py-1.5 border-b border-gray-200 dark:border-gray-700">
+                <input
+                    type="text"
+                    value={table?.description || ''}
+                    onChange={handleDescriptionChange}
+                    className="w-full px-2 py-1 text-xs text-gray-600 dark:text-gray-300 bg-transparent border-none outline-none focus:ring-1 focus:ring-blue-400 focus:bg-white dark:focus:bg-gray-700 rounded placeholder:text-gray-400 dark:placeholder:text-gray-500 placeholder:italic"
+                    placeholder="Add a description"
+                    title={table?.description}
+                />
+            </div>
+
             {/* Add Column Button */}
             <div className="px-3 py-2 border-b border-gray-200">
                 <button
@@ -110,6 +199,159 @@ const TableNode = ({ id: nodeId, data: nodeData }: NodeProps<TableNodeData>) =>
                     </div>
                 )}
             </div>
+
+            {/* Indexes Section */}
+            <div className="border-t border-gray-200 dark:border-gray-700">
+                <div className="px-3 py-1.5 flex items-center justify-between">
+                    <button
+                        onClick={() => setShowIndexes(!showIndexes)}
+                        className="text-xs font-medium text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition-colors"
+                    >
+                        Indexes ({table?.indexes.length ?? 0}) {showIndexes ? '▾' : '▸'}
+                    </button>
+                    <button
+                        onClick={handleAddIndex}
+                        className="text-xs text-blue-600 hover:text-blue-700 hover:bg-blue-50 rounded px-1.5 py-0.5 transition-colors font-medium"
+                        title="Add index"
+                    >
+                        + Index
+                    </button>
+                </div>
+                {showIndexes && table && table.indexes.length > 0 && (
+                    <div className="border-t border-gray-100 dark:border-gray-700">
+                        {table.indexes.map((index) => (
+                            <IndexRow key={index.id} tableId={id} index={index} columns={table.columns} />
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* Checks Section */}
+            <div className="border-t border-gray-200 dark:border-gray-700">
+                <div className="px-3 py-1.5 flex items-center justify-between">
+                    <button
+                        onClick={() => setShowChecks(!showChecks)}
+                        className="text-xs font-medium text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition-colors"
+                    >
+                        Checks ({table?.checks.length ?? 0}) {showChecks ? '▾' : '▸'}
+                    </button>
+                    <button
+                        onClick={handleAddCheck}
+                        className="text-xs text-blue-600 hover:text-blue-700 hover:bg-blue-50 rounded px-1.5 py-0.5 transition-colors font-medium"
+                        title="Add check constraint"
+                    >
+                        + Check
+                    </button>
+                </div>
+                {showChecks && table && table.checks.length > 0 && (
+                    <div className="border-t border-gray-100 dark:border-gray-700">
+                        {table.checks.map((check) => (
+                            <CheckRow key={check.id} tableId={id} check={check} />
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* Row-Level Security Section */}
+            <div className="border-t border-gray-200 dark:border-gray-700">
+                <div className="px-3 py-1.5 flex items-center justify-between gap-2">
+                    <button
+                        onClick={() => setShowPolicies(!showPolicies)}
+                        className="text-xs font-medium text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition-colors"
+                    >
+                        Policies ({table?.policies.length ?? 0}) {showPolicies ? '▾' : '▸'}
+                    </button>
+                    <select
+                        value={table?.rowLevelSecurity ?? ''}
+                        onChange={handleRowLevelSecurityChange}
+                        className="ml-auto px-1.5 py-0.5 text-xs border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:outline-none focus:ring-1 focus:ring-blue-400 bg-white"
+                        title="Row-level security; forced also applies policies to the table owner"
+                    >
+                        <option value="">RLS off</option>
+                        <option value="enabled">RLS enabled</option>
+                        <option value="forced">RLS forced</option>
+                    </select>
+                    <button
+                        onClick={handleAddPolicy}
+                        className="text-xs text-blue-600 hover:text-blue-700 hover:bg-blue-50 rounded px-1.5 py-0.5 transition-colors font-medium"
+                        title="Add row-level security policy"
+                    >
+                        + Policy
+                    </button>
+                </div>
+                {showPolicies && table && table.policies.length > 0 && (
+                    <div className="border-t border-gray-100 dark:border-gray-700">
+                        {table.policies.map((policy) => (
+                            <PolicyRow key={policy.id} tableId={id} policy={policy} />
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* Partitioning Section */}
+            <div className="border-t border-gray-200 dark:border-gray-700">
+                <div className="px-3 py-1.5 flex items-center justify-between gap-2">
+                    <button
+                        onClick={() => setShowPartitions(!showPartitions)}
+                        disabled={!table?.partitioning}
+                        className="text-xs font-medium text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition-colors disabled:hover:text-gray-500"
+                    >
+                        Partitions ({table?.partitioning?.partitions.length ?? 0}) {showPartitions ? '▾' : '▸'}
+                    </button>
+                    <select
+                        value={table?.partitioning?.strategy ?? ''}
+                        onChange={handlePartitionStrategyChange}
+                        className="ml-auto px-1.5 py-0.5 text-xs border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:outline-none focus:ring-1 focus:ring-blue-400 bg-white"
+                        title="Partitioning strategy; turning it off drops the declared partitions"
+                    >
+                        <option value="">Not partitioned</option>
+                        <option value="RANGE">By range</option>
+                        <option value="LIST">By list</option>
+                        <option value="HASH">By hash</option>
+                    </select>
+                    <button
+                        onClick={handleAddPartition}
+                        disabled={!table?.partitioning}
+                        className="text-xs text-blue-600 hover:text-blue-700 hover:bg-blue-50 rounded px-1.5 py-0.5 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                        title="Add partition"
+                    >
+                        + Partition
+                    </button>
+                </div>
+                {showPartitions && table?.partitioning && (
+                    <div className="border-t border-gray-100 dark:border-gray-700">
+                        {/* Partition Key Picker */}
+                        <div className="px-3 py-2 flex flex-wrap items-center gap-1 border-b border-gray-100 dark:border-gray-700">
+                            <span className="text-xs text-gray-500 dark:text-gray-400 mr-1">Key</span>
+                            {table.columns.length === 0 ? (
+                                <span className="text-xs text-gray-400 italic">Add columns to partition by them</span>
+                            ) : (
+                                table.columns.map((column) => {
+                                    const position = table.partitioning!.keyColumnIds.indexOf(column.id);
+                                    const selected = position !== -1;
+                                    return (
+                                        <button
+                                            key={column.id}
+                                            onClick={() => handleTogglePartitionKeyColumn(column.id)}
+                                            className={`px-1.5 py-0.5 text-xs rounded transition-colors ${selected
+                                                ? 'bg-blue-100 text-blue-700 hover:bg-blue-200 dark:bg-blue-900/30 dark:text-blue-400'
+                                                : 'bg-gray-100 text-gray-500 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-400'
+                                                }`}
+                                            title={selected ? `Position ${position + 1} in partition key` : 'Add to partition key'}
+                                        >
+                                            {selected && <span className="font-semibold mr-1">{position + 1}</span>}
+                                            {column.name}
+                                        </button>
+                                    );
+                                })
+                            )}
+                        </div>
+                        {table.partitioning.partitions.map((partition) => (
+                            <PartitionRow key={partition.id} tableId={id} partition={partition} strategy={table.partitioning!.strategy} />
+                        ))}
+                    </div>
+                )}
+            </div>
         </div>
     );
 };
@@ -0,0 +1,311 @@
+'use client';
+
+import React, { memo } from 'react';
+import { Handle, Position, NodeProps } from '@xyflow/react';
+import { toast } from 'sonner';
+import { useSchemaStore, View, ViewColumn, EnumType, Table } from '@/store/schemaStore';
+import { BASE_TYPES, BaseType } from '@/lib/columnTypes';
+
+export interface ViewNodeData {
+    name: string;
+    [key: string]: unknown;
+}
+
+// Enum types are selected as "enum:<enumId>" so the dropdown can hold them alongside scalars
+const ENUM_OPTION_PREFIX = 'enum:';
+
+interface ViewColumnRowProps {
+    viewId: string;
+    column: ViewColumn;
+}
+
+function ViewColumnRow({ viewId, column }: ViewColumnRowProps) {
+    const { enums, updateViewColumn, deleteViewColumn } = useSchemaStore();
+
+    const typeValue = column.type.base === 'enum' && column.enumId
+        ? `${ENUM_OPTION_PREFIX}${column.enumId}`
+        : column.type.base;
+
+    const handleTypeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        if (e.target.value.startsWith(ENUM_OPTION_PREFIX)) {
+            updateViewColumn(viewId, column.id, {
+                type: { base: 'enum' },
+                enumId: e.target.value.slice(ENUM_OPTION_PREFIX.length),
+            });
+            return;
+        }
+        updateViewColumn(viewId, column.id, { type: { base: e.target.value as BaseType }, enumId: undefined });
+    };
+
+    return (
+        <div className="px-3 py-2 border-b border-gray-100 dark:border-gray-700 last:border-b-0 flex items-center gap-2 text-sm">
+            <input
+                type="text"
+                value={column.name}
+                onChange={(e) => updateViewColumn(viewId, column.id, { name: e.target.value })}
+                className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400"
+                placeholder="column_name"
+            />
+            <select
+                value={typeValue}
+                onChange={handleTypeChange}
+                className="px-2 py-1 text-sm border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400 bg-white shrink-0"
+            >
+                {BASE_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                        {type}
+                    </option>
+                ))}
+                {enums.length > 0 && (
+                    <optgroup label="Enums">
+                        {enums.map((enumType: EnumType) => (
+                            <option key={enumType.id} value={`${ENUM_OPTION_PREFIX}${enumType.id}`}>
+                                {enumType.name}
+                            </option>
+                        ))}
+                    </optgroup>
+                )}
+            </select>
+            <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400 shrink-0" title="Column may be NULL">
+                <input
+                    type="checkbox"
+                    checked={column.nullable}
+                    onChange={(e) => updateViewColumn(viewId, column.id, { nullable: e.target.checked })}
+                    className="rounded"
+                />
+                Null
+            </label>
+            <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400 shrink-0" title="Values are unique; Prisma needs one unique column to query a view">
+                <input
+                    type="checkbox"
+                    checked={column.unique}
+                    onChange={(e) => updateViewColumn(viewId, column.id, { unique: e.target.checked })}
+                    className="rounded"
+                />
+                Unique
+            </label>
+            <button
+                onClick={() => deleteViewColumn(viewId, column.id)}
+                className="p-1.5 text-gray-400 dark:text-gray-500 hover:text-red-500 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-colors shrink-0"
+                title="Delete column"
+            >
+                <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    className="h-4 w-4"
+                    viewBox="0 0 20 20"
+                    fill="currentColor"
+                >
+                    <path
+                        fillRule="evenodd"
+                        d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z"
+                        clipRule="evenodd"
+                    />
+                </svg>
+            </button>
+        </div>
+    );
+}
+
+// @ts-expect-error - React Flow NodeProps constraint expects full Node type but works with data type
+const ViewNode = ({ id: nodeId, data: nodeData }: NodeProps<ViewNodeData>) => {
+    const { tables, views, updateView, deleteView, addViewColumn } = useSchemaStore();
+
+    // Type-safe data extraction
+    const data = nodeData as ViewNodeData;
+    const id = nodeId as string;
+
+    // Get the full view data from Zustand store
+    const view = views.find((v: View) => v.id === id);
+    if (!view) {
+        return null;
+    }
+
+    // Anything on the canvas except this view (and what is already listed) can be a dependency
+    const dependencyOptions = [
+        ...tables.map((table: Table) => ({ id: table.id, name: table.name })),
+        ...views.filter((v: View) => v.id !== id).map((v: View) => ({ id: v.id, name: v.name })),
+    ];
+    const dependencies = dependencyOptions.filter((option) => view.dependencyIds.includes(option.id));
+    const availableDependencies = dependencyOptions.filter((option) => !view.dependencyIds.includes(option.id));
+
+    const handleAddDependency = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        if (e.target.value) {
+            updateView(id, { dependencyIds: [...view.dependencyIds, e.target.value] });
+        }
+    };
+
+    const handleRemoveDependency = (dependencyId: string) => {
+        updateView(id, { dependencyIds: view.dependencyIds.filter((existing) => existing !== dependencyId) });
+    };
+
+    const handleDelete = () => {
+        // Views built on this one would break, so deleting it needs a second click
+        const dependents = views.filter((v: View) => v.dependencyIds.includes(id));
+        if (dependents.length > 0) {
+            toast.warning(`'${view.name}' is used by ${dependents.length} view${dependents.length > 1 ? 's' : ''}`, {
+                description: dependents.map((v: View) => v.name).join(', '),
+                action: { label: 'Delete anyway', onClick: () => deleteView(id) },
+                duration: 8000,
+            });
+            return;
+        }
+        deleteView(id);
+    };
+
+    return (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-dashed border-emerald-400 dark:border-emerald-600 min-w-[280px] max-w-[800px]">
+            {/* Dependency edges arrive here; views cannot take part in relations */}
+            <Handle
+                type="target"
+                position={Position.Left}
+                isConnectable={false}
+                className="w-3 h-3 bg-emerald-500"
+            />
+
+            {/* Header section */}
+            <div className="bg-emerald-50 dark:bg-emerald-950/40 rounded-t-lg px-4 py-3 border-b border-gray-200 dark:border-gray-600 flex items-center justify-between">
+                {/* Schema namespace; left empty for public */}
+                <input
+                    type="text"
+                    value={view.namespace || ''}
+                    onChange={(e) => updateView(id, { namespace: e.target.value || undefined })}
+                    className="w-16 shrink-0 text-xs text-gray-500 dark:text-gray-400 bg-transparent border-none outline-none focus:ring-1 focus:ring-blue-400 focus:bg-white dark:focus:bg-gray-600 rounded px-1 py-0.5 placeholder:text-gray-400 dark:placeholder:text-gray-500"
+                    placeholder="public"
+                    title="PostgreSQL schema"
+                />
+                <span className="text-gray-400 dark:text-gray-500 mr-1">.</span>
+                <input
+                    type="text"
+                    value={data.name}
+                    onChange={(e) => updateView(id, { name: e.target.value })}
+                    className="flex-1 font-semibold text-gray-800 dark:text-gray-100 bg-transparent border-none outline-none focus:ring-2 focus:ring-blue-400 focus:bg-white dark:focus:bg-gray-600 rounded px-2 py-1 -mx-2 -my-1"
+                    placeholder="View name"
+                    title={view.description}
+                />
+                <label className="ml-2 flex items-center gap-1 text-[10px] font-semibold uppercase tracking-wide text-emerald-700 dark:text-emerald-400 shrink-0" title="Store the query result and refresh it on demand">
+                    <input
+                        type="checkbox"
+                        checked={view.materialized}
+                        onChange={(e) => updateView(id, { materialized: e.target.checked })}
+                        className="rounded"
+                    />
+                    {view.materialized ? 'Materialized' : 'View'}
+                </label>
+                <button
+                    onClick={handleDelete}
+                    className="ml-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded p-1 transition-colors"
+                    title="Delete view"
+                >
+                    <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        className="h-4 w-4"
+                        viewBox="0 0 20 20"
+                        fill="currentColor"
+                    >
+                        <path
+                            fillRule="evenodd"
+                            d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z"
+                            clipRule="evenodd"
+                        />
+                    </svg>
+                </button>
+            </div>
+
+            {/* Description */}
+            <div className="px-3 py-1.5 border-b border-gray-200 dark:border-gray-700">
+                <input
+                    type="text"
+                    value={view.description || ''}
+                    onChange={(e) => updateView(id, { description: e.target.value || undefined })}
+                    className="w-full px-2 py-1 text-xs text-gray-600 dark:text-gray-300 bg-transparent border-none outline-none focus:ring-1 focus:ring-blue-400 focus:bg-white dark:focus:bg-gray-700 rounded placeholder:text-gray-400 dark:placeholder:text-gray-500 placeholder:italic"
+                    placeholder="Add a description"
+                    title={view.description}
+                />
+            </div>
+
+            {/* Query */}
+            <div className="px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+                <textarea
+                    value={view.query}
+                    onChange={(e) => updateView(id, { query: e.target.value })}
+                    rows={4}
+                    className="nodrag w-full px-2 py-1 text-xs font-mono border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400 resize-y"
+                    placeholder="SELECT id, email FROM users WHERE active"
+                />
+            </div>
+
+            {/* Dependencies */}
+            <div className="px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+                <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Reads from</div>
+                <div className="flex flex-wrap items-center gap-1">
+                    {dependencies.map((dependency) => (
+                        <span
+                            key={dependency.id}
+                            className="inline-flex items-center gap-1 px-2 py-0.5 text-xs bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded"
+                        >
+                            {dependency.name}
+                            <button
+                                onClick={() => handleRemoveDependency(dependency.id)}
+                                className="text-gray-400 hover:text-red-500"
+                                title="Remove dependency"
+                            >
+                                ×
+                            </button>
+                        </span>
+                    ))}
+                    {availableDependencies.length > 0 && (
+                        <select
+                            value=""
+                            onChange={handleAddDependency}
+                            className="px-1.5 py-0.5 text-xs border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:outline-none focus:ring-1 focus:ring-blue-400 bg-white"
+                        >
+                            <option value="">+ Add</option>
+                            {availableDependencies.map((option) => (
+                                <option key={option.id} value={option.id}>
+                                    {option.name}
+                                </option>
+                            ))}
+                        </select>
+                    )}
+                </div>
+            </div>
+
+            {/* Add Column Button */}
+            <div className="px-3 py-2 border-b border-gray-200">
+                <button
+                    onClick={() => addViewColumn(id)}
+                    className="w-full px-3 py-1.5 text-sm text-emerald-600 hover:text-emerald-700 hover:bg-emerald-50 rounded transition-colors flex items-center justify-center gap-1.5 font-medium"
+                >
+                    <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        className="h-4 w-4"
+                        viewBox="0 0 20 20"
+                        fill="currentColor"
+                    >
+                        <path
+                            fillRule="evenodd"
+                            d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z"
+                            clipRule="evenodd"
+                        />
+                    </svg>
+                    Add Column
+                </button>
+            </div>
+
+            {/* Declared output columns */}
+            <div className="max-h-[400px] overflow-y-auto">
+                {view.columns.length > 0 ? (
+                    view.columns.map((column: ViewColumn) => (
+                        <ViewColumnRow key={column.id} viewId={id} column={column} />
+                    ))
+                ) : (
+                    <div className="px-4 py-3 text-gray-400 text-sm italic text-center">
+                        No output columns declared
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default memo(ViewNode);
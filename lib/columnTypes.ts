@@ -0,0 +1,230 @@
+/**
+ * Column type registry
+ *
+ * Single source of truth for the datatypes a column can have: which parameters
+ * they accept, how they group for validation rules, how literal defaults parse,
+ * and how they map to PostgreSQL, MySQL, SQLite, SQL Server, Prisma and Drizzle. The editor, validator and generators
+ * all read from here.
+ */
+
+export type BaseType =
+    | 'smallint'
+    | 'int'
+    | 'bigint'
+    | 'numeric'
+    | 'real'
+    | 'double'
+    | 'varchar'
+    | 'char'
+    | 'text'
+    | 'citext'
+    | 'boolean'
+    | 'date'
+    | 'time'
+    | 'timestamp'
+    | 'timestamptz'
+    | 'uuid'
+    | 'json'
+    | 'jsonb'
+    | 'bytea'
+    | 'geometry'
+    | 'enum';
+
+/**
+ * Structured column type: a base type plus its optional parameters
+ */
+export interface ColumnType {
+    base: BaseType;
+    length?: number; // varchar(n), char(n)
+    precision?: number; // numeric(p, s)
+    scale?: number;
+    array?: boolean; // base[]
+}
+
+export type TypeCategory =
+    | 'integer'
+    | 'decimal'
+    | 'float'
+    | 'string'
+    | 'boolean'
+    | 'temporal'
+    | 'uuid'
+    | 'json'
+    | 'binary'
+    | 'spatial'
+    | 'enum';
+
+export type TypeParams = 'none' | 'length' | 'precisionScale';
+
+export interface TypeDefinition {
+    base: BaseType;
+    category: TypeCategory;
+    params: TypeParams;
+    postgres: string; // PostgreSQL type name (enum columns use the enum's name instead)
+    mysql: string; // MySQL type name (enum columns list their values inline instead)
+    sqlite: string; // SQLite type affinity
+    tsql: string; // SQL Server type name (enum columns are NVARCHAR with a CHECK instead)
+    prisma: string; // Prisma scalar type (enum columns use the enum's model name instead)
+    prismaNative?: string; // Prisma @db.* attribute, when the scalar's default mapping differs
+    drizzle: string; // Drizzle pg-core column builder (enum columns use the enum's pgEnum instead)
+    extension?: string; // PostgreSQL extension that provides the type
+}
+
+export const TYPE_REGISTRY: Record<BaseType, TypeDefinition> = {
+    smallint: { base: 'smallint', category: 'integer', params: 'none', postgres: 'SMALLINT', mysql: 'SMALLINT', sqlite: 'INTEGER', tsql: 'SMALLINT', prisma: 'Int', prismaNative: 'SmallInt', drizzle: 'smallint' },
+    int: { base: 'int', category: 'integer', params: 'none', postgres: 'INT', mysql: 'INT', sqlite: 'INTEGER', tsql: 'INT', prisma: 'Int', drizzle: 'integer' },
+    bigint: { base: 'bigint', category: 'integer', params: 'none', postgres: 'BIGINT', mysql: 'BIGINT', sqlite: 'INTEGER', tsql: 'BIGINT', prisma: 'BigInt', drizzle: 'bigint' },
+    numeric: { base: 'numeric', category: 'decimal', params: 'precisionScale', postgres: 'NUMERIC', mysql: 'DECIMAL', sqlite: 'NUMERIC', tsql: 'DECIMAL', prisma: 'Decimal', prismaNative: 'Decimal', drizzle: 'numeric' },
+    real: { base: 'real', category: 'float', params: 'none', postgres: 'REAL', mysql: 'FLOAT', sqlite: 'REAL', tsql: 'REAL', prisma: 'Float', prismaNative: 'Real', drizzle: 'real' },
+    double: { base: 'double', category: 'float', params: 'none', postgres: 'DOUBLE PRECISION', mysql: 'DOUBLE', sqlite: 'REAL', tsql: 'FLOAT', prisma: 'Float', drizzle: 'doublePrecision' },
+    varchar: { base: 'varchar', category: 'string', params: 'length', postgres: 'VARCHAR', mysql: 'VARCHAR', sqlite: 'TEXT', tsql: 'NVARCHAR', prisma: 'String', prismaNative: 'VarChar', drizzle: 'varchar' },
+    char: { base: 'char', category: 'string', params: 'length', postgres: 'CHAR', mysql: 'CHAR', sqlite: 'TEXT', tsql: 'NCHAR', prisma: 'String', prismaNative: 'Char', drizzle: 'char' },
+    text: { base: 'text', category: 'string', params: 'none', postgres: 'TEXT', mysql: 'TEXT', sqlite: 'TEXT', tsql: 'NVARCHAR(MAX)', prisma: 'String', drizzle: 'text' },
+    citext: { base: 'citext', category: 'string', params: 'none', postgres: 'CITEXT', mysql: 'TEXT', sqlite: 'TEXT', tsql: 'NVARCHAR(MAX)', prisma: 'String', prismaNative: 'Citext', drizzle: 'citext', extension: 'citext' },
+    boolean: { base: 'boolean', category: 'boolean', params: 'none', postgres: 'BOOLEAN', mysql: 'TINYINT(1)', sqlite: 'INTEGER', tsql: 'BIT', prisma: 'Boolean', drizzle: 'boolean' },
+    date: { base: 'date', category: 'temporal', params: 'none', postgres: 'DATE', mysql: 'DATE', sqlite: 'TEXT', tsql: 'DATE', prisma: 'DateTime', prismaNative: 'Date', drizzle: 'date' },
+    time: { base: 'time', category: 'temporal', params: 'none', postgres: 'TIME', mysql: 'TIME(6)', sqlite: 'TEXT', tsql: 'TIME', prisma: 'DateTime', prismaNative: 'Time', drizzle: 'time' },
+    timestamp: { base: 'timestamp', category: 'temporal', params: 'none', postgres: 'TIMESTAMP', mysql: 'DATETIME(6)', sqlite: 'TEXT', tsql: 'DATETIME2', prisma: 'DateTime', prismaNative: 'Timestamp', drizzle: 'timestamp' },
+    timestamptz: { base: 'timestamptz', category: 'temporal', params: 'none', postgres: 'TIMESTAMPTZ', mysql: 'DATETIME(6)', sqlite: 'TEXT', tsql: 'DATETIME2', prisma: 'DateTime', prismaNative: 'Timestamptz', drizzle: 'timestamp' },
+    uuid: { base: 'uuid', category: 'uuid', params: 'none', postgres: 'UUID', mysql: 'CHAR(36)', sqlite: 'TEXT', tsql: 'UNIQUEIDENTIFIER', prisma: 'String', prismaNative: 'Uuid', drizzle: 'uuid' },
+    json: { base: 'json', category: 'json', params: 'none', postgres: 'JSON', mysql: 'JSON', sqlite: 'TEXT', tsql: 'NVARCHAR(MAX)', prisma: 'Json', prismaNative: 'Json', drizzle: 'json' },
+    jsonb: { base: 'jsonb', category: 'json', params: 'none', postgres: 'JSONB', mysql: 'JSON', sqlite: 'TEXT', tsql: 'NVARCHAR(MAX)', prisma: 'Json', drizzle: 'jsonb' },
+    bytea: { base: 'bytea', category: 'binary', params: 'none', postgres: 'BYTEA', mysql: 'LONGBLOB', sqlite: 'BLOB', tsql: 'VARBINARY(MAX)', prisma: 'Bytes', drizzle: 'bytea' },
+    geometry: { base: 'geometry', category: 'spatial', params: 'none', postgres: 'GEOMETRY', mysql: 'GEOMETRY', sqlite: 'BLOB', tsql: 'GEOMETRY', prisma: 'Unsupported("geometry")', drizzle: 'geometry', extension: 'postgis' },
+    enum: { base: 'enum', category: 'enum', params: 'none', postgres: '', mysql: '', sqlite: 'TEXT', tsql: '', prisma: '', drizzle: '' },
+};
+
+/**
+ * Scalar base types in the order the editor lists them (enums are listed separately)
+ */
+export const BASE_TYPES: BaseType[] = [
+    'int', 'smallint', 'bigint', 'numeric', 'real', 'double',
+    'varchar', 'char', 'text', 'citext', 'boolean',
+    'date', 'time', 'timestamp', 'timestamptz',
+    'uuid', 'json', 'jsonb', 'bytea', 'geometry',
+];
+
+export function isBaseType(value: string): value is BaseType {
+    return Object.prototype.hasOwnProperty.call(TYPE_REGISTRY, value);
+}
+
+export function getTypeCategory(type: ColumnType): TypeCategory | undefined {
+    return TYPE_REGISTRY[type.base]?.category;
+}
+
+/**
+ * Render a type's parameters, e.g. "(255)" or "(12, 2)"; empty when none are set
+ */
+export function formatTypeParams(type: ColumnType): string {
+    const params = TYPE_REGISTRY[type.base]?.params;
+    if (params === 'length' && type.length !== undefined) {
+        return `(${type.length})`;
+    }
+    if (params === 'precisionScale' && type.precision !== undefined) {
+        return type.scale !== undefined ? `(${type.precision}, ${type.scale})` : `(${type.precision})`;
+    }
+    return '';
+}
+
+/**
+ * Human-readable type, e.g. "varchar(255)", "numeric(12, 2)[]" or the enum's name
+ */
+export function formatColumnType(type: ColumnType, enumName?: string): string {
+    const base = type.base === 'enum' && enumName ? enumName : type.base;
+    return `${base}${formatTypeParams(type)}${type.array ? '[]' : ''}`;
+}
+
+/**
+ * Whether a column holds a point in time (timestamp or timestamptz), as auto-updated columns must
+ */
+export function isTimestampType(type: ColumnType): boolean {
+    return (type.base === 'timestamp' || type.base === 'timestamptz') && !type.array;
+}
+
+/**
+ * Whether a foreign key of one type may reference a key of another.
+ * Base type and array-ness must match; lengths and precisions may differ, as in PostgreSQL.
+ */
+export function areTypesCompatible(a: ColumnType, b: ColumnType): boolean {
+    return a.base === b.base && !!a.array === !!b.array;
+}
+
+/**
+ * Converts a stored type into a ColumnType.
+ * Projects saved before structured types stored bare strings like "int" or "varchar(255)".
+ */
+export function toColumnType(value: string | ColumnType): ColumnType {
+    if (typeof value !== 'string') {
+        return value;
+    }
+
+    const match = value.trim().toLowerCase().match(/^([a-z]+)\s*(?:\(\s*(\d+)\s*(?:,\s*(\d+)\s*)?\))?\s*(\[\])?$/);
+    if (!match || !isBaseType(match[1])) {
+        // Unknown legacy types degrade to text rather than failing the load
+        return { base: 'text' };
+    }
+
+    const type: ColumnType = { base: match[1] };
+    const params = TYPE_REGISTRY[type.base].params;
+    if (match[2] !== undefined && params === 'length') {
+        type.length = Number(match[2]);
+    }
+    if (match[2] !== undefined && params === 'precisionScale') {
+        type.precision = Number(match[2]);
+        if (match[3] !== undefined) {
+            type.scale = Number(match[3]);
+        }
+    }
+    if (match[4]) {
+        type.array = true;
+    }
+    return type;
+}
+
+/**
+ * A literal default parsed according to its column type
+ */
+export type LiteralValue =
+    | { kind: 'number'; value: string } // Kept as text so bigint and numeric values never lose precision
+    | { kind: 'boolean'; value: boolean }
+    | { kind: 'string'; value: string };
+
+const INTEGER_LITERAL = /^[-+]?\d+$/;
+const DECIMAL_LITERAL = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const UUID_LITERAL = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Parses a literal default such as "0", "true" or "pending" for a column type.
+ * Returns undefined when the text is not a valid literal of that type.
+ * Array defaults are passed through as strings, in PostgreSQL's '{a,b}' form.
+ */
+export function parseLiteral(type: ColumnType, value: string): LiteralValue | undefined {
+    const text = value.trim();
+    if (type.array) {
+        return { kind: 'string', value };
+    }
+
+    switch (getTypeCategory(type)) {
+        case 'integer':
+            return INTEGER_LITERAL.test(text) ? { kind: 'number', value: text.replace(/^\+/, '') } : undefined;
+        case 'decimal':
+        case 'float':
+            return DECIMAL_LITERAL.test(text) ? { kind: 'number', value: text.replace(/^\+/, '') } : undefined;
+        case 'boolean':
+            if (/^true$/i.test(text)) return { kind: 'boolean', value: true };
+            if (/^false$/i.test(text)) return { kind: 'boolean', value: false };
+            return undefined;
+        case 'uuid':
+            return UUID_LITERAL.test(text) ? { kind: 'string', value: text } : undefined;
+        case 'json':
+            try {
+                JSON.parse(text);
+                return { kind: 'string', value: text };
+            } catch {
+                return undefined;
+            }
+        default:
+            // Strings, enums, dates, binary and spatial (EWKT) values are quoted as written
+            return { kind: 'string', value };
+    }
+}
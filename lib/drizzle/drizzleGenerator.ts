@@ -0,0 +1,541 @@
+import { NormalizedSchema, NormalizedColumn, NormalizedTable, NormalizedIndex, NormalizedView, NormalizedViewColumn, groupForeignKeys, isOneToOneForeignKey } from '../schemaNormalizer';
+import { ReferentialAction } from '@/store/schemaStore';
+import { ColumnType, TYPE_REGISTRY, getTypeCategory, parseLiteral } from '../columnTypes';
+import { validateSchemaForGeneration } from '../generatorValidation';
+import { orderTables } from '../sql/tableOrder';
+import { toPascalCase, toCamelCase, toSingular } from '../naming';
+import { foreignKeyStem, toScalarFieldName } from '../prisma/prismaGenerator';
+
+// Types pg-core has no builder for, declared with customType() when a column uses them
+const CUSTOM_TYPES: Record<string, { data: string; sql: string }> = {
+    citext: { data: 'string', sql: 'citext' },
+    bytea: { data: 'Buffer', sql: 'bytea' },
+};
+
+/**
+ * Names and imports collected while generating, so the file header lists only what is used
+ */
+interface DrizzleContext {
+    schema: NormalizedSchema;
+    tableVariables: Map<string, string>; // Table key → exported variable
+    declared: Set<string>; // Table keys whose variable is already declared
+    imports: Set<string>; // drizzle-orm/pg-core
+    ormImports: Set<string>; // drizzle-orm
+    customTypes: Set<string>;
+}
+
+function toStringLiteral(value: string): string {
+    const escaped = value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n');
+    return `'${escaped}'`;
+}
+
+/**
+ * Raw SQL as a Drizzle sql`` template
+ */
+function toSqlTemplate(expression: string, context: DrizzleContext): string {
+    context.ormImports.add('sql');
+    const escaped = expression.trim().replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+    return `sql\`${escaped}\``;
+}
+
+function toEnumVariable(enumName: string): string {
+    return `${toCamelCase(enumName)}Enum`;
+}
+
+function toSchemaVariable(namespace: string): string {
+    return `${toCamelCase(namespace)}Schema`;
+}
+
+/**
+ * Table variables follow Drizzle's convention of the camel-cased table name (blog_posts →
+ * blogPosts), prefixed with the namespace only where several namespaces share a name
+ */
+function buildTableVariables(schema: NormalizedSchema): Map<string, string> {
+    const entries = Object.entries(schema.tables);
+    const variables = new Map<string, string>();
+    for (const [tableKey, table] of entries) {
+        const shared = entries.some(([otherKey, other]) => otherKey !== tableKey && other.name === table.name);
+        variables.set(tableKey, toCamelCase(shared && table.namespace ? `${table.namespace}_${table.name}` : table.name));
+    }
+    return variables;
+}
+
+function mapReferentialActionToDrizzle(action: ReferentialAction): string {
+    return toStringLiteral(action.toLowerCase());
+}
+
+/**
+ * Column builder call with its type options, e.g. varchar('email', { length: 255 })
+ */
+function generateTypeBuilder(name: string, type: ColumnType, enumName: string | undefined, context: DrizzleContext): string {
+    if (type.base === 'enum' && enumName) {
+        return `${toEnumVariable(enumName)}(${toStringLiteral(name)})`;
+    }
+
+    const builder = TYPE_REGISTRY[type.base].drizzle;
+    if (CUSTOM_TYPES[type.base]) {
+        context.customTypes.add(type.base);
+    } else {
+        context.imports.add(builder);
+    }
+
+    const options: string[] = [];
+    if (type.length !== undefined) {
+        options.push(`length: ${type.length}`);
+    }
+    if (type.precision !== undefined) {
+        options.push(`precision: ${type.precision}`);
+        if (type.scale !== undefined) {
+            options.push(`scale: ${type.scale}`);
+        }
+    }
+    if (type.base === 'bigint') {
+        options.push("mode: 'bigint'");
+    }
+    if (type.base === 'timestamptz') {
+        options.push('withTimezone: true');
+    }
+
+    const args = [toStringLiteral(name)];
+    if (options.length > 0) {
+        args.push(`{ ${options.join(', ')} }`);
+    }
+    return `${builder}(${args.join(', ')})`;
+}
+
+/**
+ * serial builders stand in for the type on autoincrement columns
+ */
+function generateSerialBuilder(column: NormalizedColumn, context: DrizzleContext): string {
+    const serial = column.type.base === 'smallint' ? 'smallserial' : column.type.base === 'bigint' ? 'bigserial' : 'serial';
+    context.imports.add(serial);
+    const options = serial === 'bigserial' ? ", { mode: 'bigint' }" : '';
+    return `${serial}(${toStringLiteral(column.name)}${options})`;
+}
+
+/**
+ * Renders a literal default as a JavaScript value of the column's data type: numbers,
+ * bigints, booleans, JSON and strings. Arrays, temporal, binary and spatial values and
+ * unparseable literals are passed to the database as SQL.
+ */
+function generateLiteralDefault(column: NormalizedColumn, value: string, context: DrizzleContext): string {
+    const category = getTypeCategory(column.type);
+    const literal = parseLiteral(column.type, value);
+    if (!literal || column.type.array || category === 'temporal' || category === 'binary' || category === 'spatial') {
+        return toSqlTemplate(`'${value.replace(/'/g, "''")}'`, context);
+    }
+    if (literal.kind === 'boolean') {
+        return String(literal.value);
+    }
+    if (category === 'json') {
+        return literal.value.trim();
+    }
+    if (literal.kind === 'number') {
+        // numeric is a string in Drizzle, bigint columns use mode: 'bigint'
+        if (category === 'decimal') {
+            return toStringLiteral(literal.value);
+        }
+        return column.type.base === 'bigint' ? `${literal.value}n` : literal.value;
+    }
+    return toStringLiteral(literal.value);
+}
+
+/**
+ * Chained modifiers for a column's default or generation strategy
+ */
+function generateDefaultModifier(column: NormalizedColumn, context: DrizzleContext): string {
+    if (column.generated) {
+        return `.generatedAlwaysAs(${toSqlTemplate(column.generated, context)})`;
+    }
+    if (!column.default) {
+        return '';
+    }
+    const { kind, value, identity, sequence } = column.default;
+    if (kind === 'identity') {
+        const method = identity?.generation === 'always' ? 'generatedAlwaysAsIdentity' : 'generatedByDefaultAsIdentity';
+        const options: string[] = [];
+        if (identity?.start !== undefined) {
+            options.push(`startWith: ${identity.start}`);
+        }
+        if (identity?.increment !== undefined) {
+            options.push(`increment: ${identity.increment}`);
+        }
+        return `.${method}(${options.length > 0 ? `{ ${options.join(', ')} }` : ''})`;
+    }
+    if (kind === 'sequence' && sequence) {
+        return `.default(${toSqlTemplate(`nextval('${sequence}')`, context)})`;
+    }
+    if (kind === 'uuid') {
+        return column.type.base === 'uuid' ? '.defaultRandom()' : `.default(${toSqlTemplate('gen_random_uuid()', context)})`;
+    }
+    if (kind === 'now') {
+        return '.defaultNow()';
+    }
+    if (kind === 'value' && value !== undefined) {
+        return `.default(${generateLiteralDefault(column, value, context)})`;
+    }
+    if (kind === 'expression' && value) {
+        return `.default(${toSqlTemplate(value, context)})`;
+    }
+    return '';
+}
+
+/**
+ * .references() for a single-column foreign key. References to a table declared later
+ * (or to itself) are typed as AnyPgColumn, which TypeScript needs to resolve the cycle.
+ */
+function generateReferences(column: NormalizedColumn, context: DrizzleContext): string {
+    const { table: referencedTable, column: referencedColumn, onDelete, onUpdate } = column.foreignKey!;
+    const referenced = context.schema.tables[referencedTable];
+    const property = toScalarFieldName(referenced.columns[referencedColumn], groupForeignKeys(context.schema, referenced));
+    const target = `${context.tableVariables.get(referencedTable)}.${property}`;
+
+    let callback = `() => ${target}`;
+    if (!context.declared.has(referencedTable)) {
+        context.imports.add('AnyPgColumn');
+        callback = `(): AnyPgColumn => ${target}`;
+    }
+
+    const actions: string[] = [];
+    if (onDelete) {
+        actions.push(`onDelete: ${mapReferentialActionToDrizzle(onDelete)}`);
+    }
+    if (onUpdate) {
+        actions.push(`onUpdate: ${mapReferentialActionToDrizzle(onUpdate)}`);
+    }
+    return `.references(${callback}${actions.length > 0 ? `, { ${actions.join(', ')} }` : ''})`;
+}
+
+function generateColumn(column: NormalizedColumn, table: NormalizedTable, context: DrizzleContext): string {
+    const pkColumns = Object.values(table.columns).filter(c => c.primaryKey);
+    const isSolePrimaryKey = column.primaryKey && pkColumns.length === 1;
+    const isSerial = column.default?.kind === 'autoincrement' && !column.generated;
+    const foreignKeys = groupForeignKeys(context.schema, table);
+
+    let builder = isSerial ? generateSerialBuilder(column, context) : generateTypeBuilder(column.name, column.type, column.enum, context);
+    if (column.type.array) {
+        builder += '.array()';
+    }
+    if (isSolePrimaryKey) {
+        builder += '.primaryKey()';
+    } else if (!column.nullable) {
+        builder += '.notNull()';
+    }
+    if (column.unique) {
+        builder += '.unique()';
+    }
+    builder += generateDefaultModifier(column, context);
+
+    if (column.foreignKey && foreignKeys.some(fk => fk.length === 1 && fk[0] === column)) {
+        builder += generateReferences(column, context);
+    }
+
+    // Drizzle sets the value on every update it issues, like Prisma's @updatedAt
+    if (column.autoUpdate) {
+        builder += '.$onUpdate(() => new Date())';
+    }
+
+    const doc = column.description ? `  /** ${column.description.replace(/\s*\n\s*/g, ' ')} */\n` : '';
+    return `${doc}  ${toScalarFieldName(column, foreignKeys)}: ${builder},`;
+}
+
+function generateIndex(table: NormalizedTable, foreignKeys: NormalizedColumn[][], index: NormalizedIndex, context: DrizzleContext): string {
+    const builder = index.unique ? 'uniqueIndex' : 'index';
+    context.imports.add(builder);
+    const columns = index.columns.map(name => {
+        const column = `table.${toScalarFieldName(table.columns[name], foreignKeys)}`;
+        return index.trigram ? `${column}.op('${index.method}_trgm_ops')` : column;
+    });
+    return index.method === 'btree'
+        ? `${builder}(${toStringLiteral(index.name)}).on(${columns.join(', ')})`
+        : `${builder}(${toStringLiteral(index.name)}).using('${index.method}', ${columns.join(', ')})`;
+}
+
+/**
+ * Table-level entries of the extra config callback: composite primary and foreign keys,
+ * indexes and checks
+ */
+function generateTableConfig(table: NormalizedTable, context: DrizzleContext): string[] {
+    const entries: string[] = [];
+    const foreignKeys = groupForeignKeys(context.schema, table);
+    const property = (column: NormalizedColumn) => `table.${toScalarFieldName(column, foreignKeys)}`;
+
+    const pkColumns = Object.values(table.columns).filter(c => c.primaryKey);
+    if (pkColumns.length > 1) {
+        context.imports.add('primaryKey');
+        entries.push(`primaryKey({ columns: [${pkColumns.map(property).join(', ')}] })`);
+    }
+
+    for (const foreignKey of foreignKeys) {
+        if (foreignKey.length === 1) {
+            continue; // Declared inline with .references()
+        }
+        context.imports.add('foreignKey');
+        const { table: referencedTable, onDelete, onUpdate, constraint } = foreignKey[0].foreignKey!;
+        const referenced = context.schema.tables[referencedTable];
+        const variable = context.tableVariables.get(referencedTable);
+        const referencedForeignKeys = groupForeignKeys(context.schema, referenced);
+        const foreignColumns = foreignKey.map(column => `${variable}.${toScalarFieldName(referenced.columns[column.foreignKey!.column], referencedForeignKeys)}`);
+        const options = [
+            constraint ? `name: ${toStringLiteral(constraint)}` : '',
+            `columns: [${foreignKey.map(property).join(', ')}]`,
+            `foreignColumns: [${foreignColumns.join(', ')}]`,
+        ].filter(Boolean);
+        let entry = `foreignKey({ ${options.join(', ')} })`;
+        if (onDelete) {
+            entry += `.onDelete(${mapReferentialActionToDrizzle(onDelete)})`;
+        }
+        if (onUpdate) {
+            entry += `.onUpdate(${mapReferentialActionToDrizzle(onUpdate)})`;
+        }
+        entries.push(entry);
+    }
+
+    for (const index of table.indexes || []) {
+        entries.push(generateIndex(table, foreignKeys, index, context));
+    }
+
+    const checks = [
+        ...Object.values(table.columns).map(column => column.check).filter(check => check !== undefined),
+        ...(table.checks || []),
+    ];
+    for (const check of checks) {
+        context.imports.add('check');
+        entries.push(`check(${toStringLiteral(check.name)}, ${toSqlTemplate(check.expression, context)})`);
+    }
+
+    return entries;
+}
+
+function generateTable(tableKey: string, table: NormalizedTable, context: DrizzleContext): string {
+    const variable = context.tableVariables.get(tableKey)!;
+    const factory = table.namespace ? `${toSchemaVariable(table.namespace)}.table` : 'pgTable';
+    if (!table.namespace) {
+        context.imports.add('pgTable');
+    }
+
+    const columns = Object.values(table.columns).map(column => generateColumn(column, table, context));
+    // Later tables may reference this one without AnyPgColumn
+    context.declared.add(tableKey);
+    const config = generateTableConfig(table, context);
+
+    const lines: string[] = [];
+    if (table.description) {
+        lines.push(`/** ${table.description.replace(/\s*\n\s*/g, ' ')} */`);
+    }
+    lines.push(`export const ${variable} = ${factory}(${toStringLiteral(table.name)}, {`, ...columns);
+    if (config.length > 0) {
+        lines.push('}, (table) => [', ...config.map(entry => `  ${entry},`), ']);');
+    } else {
+        lines.push('});');
+    }
+    return lines.join('\n');
+}
+
+function generateViewColumn(column: NormalizedViewColumn, context: DrizzleContext): string {
+    let builder = generateTypeBuilder(column.name, column.type, column.enum, context);
+    if (column.type.array) {
+        builder += '.array()';
+    }
+    if (!column.nullable) {
+        builder += '.notNull()';
+    }
+    return `  ${toCamelCase(column.name)}: ${builder},`;
+}
+
+/**
+ * pgView with declared columns and its query as raw SQL
+ */
+function generateView(view: NormalizedView, context: DrizzleContext): string {
+    const kind = view.materialized ? 'MaterializedView' : 'View';
+    const factory = view.namespace
+        ? `${toSchemaVariable(view.namespace)}.${kind.charAt(0).toLowerCase()}${kind.slice(1)}`
+        : `pg${kind}`;
+    if (!view.namespace) {
+        context.imports.add(factory);
+    }
+
+    const lines: string[] = [];
+    if (view.description) {
+        lines.push(`/** ${view.description.replace(/\s*\n\s*/g, ' ')} */`);
+    }
+    lines.push(
+        `export const ${toCamelCase(view.name)} = ${factory}(${toStringLiteral(view.name)}, {`,
+        ...Object.values(view.columns).map(column => generateViewColumn(column, context)),
+        `}).as(${toSqlTemplate(view.query.replace(/;\s*$/, ''), context)});`
+    );
+    return lines.join('\n');
+}
+
+/**
+ * One side of a relation in a relations() block
+ */
+interface RelationField {
+    name: string;
+    definition: string;
+}
+
+/**
+ * relations() blocks for every table with foreign keys or tables referencing it. Several
+ * FKs between the same two tables, and self-references, are told apart by relationName.
+ */
+function buildRelations(context: DrizzleContext): Map<string, RelationField[]> {
+    const { schema, tableVariables } = context;
+    const fields = new Map<string, RelationField[]>();
+    const add = (tableKey: string, field: RelationField) => {
+        fields.set(tableKey, [...(fields.get(tableKey) || []), field]);
+    };
+
+    for (const [tableKey, table] of Object.entries(schema.tables)) {
+        const foreignKeys = groupForeignKeys(schema, table);
+        for (const foreignKey of foreignKeys) {
+            const referencedKey = foreignKey[0].foreignKey!.table;
+            const referenced = schema.tables[referencedKey];
+            const referencedForeignKeys = groupForeignKeys(schema, referenced);
+            const stem = foreignKeyStem(foreignKey, foreignKeys);
+            const isAmbiguous = referencedKey === tableKey ||
+                foreignKeys.filter(fk => fk[0].foreignKey!.table === referencedKey).length > 1;
+            const relationName = isAmbiguous ? `, relationName: ${toStringLiteral(`${table.name}_${stem}`)}` : '';
+
+            const ownVariable = tableVariables.get(tableKey)!;
+            const referencedVariable = tableVariables.get(referencedKey)!;
+            const columns = foreignKey.map(column => `${ownVariable}.${toScalarFieldName(column, foreignKeys)}`);
+            const references = foreignKey.map(column => `${referencedVariable}.${toScalarFieldName(referenced.columns[column.foreignKey!.column], referencedForeignKeys)}`);
+            add(tableKey, {
+                name: toCamelCase(stem),
+                definition: `one(${referencedVariable}, { fields: [${columns.join(', ')}], references: [${references.join(', ')}]${relationName} })`,
+            });
+
+            // Named back-relations prefix the FK's role so several can coexist (createdByPosts)
+            const oneToOne = isOneToOneForeignKey(table, foreignKey);
+            const backName = oneToOne ? toSingular(table.name) : table.name;
+            add(referencedKey, {
+                name: isAmbiguous ? `${toCamelCase(stem)}${toPascalCase(backName)}` : toCamelCase(backName),
+                definition: isAmbiguous
+                    ? `${oneToOne ? 'one' : 'many'}(${ownVariable}, { relationName: ${toStringLiteral(`${table.name}_${stem}`)} })`
+                    : `${oneToOne ? 'one' : 'many'}(${ownVariable})`,
+            });
+        }
+    }
+
+    return fields;
+}
+
+function generateRelations(tableKey: string, relationFields: RelationField[], context: DrizzleContext): string {
+    context.ormImports.add('relations');
+    const variable = context.tableVariables.get(tableKey)!;
+    const helpers = ['one', 'many'].filter(helper => relationFields.some(field => field.definition.startsWith(`${helper}(`)));
+    return [
+        `export const ${variable}Relations = relations(${variable}, ({ ${helpers.join(', ')} }) => ({`,
+        ...relationFields.map(field => `  ${field.name}: ${field.definition},`),
+        '}));',
+    ].join('\n');
+}
+
+/**
+ * Generates a Drizzle ORM schema.ts for PostgreSQL: pgEnum, pgSequence and pgSchema
+ * declarations, one pgTable per table (in FK order), views and relations() blocks.
+ *
+ * Row-level security, roles, extensions and partitioning are left to the SQL export
+ * and listed in a closing comment.
+ */
+export function generateDrizzleSchema(schema: NormalizedSchema): string {
+    validateSchemaForGeneration(schema);
+
+    const context: DrizzleContext = {
+        schema,
+        tableVariables: buildTableVariables(schema),
+        declared: new Set(),
+        imports: new Set(),
+        ormImports: new Set(),
+        customTypes: new Set(),
+    };
+
+    const declarations: string[] = [];
+
+    const namespaces = new Set(
+        [...Object.values(schema.tables), ...Object.values(schema.views || {})]
+            .map(relation => relation.namespace)
+            .filter((namespace): namespace is string => Boolean(namespace))
+    );
+    for (const namespace of [...namespaces].sort()) {
+        context.imports.add('pgSchema');
+        declarations.push(`export const ${toSchemaVariable(namespace)} = pgSchema(${toStringLiteral(namespace)});`);
+    }
+
+    // Enums are always created in the default namespace
+    for (const enumType of Object.values(schema.enums || {})) {
+        context.imports.add('pgEnum');
+        const values = enumType.values.map(toStringLiteral).join(', ');
+        declarations.push(`export const ${toEnumVariable(enumType.name)} = pgEnum(${toStringLiteral(enumType.name)}, [${values}]);`);
+    }
+
+    for (const sequence of Object.values(schema.sequences || {})) {
+        context.imports.add('pgSequence');
+        const options: string[] = [];
+        if (sequence.start !== undefined) {
+            options.push(`startWith: ${sequence.start}`);
+        }
+        if (sequence.increment !== undefined) {
+            options.push(`increment: ${sequence.increment}`);
+        }
+        const args = [toStringLiteral(sequence.name), ...(options.length > 0 ? [`{ ${options.join(', ')} }`] : [])];
+        declarations.push(`export const ${toCamelCase(sequence.name)} = pgSequence(${args.join(', ')});`);
+    }
+
+    const orderedTables = orderTables(schema);
+    const tables: string[] = [];
+    for (const tableKey of orderedTables) {
+        if (schema.tables[tableKey]) {
+            tables.push(generateTable(tableKey, schema.tables[tableKey], context));
+        }
+    }
+    for (const viewName of orderedTables.filter(name => schema.views?.[name] && !schema.tables[name])) {
+        tables.push(generateView(schema.views![viewName], context));
+    }
+
+    const relationFields = buildRelations(context);
+    const relationBlocks = orderedTables
+        .filter(tableKey => relationFields.has(tableKey))
+        .map(tableKey => generateRelations(tableKey, relationFields.get(tableKey)!, context));
+
+    const customTypes = [...context.customTypes].sort().map(base => {
+        const { data, sql } = CUSTOM_TYPES[base];
+        return `const ${base} = customType<{ data: ${data} }>({\n  dataType() {\n    return '${sql}';\n  },\n});`;
+    });
+    if (customTypes.length > 0) {
+        context.imports.add('customType');
+    }
+
+    // AnyPgColumn is a type; the rest are values
+    const coreImports = [...context.imports].sort().map(name => name === 'AnyPgColumn' ? 'type AnyPgColumn' : name);
+    const importLines: string[] = [];
+    if (context.ormImports.size > 0) {
+        importLines.push(`import { ${[...context.ormImports].sort().join(', ')} } from 'drizzle-orm';`);
+    }
+    importLines.push(`import { ${coreImports.join(', ')} } from 'drizzle-orm/pg-core';`);
+
+    const blocks = [importLines.join('\n'), ...customTypes, ...declarations, ...tables, ...relationBlocks];
+
+    // Drizzle can declare these, but not from what the canvas stores; the SQL export has them
+    const notes: string[] = [];
+    for (const [tableKey, table] of Object.entries(schema.tables)) {
+        if (table.rowLevelSecurity || (table.policies || []).length > 0) {
+            notes.push(`row-level security on ${tableKey}`);
+        }
+        if (table.partitioning) {
+            notes.push(`partitioning of ${tableKey}`);
+        }
+    }
+    if (Object.keys(schema.roles || {}).length > 0) {
+        notes.push('roles and privileges');
+    }
+    if ((schema.extensions || []).length > 0) {
+        notes.push(`extensions (${schema.extensions!.join(', ')})`);
+    }
+    if (notes.length > 0) {
+        blocks.push(`// Not part of this schema; apply them from the PostgreSQL export:\n${notes.map(note => `//   ${note}`).join('\n')}`);
+    }
+
+    return `${blocks.join('\n\n')}\n`;
+}
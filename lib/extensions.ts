@@ -0,0 +1,117 @@
+/**
+ * PostgreSQL extension registry
+ *
+ * Extensions a project can declare in its settings, plus the rules that infer
+ * extensions from what the schema uses: column types from the type registry,
+ * UUID defaults, trigram indexes and well-known functions in expressions.
+ * The SQL and Prisma generators emit the union of declared and inferred extensions.
+ */
+
+import { NormalizedSchema } from './schemaNormalizer';
+import { TYPE_REGISTRY } from './columnTypes';
+
+export interface ExtensionDefinition {
+    name: string;
+    description: string;
+}
+
+/**
+ * Extensions the settings panel offers, in the order it lists them
+ */
+export const KNOWN_EXTENSIONS: ExtensionDefinition[] = [
+    { name: 'pgcrypto', description: 'gen_random_uuid(), crypt() and other cryptographic functions' },
+    { name: 'uuid-ossp', description: 'uuid_generate_v1() … uuid_generate_v5()' },
+    { name: 'citext', description: 'Case-insensitive text type' },
+    { name: 'pg_trgm', description: 'Trigram similarity and gin_trgm_ops / gist_trgm_ops indexes' },
+    { name: 'postgis', description: 'geometry type and ST_* spatial functions' },
+    { name: 'unaccent', description: 'unaccent() for accent-insensitive search' },
+    { name: 'btree_gist', description: 'GiST operator classes for scalar types, e.g. exclusion constraints' },
+];
+
+// Function calls that can only resolve once their extension is installed
+const EXTENSION_FUNCTIONS: { pattern: RegExp; extension: string }[] = [
+    { pattern: /\buuid_generate_v[1-5]\w*\s*\(/i, extension: 'uuid-ossp' },
+    { pattern: /\b(gen_random_uuid|gen_random_bytes|gen_salt|crypt|digest|hmac|pgp_sym_encrypt|pgp_sym_decrypt)\s*\(/i, extension: 'pgcrypto' },
+    { pattern: /\b(similarity|word_similarity|strict_word_similarity|show_trgm)\s*\(/i, extension: 'pg_trgm' },
+    { pattern: /\bst_\w+\s*\(/i, extension: 'postgis' },
+    { pattern: /\bunaccent\s*\(/i, extension: 'unaccent' },
+];
+
+/**
+ * Extension names are SQL identifiers, except that some (uuid-ossp) contain hyphens
+ */
+export function isValidExtensionName(name: string): boolean {
+    return /^[a-z][a-z0-9_-]*$/.test(name);
+}
+
+/**
+ * Extensions the schema needs but may not declare, each with the first thing found that
+ * needs it (e.g. "users.email is citext")
+ *
+ * @param clientUuids - UUID defaults are generated by the client (Prisma's uuid()), not gen_random_uuid()
+ */
+export function inferExtensions(schema: NormalizedSchema, clientUuids: boolean = false): Record<string, string> {
+    const inferred: Record<string, string> = {};
+    const requireExtension = (extension: string, reason: string) => {
+        if (!inferred[extension]) {
+            inferred[extension] = reason;
+        }
+    };
+    const scan = (expression: string | undefined, reason: string) => {
+        for (const { pattern, extension } of EXTENSION_FUNCTIONS) {
+            if (expression && pattern.test(expression)) {
+                requireExtension(extension, reason);
+            }
+        }
+    };
+
+    for (const [tableName, table] of Object.entries(schema.tables)) {
+        for (const column of Object.values(table.columns)) {
+            const typeExtension = TYPE_REGISTRY[column.type.base]?.extension;
+            if (typeExtension) {
+                requireExtension(typeExtension, `${tableName}.${column.name} is ${column.type.base}`);
+            }
+            // gen_random_uuid() is built in from PostgreSQL 13; older servers need pgcrypto
+            if (column.default?.kind === 'uuid' && !clientUuids) {
+                requireExtension('pgcrypto', `${tableName}.${column.name} defaults to gen_random_uuid()`);
+            }
+            if (column.default?.kind === 'expression') {
+                scan(column.default.value, `${tableName}.${column.name} default`);
+            }
+            scan(column.generated, `${tableName}.${column.name} generated expression`);
+            scan(column.check?.expression, `${tableName}.${column.name} check`);
+        }
+        for (const index of table.indexes || []) {
+            if (index.trigram) {
+                requireExtension('pg_trgm', `index ${index.name} uses trigram operators`);
+            }
+        }
+        for (const check of table.checks || []) {
+            scan(check.expression, `check ${check.name}`);
+        }
+        for (const policy of table.policies || []) {
+            scan(policy.using, `policy ${policy.name}`);
+            scan(policy.withCheck, `policy ${policy.name}`);
+        }
+    }
+
+    for (const [viewName, view] of Object.entries(schema.views || {})) {
+        for (const column of Object.values(view.columns)) {
+            const typeExtension = TYPE_REGISTRY[column.type.base]?.extension;
+            if (typeExtension) {
+                requireExtension(typeExtension, `${viewName}.${column.name} is ${column.type.base}`);
+            }
+        }
+        scan(view.query, `view ${viewName}`);
+    }
+
+    return inferred;
+}
+
+/**
+ * Every extension the generated schema needs: declared and inferred, sorted by name
+ */
+export function requiredExtensions(schema: NormalizedSchema, clientUuids: boolean = false): string[] {
+    const extensions = new Set([...(schema.extensions || []), ...Object.keys(inferExtensions(schema, clientUuids))]);
+    return [...extensions].sort();
+}
@@ -1,4 +1,4 @@
-import { NormalizedSchema, NormalizedColumn } from './schemaNormalizer';
+import { NormalizedSchema, groupForeignKeys } from './schemaNormalizer';
 
 /**
  * Validation error for generator operations
@@ -12,9 +12,11 @@ export class GeneratorValidationError extends Error {
 
 /**
  * Validates that all foreign keys in the schema follow the correct rules:
- * 1. FK metadata exists ONLY on non-PK columns
- * 2. FK metadata ALWAYS references a PK column
- * 3. FK target table and column exist
+ * 1. FK metadata ALWAYS references a PK column
+ * 2. FK target table and column exist
+ * 3. Composite FKs map every column of the referenced PK exactly once
+ *
+ * FK columns may themselves be part of the primary key, as in join tables.
  * 
  * @throws GeneratorValidationError if validation fails
  */
@@ -36,15 +38,7 @@ export function validateForeignKeys(schema: NormalizedSchema): void {
     // Validate all FK constraints
     for (const [tableName, table] of Object.entries(schema.tables)) {
         for (const [columnName, column] of Object.entries(table.columns)) {
-            // Check #1: FK metadata should NOT be on PK columns
-            if (column.foreignKey && column.primaryKey) {
-                errors.push(
-                    `CRITICAL: Column '${columnName}' in table '${tableName}' is marked as PRIMARY KEY but has foreignKey metadata. ` +
-                    `Foreign keys can only exist on non-primary key columns.`
-                );
-            }
-
-            // Check #2 & #3: If FK exists, validate the target
+            // Check #1 & #2: If FK exists, validate the target
             if (column.foreignKey) {
                 const { table: refTable, column: refColumn } = column.foreignKey;
 
@@ -75,6 +69,55 @@ export function validateForeignKeys(schema: NormalizedSchema): void {
                 }
             }
         }
+
+        // Check #3: Each FK (single or composite) covers the whole referenced PK
+        for (const foreignKey of groupForeignKeys(schema, table)) {
+            const refTable = foreignKey[0].foreignKey!.table;
+            const refPks = pkColumns.get(refTable);
+            const refColumns = foreignKey.map(column => column.foreignKey!.column);
+            if (!refPks || refColumns.some(column => !refPks.has(column))) {
+                continue; // Already reported above
+            }
+            if (new Set(refColumns).size !== refColumns.length || refColumns.length !== refPks.size) {
+                errors.push(
+                    `FK ERROR: Foreign key (${foreignKey.map(c => c.name).join(', ')}) in table '${tableName}' references ` +
+                    `(${refColumns.join(', ')}) in table '${refTable}', but its primary key is (${[...refPks].join(', ')})`
+                );
+            }
+        }
+    }
+
+    if (errors.length > 0) {
+        throw new GeneratorValidationError(
+            `Schema validation failed with ${errors.length} error(s):\n\n` +
+            errors.map((err, i) => `${i + 1}. ${err}`).join('\n')
+        );
+    }
+}
+
+/**
+ * Validates that every index references columns that exist on its table
+ * 
+ * @throws GeneratorValidationError if validation fails
+ */
+export function validateIndexes(schema: NormalizedSchema): void {
+    const errors: string[] = [];
+
+    for (const [tableName, table] of Object.entries(schema.tables)) {
+        for (const index of table.indexes || []) {
+            if (index.columns.length === 0) {
+                errors.push(`INDEX ERROR: Index '${index.name}' on table '${tableName}' has no columns`);
+                continue;
+            }
+
+            for (const columnName of index.columns) {
+                if (!table.columns[columnName]) {
+                    errors.push(
+                        `INDEX ERROR: Index '${index.name}' on table '${tableName}' references non-existent column '${columnName}'`
+                    );
+                }
+            }
+        }
     }
 
     if (errors.length > 0) {
@@ -94,5 +137,8 @@ export function validateSchemaForGeneration(schema: NormalizedSchema): void {
     // Validate FK constraints
     validateForeignKeys(schema);
 
+    // Validate index column references
+    validateIndexes(schema);
+
     // Add more validations here as needed
 }
@@ -0,0 +1,58 @@
+/**
+ * Identifier naming helpers shared by the store and the code generators
+ */
+
+export function toPascalCase(name: string): string {
+    return name
+        .split('_')
+        .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+        .join('');
+}
+
+export function toCamelCase(name: string): string {
+    const pascal = toPascalCase(name);
+    return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+}
+
+/**
+ * Naive English singular, good enough for conventional table names (users, categories, addresses)
+ */
+export function toSingular(name: string): string {
+    if (name.length <= 1) {
+        return name;
+    }
+
+    if (name.endsWith('ss')) {
+        return name;
+    }
+
+    if (name.endsWith('ies')) {
+        return name.slice(0, -3) + 'y';
+    }
+
+    if (name.endsWith('ves')) {
+        return name.slice(0, -3) + 'f';
+    }
+
+    if (name.endsWith('ses')) {
+        return name.slice(0, -2);
+    }
+
+    if (name.endsWith('xes')) {
+        return name.slice(0, -2);
+    }
+
+    if (name.endsWith('ches')) {
+        return name.slice(0, -2);
+    }
+
+    if (name.endsWith('shes')) {
+        return name.slice(0, -2);
+    }
+
+    if (name.endsWith('s')) {
+        return name.slice(0, -1);
+    }
+
+    return name;
+}
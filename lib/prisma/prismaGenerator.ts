@@ -1,104 +1,158 @@
-import { NormalizedSchema, NormalizedColumn } from '../schemaNormalizer';
+import { NormalizedSchema, NormalizedColumn, NormalizedTable, NormalizedIndex, NormalizedEnum, NormalizedCheck, NormalizedSequence, NormalizedView, NormalizedViewColumn, DEFAULT_NAMESPACE, defaultIndexName, groupForeignKeys, isOneToOneForeignKey, qualifiedTableName } from '../schemaNormalizer';
+import { IndexMethod, ReferentialAction } from '@/store/schemaStore';
+import { ColumnType, TYPE_REGISTRY, parseLiteral } from '../columnTypes';
 import { validateSchemaForGeneration } from '../generatorValidation';
+import { requiredExtensions } from '../extensions';
+import { toPascalCase, toCamelCase, toSingular } from '../naming';
 
-function toPascalCase(name: string): string {
-    return name
-        .split('_')
-        .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
-        .join('');
+export function toModelName(tableName: string): string {
+    const words = tableName.split('_');
+    const singularWords = words.map(word => toSingular(word));
+    const singularTableName = singularWords.join('_');
+    return toPascalCase(singularTableName);
 }
 
-function toCamelCase(name: string): string {
-    const pascal = toPascalCase(name);
-    return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+export function toBackRelationName(tableName: string): string {
+    return toCamelCase(tableName);
 }
 
-function toSingular(name: string): string {
-    if (name.length <= 1) {
-        return name;
-    }
+function mapTypeToPrisma(columnType: ColumnType): string {
+    return TYPE_REGISTRY[columnType.base]?.prisma || columnType.base;
+}
 
-    if (name.endsWith('ss')) {
-        return name;
+/**
+ * Native type attribute (e.g. @db.VarChar(255)) for types whose Prisma default mapping differs
+ */
+function mapTypeToPrismaNative(columnType: ColumnType): string | null {
+    const nativeType = TYPE_REGISTRY[columnType.base]?.prismaNative;
+    if (!nativeType) {
+        return null;
     }
 
-    if (name.endsWith('ies')) {
-        return name.slice(0, -3) + 'y';
+    const args: number[] = [];
+    if (columnType.length !== undefined) {
+        args.push(columnType.length);
     }
-
-    if (name.endsWith('ves')) {
-        return name.slice(0, -3) + 'f';
+    if (columnType.precision !== undefined) {
+        args.push(columnType.precision);
+        if (columnType.scale !== undefined) {
+            args.push(columnType.scale);
+        }
     }
 
-    if (name.endsWith('ses')) {
-        return name.slice(0, -2);
-    }
+    return args.length > 0 ? `@db.${nativeType}(${args.join(', ')})` : `@db.${nativeType}`;
+}
 
-    if (name.endsWith('xes')) {
-        return name.slice(0, -2);
-    }
+function toEnumName(enumName: string): string {
+    return toPascalCase(enumName);
+}
 
-    if (name.endsWith('ches')) {
-        return name.slice(0, -2);
+/**
+ * Prisma enum values must be identifiers; other values are sanitized and mapped back with @map
+ */
+function toEnumValueName(value: string): string {
+    if (/^[A-Za-z][A-Za-z0-9_]*$/.test(value)) {
+        return value;
     }
+    const sanitized = value.replace(/[^A-Za-z0-9_]/g, '_');
+    return /^[A-Za-z]/.test(sanitized) ? sanitized : `V_${sanitized}`;
+}
 
-    if (name.endsWith('shes')) {
-        return name.slice(0, -2);
-    }
+function escapePrismaValue(value: string): string {
+    const escaped = value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+    return `"${escaped}"`;
+}
 
-    if (name.endsWith('s')) {
-        return name.slice(0, -1);
+/**
+ * Longest prefix the column names share, cut back to a word boundary (ret_region, ret_order_no → ret_)
+ */
+function sharedColumnPrefix(columns: NormalizedColumn[]): string {
+    let prefix = columns[0].name;
+    for (const column of columns) {
+        while (!column.name.startsWith(prefix)) {
+            prefix = prefix.slice(0, -1);
+        }
     }
-
-    return name;
+    return prefix.slice(0, prefix.lastIndexOf('_') + 1);
 }
 
-function toModelName(tableName: string): string {
-    const words = tableName.split('_');
-    const singularWords = words.map(word => toSingular(word));
-    const singularTableName = singularWords.join('_');
-    return toPascalCase(singularTableName);
-}
+/**
+ * Snake-case stem for a foreign key's relation: the column name without its _id suffix,
+ * or the singular referenced table for a composite key. Composite keys sharing that stem
+ * with another of the table's foreign keys are named after their columns instead: their
+ * shared prefix and the table (ret_region, ret_order_no → ret_order), or all column names.
+ *
+ * @param foreignKeys - Every foreign key of the table, as grouped by groupForeignKeys
+ */
+export function foreignKeyStem(foreignKey: NormalizedColumn[], foreignKeys: NormalizedColumn[][]): string {
+    // Candidate stems from most to least readable; the last is unique among composite keys
+    const candidates = (columns: NormalizedColumn[]): string[] => {
+        if (columns.length === 1) {
+            return [columns[0].name.replace(/_id$/, '')];
+        }
+        // Namespaced table keys ("sales.orders") contribute their bare name
+        const tableStem = toSingular(columns[0].foreignKey!.table.split('.').pop()!);
+        const prefix = sharedColumnPrefix(columns);
+        const columnStem = columns.map(column => column.name.replace(/_id$/, '')).join('_');
+        return [tableStem, prefix ? `${prefix}${tableStem}` : columnStem, columnStem];
+    };
 
-function toRelationName(tableName: string): string {
-    const singular = toSingular(tableName);
-    return toCamelCase(singular);
+    const own = candidates(foreignKey);
+    const others = foreignKeys.filter(other => other[0] !== foreignKey[0]).map(candidates);
+    for (let level = 0; level < own.length - 1; level++) {
+        if (!others.some(other => other[Math.min(level, other.length - 1)] === own[level])) {
+            return own[level];
+        }
+    }
+    return own[own.length - 1];
 }
 
-function toBackRelationName(tableName: string): string {
-    return toCamelCase(tableName);
+export function toForeignKeyFieldName(foreignKey: NormalizedColumn[], foreignKeys: NormalizedColumn[][]): string {
+    return toCamelCase(foreignKeyStem(foreignKey, foreignKeys));
 }
 
-function mapTypeToPrisma(schemaType: string): string {
-    const typeMap: Record<string, string> = {
-        'int': 'Int',
-        'varchar': 'String',
-        'text': 'String',
-        'boolean': 'Boolean',
-        'timestamp': 'DateTime',
-        'uuid': 'String',
-    };
-    return typeMap[schemaType.toLowerCase()] || schemaType;
+/**
+ * Scalar field for a column, suffixed with Id where it would clash with the relation field
+ * of its own foreign key (created_by → createdById)
+ *
+ * @param foreignKeys - Every foreign key of the column's table, as grouped by groupForeignKeys
+ */
+export function toScalarFieldName(column: NormalizedColumn, foreignKeys: NormalizedColumn[][]): string {
+    const fieldName = toCamelCase(column.name);
+    const foreignKey = foreignKeys.find(fk => fk.includes(column));
+    if (foreignKey && fieldName === toForeignKeyFieldName(foreignKey, foreignKeys)) {
+        return fieldName + 'Id';
+    }
+    return fieldName;
 }
 
-function escapePrismaValue(value: string): string {
-    const escaped = value.replace(/"/g, '\\"');
-    return `"${escaped}"`;
+/**
+ * Renders a literal default for its field type: numbers and booleans bare, enum defaults as
+ * the enum member, everything else as a string. Unparseable literals stay strings.
+ */
+function generateLiteralDefault(column: NormalizedColumn, value: string): string {
+    if (column.type.base === 'enum') {
+        return toEnumValueName(value);
+    }
+    const literal = parseLiteral(column.type, value);
+    if (literal?.kind === 'number') {
+        return literal.value;
+    }
+    if (literal?.kind === 'boolean') {
+        return String(literal.value);
+    }
+    return escapePrismaValue(literal?.value ?? value);
 }
 
-function generateScalarField(column: NormalizedColumn, isCompositePK: boolean = false): string {
-    let fieldName: string;
-
-    if (column.foreignKey) {
-        const targetModelName = toModelName(column.foreignKey.table);
-        fieldName = toCamelCase(targetModelName) + 'Id';
-    } else {
-        fieldName = toCamelCase(column.name);
-    }
+function generateScalarField(column: NormalizedColumn, foreignKeys: NormalizedColumn[][], isCompositePK: boolean = false): string {
+    const fieldName = toScalarFieldName(column, foreignKeys);
 
-    const prismaType = mapTypeToPrisma(column.type);
-    const nullable = column.nullable ? '?' : '';
-    const parts: string[] = [fieldName, `${prismaType}${nullable}`];
+    const prismaType = column.type.base === 'enum' && column.enum
+        ? toEnumName(column.enum)
+        : mapTypeToPrisma(column.type);
+    // Prisma lists cannot be optional, so arrays drop the nullable marker
+    const modifier = column.type.array ? '[]' : column.nullable ? '?' : '';
+    const parts: string[] = [fieldName, `${prismaType}${modifier}`];
 
     if (fieldName !== column.name || column.foreignKey) {
         parts.push(`@map("${column.name}")`);
@@ -111,52 +165,166 @@ function generateScalarField(column: NormalizedColumn, isCompositePK: boolean =
         parts.push('@unique');
     }
 
-    if (column.default) {
-        if (column.default.kind === 'autoincrement') {
+    // Prisma cannot express generated columns; dbgenerated() keeps the client from requiring a value
+    if (column.generated) {
+        parts.push('@default(dbgenerated())');
+    } else if (column.default) {
+        // Prisma has no identity attribute; it introspects identity columns as autoincrement() too
+        if (column.default.kind === 'autoincrement' || column.default.kind === 'identity') {
             parts.push('@default(autoincrement())');
+        } else if (column.default.kind === 'sequence' && column.default.sequence) {
+            parts.push(`@default(dbgenerated("nextval('${column.default.sequence}'::regclass)"))`);
         } else if (column.default.kind === 'uuid') {
             parts.push('@default(uuid())');
         } else if (column.default.kind === 'now') {
             parts.push('@default(now())');
+        } else if (column.default.kind === 'value' && column.default.value !== undefined && prismaType.startsWith('Unsupported(')) {
+            // Unsupported fields only accept database-side defaults
+            parts.push(`@default(dbgenerated(${escapePrismaValue(`'${column.default.value.replace(/'/g, "''")}'`)}))`);
         } else if (column.default.kind === 'value' && column.default.value !== undefined) {
-            parts.push(`@default(${escapePrismaValue(column.default.value)})`);
+            parts.push(`@default(${generateLiteralDefault(column, column.default.value)})`);
+        } else if (column.default.kind === 'expression' && column.default.value) {
+            parts.push(`@default(dbgenerated(${escapePrismaValue(column.default.value.trim())}))`);
         }
     }
 
+    // Prisma sets @updatedAt fields itself; the SQL export uses a trigger instead
+    if (column.autoUpdate) {
+        parts.push('@updatedAt');
+    }
+
+    const nativeType = mapTypeToPrismaNative(column.type);
+    if (nativeType) {
+        parts.push(nativeType);
+    }
+
     return parts.join(' ');
 }
 
+function mapReferentialActionToPrisma(action: ReferentialAction): string {
+    const actionMap: Record<ReferentialAction, string> = {
+        'CASCADE': 'Cascade',
+        'SET NULL': 'SetNull',
+        'SET DEFAULT': 'SetDefault',
+        'RESTRICT': 'Restrict',
+        'NO ACTION': 'NoAction',
+    };
+    return actionMap[action];
+}
+
 function generateRelationField(
-    column: NormalizedColumn,
-    referencedTableName: string
+    foreignKey: NormalizedColumn[],
+    foreignKeys: NormalizedColumn[][],
+    schema: NormalizedSchema,
+    relationName?: string
 ): string {
-    const fieldName = toRelationName(referencedTableName);
+    const { table: referencedTableName, onDelete, onUpdate } = foreignKey[0].foreignKey!;
+    const fieldName = toForeignKeyFieldName(foreignKey, foreignKeys);
     const modelName = toModelName(referencedTableName);
 
-    const scalarFieldName = toCamelCase(modelName) + 'Id';
+    const referencedTable = schema.tables[referencedTableName];
+    const referencedForeignKeys = groupForeignKeys(schema, referencedTable);
+    const fields = foreignKey.map(column => toScalarFieldName(column, foreignKeys)).join(', ');
+    const references = foreignKey
+        .map(column => toScalarFieldName(referencedTable.columns[column.foreignKey!.column], referencedForeignKeys))
+        .join(', ');
+    const args: string[] = [`fields: [${fields}]`, `references: [${references}]`];
+    if (relationName) {
+        args.unshift(`"${relationName}"`);
+    }
+
+    if (onDelete) {
+        args.push(`onDelete: ${mapReferentialActionToPrisma(onDelete)}`);
+    }
+    if (onUpdate) {
+        args.push(`onUpdate: ${mapReferentialActionToPrisma(onUpdate)}`);
+    }
+
+    // A nullable FK (required for SET NULL) makes the relation itself optional
+    const optional = foreignKey.some(column => column.nullable) ? '?' : '';
+
+    return `${fieldName} ${modelName}${optional} @relation(${args.join(', ')})`;
+}
+
+/**
+ * Field name of a back-relation on the referenced model: the referencing table (posts), singular
+ * for one-to-one. Named relations prefix the FK's role so several can coexist (createdByPosts).
+ */
+export function toBackRelationFieldName(relation: RelationInfo): string {
+    const prefix = relation.name ? relation.fieldName : '';
+    const suffix = relation.name ? toPascalCase : toCamelCase;
+    return `${prefix}${suffix(relation.oneToOne ? toSingular(relation.tableName) : relation.tableName)}`;
+}
 
-    return `${fieldName} ${modelName} @relation(fields: [${scalarFieldName}], references: [id])`;
+function generateBackRelationField(relation: RelationInfo): string {
+    const modelName = toModelName(relation.tableName);
+    const fieldName = toBackRelationFieldName(relation);
+    const relationAttribute = relation.name ? ` @relation("${relation.name}")` : '';
+
+    // Prisma requires the side without the FK of a one-to-one relation to be optional
+    if (relation.oneToOne) {
+        return `${fieldName} ${modelName}?${relationAttribute}`;
+    }
+    return `${fieldName} ${modelName}[]${relationAttribute}`;
 }
 
-function generateBackRelationField(tableName: string, modelName: string): string {
-    const fieldName = toBackRelationName(tableName);
-    return `${fieldName} ${modelName}[]`;
+/**
+ * A FK relation as seen from the referenced model
+ */
+export interface RelationInfo {
+    tableName: string; // Table holding the FK columns
+    foreignKey: NormalizedColumn[];
+    fieldName: string; // Relation field on the model holding the FK
+    oneToOne: boolean;
+    name?: string; // Set when Prisma needs the relation disambiguated
 }
 
-function buildRelationMap(schema: NormalizedSchema): Map<string, string[]> {
-    const relationMap = new Map<string, string[]>();
+export function isImplicitJoinTable(table: NormalizedTable): boolean {
+    return table.joinTable?.prismaMode === 'implicit';
+}
+
+/**
+ * Collect FK relations keyed by referenced table, naming those Prisma cannot tell apart:
+ * several FKs between the same two tables, and self-references
+ */
+export function buildRelationMap(schema: NormalizedSchema): Map<string, RelationInfo[]> {
+    const relationMap = new Map<string, RelationInfo[]>();
 
     for (const [tableName, table] of Object.entries(schema.tables)) {
-        for (const column of Object.values(table.columns)) {
-            if (column.foreignKey) {
-                const referencedTable = column.foreignKey.table;
-                if (!relationMap.has(referencedTable)) {
-                    relationMap.set(referencedTable, []);
-                }
-                const referencingTables = relationMap.get(referencedTable)!;
-                if (!referencingTables.includes(tableName)) {
-                    referencingTables.push(tableName);
-                }
+        // Implicit join tables have no model to point back to
+        if (isImplicitJoinTable(table)) {
+            continue;
+        }
+
+        const foreignKeys = groupForeignKeys(schema, table);
+        for (const foreignKey of foreignKeys) {
+            const referencedTable = foreignKey[0].foreignKey!.table;
+            const isAmbiguous = referencedTable === tableName ||
+                foreignKeys.filter(fk => fk[0].foreignKey!.table === referencedTable).length > 1;
+
+            if (!relationMap.has(referencedTable)) {
+                relationMap.set(referencedTable, []);
+            }
+            relationMap.get(referencedTable)!.push({
+                tableName,
+                foreignKey,
+                fieldName: toForeignKeyFieldName(foreignKey, foreignKeys),
+                oneToOne: isOneToOneForeignKey(table, foreignKey),
+                name: isAmbiguous ? toPascalCase(foreignKeyStem(foreignKey, foreignKeys)) : undefined,
+            });
+        }
+    }
+
+    // Relation names must be unique per model, so prefix names shared by several source tables
+    for (const relations of relationMap.values()) {
+        const sharedNames = new Set(
+            relations
+                .filter(r => r.name && relations.some(other => other.name === r.name && other.tableName !== r.tableName))
+                .map(r => r.name)
+        );
+        for (const relation of relations) {
+            if (relation.name && sharedNames.has(relation.name)) {
+                relation.name = toModelName(relation.tableName) + relation.name;
             }
         }
     }
@@ -164,13 +332,272 @@ function buildRelationMap(schema: NormalizedSchema): Map<string, string[]> {
     return relationMap;
 }
 
+/**
+ * List fields each implicit join table contributes to the models on either side.
+ * The relation is named after the join table, so Prisma manages it as _{join_table}.
+ */
+function buildManyToManyFields(schema: NormalizedSchema): Map<string, string[]> {
+    const fieldsMap = new Map<string, string[]>();
+
+    for (const [tableName, table] of Object.entries(schema.tables)) {
+        if (!isImplicitJoinTable(table)) {
+            continue;
+        }
+
+        const keys = Object.values(table.columns).filter(c => c.foreignKey);
+        if (keys.length !== 2) {
+            continue;
+        }
+
+        // Self-relations put both fields on one model, so name them after the opposite column
+        const isSelfRelation = keys[0].foreignKey!.table === keys[1].foreignKey!.table;
+        for (const [key, otherKey] of [[keys[0], keys[1]], [keys[1], keys[0]]]) {
+            const ownTable = key.foreignKey!.table;
+            const otherTable = otherKey.foreignKey!.table;
+            const fieldName = isSelfRelation
+                ? toCamelCase(otherKey.name.replace(/_id$/, '')) + 's'
+                : toBackRelationName(otherTable);
+
+            if (!fieldsMap.has(ownTable)) {
+                fieldsMap.set(ownTable, []);
+            }
+            fieldsMap.get(ownTable)!.push(`${fieldName} ${toModelName(otherTable)}[] @relation("${tableName}")`);
+        }
+    }
+
+    return fieldsMap;
+}
+
+function mapIndexMethodToPrisma(method: IndexMethod): string {
+    const methodMap: Record<IndexMethod, string> = {
+        'btree': 'BTree',
+        'hash': 'Hash',
+        'gin': 'Gin',
+        'gist': 'Gist',
+        'brin': 'Brin',
+    };
+    return methodMap[method];
+}
+
+function generateIndexAttribute(tableName: string, table: NormalizedTable, foreignKeys: NormalizedColumn[][], index: NormalizedIndex): string {
+    const fieldNames = index.columns
+        .map(name => toScalarFieldName(table.columns[name], foreignKeys))
+        .map(fieldName => index.trigram ? `${fieldName}(ops: raw("${index.method}_trgm_ops"))` : fieldName)
+        .join(', ');
+    const args: string[] = [`[${fieldNames}]`];
+
+    // Only map the name when it differs from the one Prisma would derive itself
+    if (index.name !== defaultIndexName(table.name, index.columns, index.unique)) {
+        args.push(`map: "${index.name}"`);
+    }
+    if (index.method !== 'btree') {
+        args.push(`type: ${mapIndexMethodToPrisma(index.method)}`);
+    }
+
+    return index.unique ? `@@unique(${args.join(', ')})` : `@@index(${args.join(', ')})`;
+}
+
+/**
+ * All CHECK constraints of a table, column-level first, in declaration order
+ */
+function collectChecks(table: NormalizedTable): NormalizedCheck[] {
+    const columnChecks = Object.values(table.columns)
+        .map(column => column.check)
+        .filter((check): check is NormalizedCheck => check !== undefined);
+    return [...columnChecks, ...(table.checks || [])];
+}
+
+/**
+ * Row-level security statements for a table, one line each, as Prisma cannot express RLS
+ */
+function collectRowLevelSecurity(sqlTableName: string, table: NormalizedTable): string[] {
+    const statements: string[] = [];
+    if (table.rowLevelSecurity) {
+        statements.push(`ALTER TABLE ${sqlTableName} ENABLE ROW LEVEL SECURITY;`);
+    }
+    if (table.rowLevelSecurity === 'forced') {
+        statements.push(`ALTER TABLE ${sqlTableName} FORCE ROW LEVEL SECURITY;`);
+    }
+    for (const policy of table.policies || []) {
+        const clauses = [
+            `FOR ${policy.command}`,
+            policy.roles.length > 0 ? `TO ${policy.roles.join(', ')}` : '',
+            policy.using ? `USING (${policy.using})` : '',
+            policy.withCheck ? `WITH CHECK (${policy.withCheck})` : '',
+        ].filter(Boolean).join(' ');
+        statements.push(`CREATE POLICY ${policy.name} ON ${sqlTableName} ${clauses};`);
+    }
+    return statements;
+}
+
+/**
+ * Prisma has no CHECK constraint support, so they are emitted as a raw-SQL
+ * snippet to paste into a migration created with `prisma migrate dev --create-only`
+ */
+function generateRawSqlSnippet(statements: string[]): string {
+    const lines = [
+        '// The statements below cannot be expressed in Prisma schema.',
+        '// Create an empty migration with `npx prisma migrate dev --create-only`',
+        '// and append them to its migration.sql:',
+        '//',
+        ...statements.map(statement => `// ${statement}`),
+    ];
+    return lines.join('\n');
+}
+
+/**
+ * Prisma cannot create standalone sequences, and the tables whose defaults call nextval()
+ * fail to create without them, so these go at the top of the migration instead
+ */
+function generateSequenceSnippet(sequences: NormalizedSequence[]): string {
+    const lines = [
+        '// Prisma does not create sequences. Generate the migration with',
+        '// `npx prisma migrate dev --create-only` and add these lines',
+        '// to the top of its migration.sql:',
+        '//',
+        ...sequences.map(sequence => {
+            const options = [
+                sequence.start !== undefined ? `START WITH ${sequence.start}` : '',
+                sequence.increment !== undefined ? `INCREMENT BY ${sequence.increment}` : '',
+            ].filter(Boolean).join(' ');
+            return `// CREATE SEQUENCE ${sequence.name}${options ? ` ${options}` : ''};`;
+        }),
+    ];
+    return lines.join('\n');
+}
+
+/**
+ * Whether any table or view lives outside the default namespace, which makes Prisma's
+ * multiSchema setup (and @@schema on every model, view and enum) necessary
+ */
+function usesNamespaces(schema: NormalizedSchema): boolean {
+    return [...Object.values(schema.tables), ...Object.values(schema.views || {})].some(relation => relation.namespace);
+}
+
+/**
+ * Prisma derives model and field names from table keys, so namespaced tables ("auth.users")
+ * are re-keyed by their bare name, prefixed with the namespace only where several
+ * namespaces share that name ("auth_users"). FK references follow the new keys.
+ */
+export function rekeyNamespacedTables(schema: NormalizedSchema): NormalizedSchema {
+    const entries = Object.entries(schema.tables);
+    const keys = new Map<string, string>();
+    for (const [tableKey, table] of entries) {
+        const shared = entries.some(([otherKey, other]) => otherKey !== tableKey && other.name === table.name);
+        keys.set(tableKey, shared && table.namespace ? `${table.namespace}_${table.name}` : table.name);
+    }
+
+    const tables: NormalizedSchema['tables'] = {};
+    for (const [tableKey, table] of entries) {
+        const columns: NormalizedTable['columns'] = {};
+        for (const [columnName, column] of Object.entries(table.columns)) {
+            columns[columnName] = column.foreignKey
+                ? { ...column, foreignKey: { ...column.foreignKey, table: keys.get(column.foreignKey.table) ?? column.foreignKey.table } }
+                : column;
+        }
+        tables[keys.get(tableKey)!] = { ...table, columns };
+    }
+    return { ...schema, tables };
+}
+
+/**
+ * Datasource entry for an extension; names that are not identifiers (uuid-ossp) are mapped
+ */
+function toPrismaExtension(extension: string): string {
+    if (/^[A-Za-z][A-Za-z0-9_]*$/.test(extension)) {
+        return extension;
+    }
+    return `${extension.replace(/[^A-Za-z0-9_]/g, '_')}(map: "${extension}")`;
+}
+
+/**
+ * Setup Prisma needs before @@schema, view blocks or extensions can be used, as a comment
+ * since the datasource and generator blocks already exist in the user's schema.prisma
+ */
+function generatePreviewFeatureSetup(schema: NormalizedSchema, multiSchema: boolean, extensions: string[]): string {
+    const hasViews = Object.keys(schema.views || {}).length > 0;
+    const hasExtensions = extensions.length > 0;
+    const features = [
+        multiSchema ? '"multiSchema"' : '',
+        hasViews ? '"views"' : '',
+        hasExtensions ? '"postgresqlExtensions"' : '',
+    ].filter(Boolean).join(', ');
+    const reasons = [
+        multiSchema ? 'tables span several PostgreSQL schemas' : '',
+        hasViews ? 'the schema defines views' : '',
+        hasExtensions ? 'the schema needs PostgreSQL extensions' : '',
+    ].filter(Boolean);
+    const reason = reasons.length > 1
+        ? `${reasons.slice(0, -1).join(', ')} and ${reasons[reasons.length - 1]}`
+        : reasons[0];
+    const datasource = multiSchema || hasExtensions;
+
+    const lines = [
+        `// ${reason.charAt(0).toUpperCase()}${reason.slice(1)}. Update your generator${datasource ? ' and datasource blocks' : ' block'}:`,
+        '//',
+        '// generator client {',
+        `//   previewFeatures = [${features}]`,
+        '// }',
+    ];
+
+    if (datasource) {
+        lines.push('//', '// datasource db {');
+        if (multiSchema) {
+            const namespaces = new Set(
+                [...Object.values(schema.tables), ...Object.values(schema.views || {})].map(relation => relation.namespace ?? DEFAULT_NAMESPACE)
+            );
+            // Enums are always created in the default namespace
+            if (Object.keys(schema.enums || {}).length > 0) {
+                namespaces.add(DEFAULT_NAMESPACE);
+            }
+            const schemas = [...namespaces].sort().map(namespace => `"${namespace}"`).join(', ');
+            lines.push(`//   schemas = [${schemas}]`);
+        }
+        if (hasExtensions) {
+            lines.push(`//   extensions = [${extensions.map(toPrismaExtension).join(', ')}]`);
+        }
+        lines.push('// }');
+    }
+    return lines.join('\n');
+}
+
+function generateEnum(enumType: NormalizedEnum, multiSchema: boolean = false): string {
+    const lines: string[] = [`enum ${toEnumName(enumType.name)} {`];
+
+    for (const value of enumType.values) {
+        const valueName = toEnumValueName(value);
+        lines.push(valueName !== value ? `  ${valueName} @map("${value}")` : `  ${value}`);
+    }
+
+    lines.push(`  @@map("${enumType.name}")`);
+    // Enums are always created in the default namespace
+    if (multiSchema) {
+        lines.push(`  @@schema("${DEFAULT_NAMESPACE}")`);
+    }
+    lines.push('}');
+
+    return lines.join('\n');
+}
+
+/**
+ * Prisma doc comment lines (///) for a description, one per line of text
+ */
+function generateDocComment(description: string | undefined, indent: string = ''): string[] {
+    if (!description) {
+        return [];
+    }
+    return description.split('\n').map(line => `${indent}/// ${line.trim()}`.trimEnd());
+}
+
 function generateModel(
     tableName: string,
-    table: { name: string; columns: { [key: string]: NormalizedColumn } },
-    relationMap: Map<string, string[]>
+    table: NormalizedTable,
+    relationMap: Map<string, RelationInfo[]>,
+    manyToManyFields: Map<string, string[]>,
+    schema: NormalizedSchema
 ): string {
     const modelName = toModelName(tableName);
-    const lines: string[] = [`model ${modelName} {`];
+    const lines: string[] = [...generateDocComment(table.description), `model ${modelName} {`];
 
     const scalarFields: string[] = [];
     const relationFields: string[] = [];
@@ -178,52 +605,184 @@ function generateModel(
 
     const pkColumns = Object.values(table.columns).filter(c => c.primaryKey);
     const isCompositePK = pkColumns.length > 1;
+    const foreignKeys = groupForeignKeys(schema, table);
 
     for (const column of Object.values(table.columns)) {
-        scalarFields.push(`  ${generateScalarField(column, isCompositePK)}`);
-
-        if (column.foreignKey) {
-            relationFields.push(
-                `  ${generateRelationField(column, column.foreignKey.table)}`
-            );
+        scalarFields.push(...generateDocComment(column.description, '  '));
+        if (column.generated) {
+            scalarFields.push(`  // ${column.name} is GENERATED ALWAYS AS (${column.generated}) STORED; Prisma cannot create it, so edit the migration by hand`);
         }
+        scalarFields.push(`  ${generateScalarField(column, foreignKeys, isCompositePK)}`);
     }
 
-    const referencingTables = relationMap.get(tableName) || [];
-    for (const refTableName of referencingTables) {
-        const refModelName = toModelName(refTableName);
-        backRelations.push(`  ${generateBackRelationField(refTableName, refModelName)}`);
+    for (const foreignKey of foreignKeys) {
+        const referencedTableName = foreignKey[0].foreignKey!.table;
+        const relation = relationMap.get(referencedTableName)
+            ?.find(r => r.tableName === tableName && r.foreignKey[0] === foreignKey[0]);
+        relationFields.push(
+            `  ${generateRelationField(foreignKey, foreignKeys, schema, relation?.name)}`
+        );
+    }
+
+    for (const relation of relationMap.get(tableName) || []) {
+        backRelations.push(`  ${generateBackRelationField(relation)}`);
+    }
+
+    for (const field of manyToManyFields.get(tableName) || []) {
+        backRelations.push(`  ${field}`);
     }
 
     const allFields = [...scalarFields, ...relationFields, ...backRelations];
     lines.push(...allFields);
 
-    lines.push(`  @@map("${tableName}")`);
+    lines.push(`  @@map("${table.name}")`);
+    if (usesNamespaces(schema)) {
+        lines.push(`  @@schema("${table.namespace ?? DEFAULT_NAMESPACE}")`);
+    }
 
     if (isCompositePK) {
-        const pkFieldNames = pkColumns.map(c => toCamelCase(c.name)).join(', ');
+        const pkFieldNames = pkColumns.map(c => toScalarFieldName(c, foreignKeys)).join(', ');
         lines.push(`  @@id([${pkFieldNames}])`);
     }
 
+    for (const index of table.indexes || []) {
+        lines.push(`  ${generateIndexAttribute(tableName, table, foreignKeys, index)}`);
+    }
+
+    for (const check of collectChecks(table)) {
+        lines.push(`  // CHECK ${check.name}: ${check.expression}`);
+    }
+
+    lines.push('}');
+
+    return lines.join('\n');
+}
+
+function generateViewField(column: NormalizedViewColumn): string {
+    const fieldName = toCamelCase(column.name);
+    const prismaType = column.type.base === 'enum' && column.enum
+        ? toEnumName(column.enum)
+        : mapTypeToPrisma(column.type);
+    const modifier = column.type.array ? '[]' : column.nullable ? '?' : '';
+    const parts: string[] = [fieldName, `${prismaType}${modifier}`];
+
+    if (fieldName !== column.name) {
+        parts.push(`@map("${column.name}")`);
+    }
+    if (column.unique) {
+        parts.push('@unique');
+    }
+
+    const nativeType = mapTypeToPrismaNative(column.type);
+    if (nativeType) {
+        parts.push(nativeType);
+    }
+
+    return parts.join(' ');
+}
+
+/**
+ * Prisma view block; views are read-only, so they carry no relations or defaults
+ */
+function generateView(view: NormalizedView, multiSchema: boolean): string {
+    const lines: string[] = [];
+    if (view.materialized) {
+        lines.push(`// Materialized view: refresh it with REFRESH MATERIALIZED VIEW ${qualifiedTableName(view.name, view.namespace)}`);
+    }
+    lines.push(...generateDocComment(view.description), `view ${toModelName(view.name)} {`);
+
+    for (const column of Object.values(view.columns)) {
+        lines.push(`  ${generateViewField(column)}`);
+    }
+
+    lines.push(`  @@map("${view.name}")`);
+    if (multiSchema) {
+        lines.push(`  @@schema("${view.namespace ?? DEFAULT_NAMESPACE}")`);
+    }
     lines.push('}');
 
     return lines.join('\n');
 }
 
-export function generatePrismaSchema(schema: NormalizedSchema): string {
-    validateSchemaForGeneration(schema);
+export function generatePrismaSchema(normalizedSchema: NormalizedSchema): string {
+    validateSchemaForGeneration(normalizedSchema);
+
+    const schema = rekeyNamespacedTables(normalizedSchema);
+    const multiSchema = usesNamespaces(schema);
 
     const relationMap = buildRelationMap(schema);
+    const manyToManyFields = buildManyToManyFields(schema);
     const tableNames = Object.keys(schema.tables).sort();
 
-    const models: string[] = [];
+    const blocks: string[] = [];
+
+    const views = Object.values(schema.views || {}).sort((a, b) => a.name.localeCompare(b.name));
+    // @default(uuid()) is filled in by the Prisma client, so uuid keys alone need no pgcrypto
+    const extensions = requiredExtensions(schema, true);
+
+    if (multiSchema || views.length > 0 || extensions.length > 0) {
+        blocks.push(generatePreviewFeatureSetup(schema, multiSchema, extensions));
+    }
+
+    const enumNames = Object.keys(schema.enums || {}).sort();
+    for (const enumName of enumNames) {
+        blocks.push(generateEnum(schema.enums![enumName], multiSchema));
+    }
 
     for (const tableName of tableNames) {
         const table = schema.tables[tableName];
-        if (table) {
-            models.push(generateModel(tableName, table, relationMap));
+        if (table && isImplicitJoinTable(table)) {
+            blocks.push(`// ${tableName} is an implicit many-to-many relation; Prisma manages it as _${tableName}`);
+        } else if (table) {
+            blocks.push(generateModel(tableName, table, relationMap, manyToManyFields, schema));
         }
     }
 
-    return models.join('\n\n');
+    for (const view of views) {
+        blocks.push(generateView(view, multiSchema));
+    }
+
+    const sequences = Object.values(schema.sequences || {});
+    if (sequences.length > 0) {
+        blocks.push(generateSequenceSnippet(sequences));
+    }
+
+    const rawSqlStatements: string[] = [];
+    for (const tableName of tableNames) {
+        const table = schema.tables[tableName];
+        const sqlTableName = qualifiedTableName(table.name, table.namespace);
+        for (const check of collectChecks(table)) {
+            rawSqlStatements.push(`ALTER TABLE ${sqlTableName} ADD CONSTRAINT ${check.name} CHECK (${check.expression});`);
+        }
+        rawSqlStatements.push(...collectRowLevelSecurity(sqlTableName, table));
+    }
+    if (rawSqlStatements.length > 0) {
+        blocks.push(generateRawSqlSnippet(rawSqlStatements));
+    }
+
+    // Prisma migrate never creates views; their SQL needs the dependency order of the SQL export
+    if (views.length > 0) {
+        blocks.push([
+            '// Prisma does not create views. Create an empty migration with',
+            '// `npx prisma migrate dev --create-only` and append the CREATE VIEW',
+            '// statements from the SQL export to its migration.sql.',
+        ].join('\n'));
+    }
+
+    // Prisma migrate creates plain tables; partitioning can only be declared in CREATE TABLE
+    const partitionedTables = tableNames.filter(tableName => schema.tables[tableName].partitioning);
+    if (partitionedTables.length > 0) {
+        blocks.push([
+            '// Prisma cannot create partitioned tables. Create the migration with',
+            '// `npx prisma migrate dev --create-only`, then add PARTITION BY to these',
+            '// CREATE TABLE statements and append their partitions from the SQL export:',
+            ...partitionedTables.map(tableName => {
+                const table = schema.tables[tableName];
+                const { strategy, key, partitions } = table.partitioning!;
+                return `//   ${qualifiedTableName(table.name, table.namespace)}: PARTITION BY ${strategy} (${key.join(', ')}), ${partitions.length} partition${partitions.length === 1 ? '' : 's'}`;
+            }),
+        ].join('\n'));
+    }
+
+    return blocks.join('\n\n');
 }
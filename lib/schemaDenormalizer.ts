@@ -1,21 +1,46 @@
-import { NormalizedSchema } from './schemaNormalizer';
-import { Table, Column, Relation } from '@/store/schemaStore';
+import { NormalizedSchema, defaultIndexName, defaultCheckName, defaultPolicyName, defaultPartitionName, groupForeignKeys } from './schemaNormalizer';
+import { toColumnType } from './columnTypes';
+import { CanvasSchema, Table, Column, Index, CheckConstraint, Policy, Partition, Relation, ColumnPair, EnumType, Sequence, View, ViewColumn, Role } from '@/store/schemaStore';
 
 /**
  * Converts a normalized schema (name-based) back to editor state (ID-based)
  * 
  * This function:
- * - Generates new UUIDs for tables and columns
- * - Reconstructs relations from FK metadata
- * - Returns tables and relations in the format expected by the editor
+ * - Generates new UUIDs for tables, columns, enums, sequences, views and roles
+ * - Reconstructs relations from FK metadata, view dependencies and grants from their keys
+ * - Returns tables, relations, enums, sequences, views, roles and extensions in the format expected by the editor
  * - Extracts and returns positions if available
  * 
  * @param schema - Normalized schema to denormalize
- * @returns Editor state with tables, relations, and positions containing IDs
+ * @returns Editor state with tables, relations, enums, sequences, views, roles, extensions, and positions containing IDs
  */
-export function denormalizeSchema(schema: NormalizedSchema): { tables: Table[]; relations: Relation[]; positions?: { [tableId: string]: { x: number; y: number } } } {
+export function denormalizeSchema(schema: NormalizedSchema): CanvasSchema & { positions?: { [tableId: string]: { x: number; y: number } } } {
     const tables: Table[] = [];
     const relations: Relation[] = [];
+    const enums: EnumType[] = [];
+    const sequences: Sequence[] = [];
+    const views: View[] = [];
+    const roles: Role[] = [];
+
+    // Map: enumName → enumId (schemas saved before enums existed have none)
+    const enumMap = new Map<string, string>();
+    for (const [enumName, enumType] of Object.entries(schema.enums || {})) {
+        const enumId = crypto.randomUUID();
+        enumMap.set(enumName, enumId);
+        enums.push({
+            id: enumId,
+            name: enumType.name,
+            values: [...enumType.values],
+        });
+    }
+
+    // Map: sequenceName → sequenceId
+    const sequenceMap = new Map<string, string>();
+    for (const [sequenceName, sequence] of Object.entries(schema.sequences || {})) {
+        const sequenceId = crypto.randomUUID();
+        sequenceMap.set(sequenceName, sequenceId);
+        sequences.push({ id: sequenceId, ...sequence });
+    }
 
     // Map: tableName → { tableId, columnMap: columnName → columnId }
     const tableMap = new Map<string, { tableId: string; columnMap: Map<string, string> }>();
@@ -30,28 +55,134 @@ export function denormalizeSchema(schema: NormalizedSchema): { tables: Table[];
             const columnId = crypto.randomUUID();
             columnMap.set(columnName, columnId);
 
+            // Older projects stored types as bare strings
+            const columnType = toColumnType(column.type);
+
             const newColumn: Column = {
                 id: columnId,
                 name: column.name,
-                type: column.type,
+                type: columnType,
                 primaryKey: column.primaryKey,
                 nullable: column.nullable,
                 unique: column.unique,
             };
 
-            // Restore default value if present in normalized schema
+            // Restore enum reference by name
+            if (columnType.base === 'enum' && column.enum) {
+                newColumn.enumId = enumMap.get(column.enum);
+            }
+
+            // Restore default value if present in normalized schema, mapping sequence names back to IDs
             if (column.default) {
-                newColumn.default = column.default;
+                const { sequence, ...columnDefault } = column.default;
+                newColumn.default = columnDefault;
+                if (sequence) {
+                    newColumn.default.sequenceId = sequenceMap.get(sequence);
+                }
+            }
+
+            // Restore column-level CHECK expression (its name is always derived)
+            if (column.check) {
+                newColumn.check = column.check.expression;
+            }
+
+            if (column.generated) {
+                newColumn.generated = column.generated;
+            }
+
+            if (column.autoUpdate) {
+                newColumn.autoUpdate = true;
+            }
+
+            if (column.description) {
+                newColumn.description = column.description;
             }
 
             columns.push(newColumn);
         }
 
-        tables.push({
+        // Restore indexes, mapping column names back to the new column IDs
+        // Derived names are cleared so they keep tracking column renames
+        const indexes: Index[] = (table.indexes || []).map((index) => {
+            const newIndex: Index = {
+                id: crypto.randomUUID(),
+                name: index.name === defaultIndexName(table.name, index.columns, index.unique) ? '' : index.name,
+                columnIds: index.columns
+                    .map((name) => columnMap.get(name))
+                    .filter((id): id is string => id !== undefined),
+                unique: index.unique,
+                method: index.method,
+            };
+            if (index.trigram) {
+                newIndex.trigram = true;
+            }
+            return newIndex;
+        });
+
+        // Restore table-level CHECK constraints, clearing derived names as for indexes
+        const checks: CheckConstraint[] = (table.checks || []).map((check, position) => ({
+            id: crypto.randomUUID(),
+            name: check.name === defaultCheckName(table.name, position) ? '' : check.name,
+            expression: check.expression,
+        }));
+
+        // Restore policies, clearing derived names as for checks
+        const policies: Policy[] = (table.policies || []).map((policy, position) => ({
+            id: crypto.randomUUID(),
+            name: policy.name === defaultPolicyName(table.name, position) ? '' : policy.name,
+            command: policy.command,
+            roles: [...policy.roles],
+            using: policy.using ?? '',
+            withCheck: policy.withCheck ?? '',
+        }));
+
+        const newTable: Table = {
             id: tableId,
             name: table.name,
             columns,
-        });
+            indexes,
+            checks,
+            policies,
+        };
+
+        if (table.rowLevelSecurity) {
+            newTable.rowLevelSecurity = table.rowLevelSecurity;
+        }
+
+        // Restore partitioning, mapping the key back to column IDs and clearing derived partition names
+        if (table.partitioning) {
+            newTable.partitioning = {
+                strategy: table.partitioning.strategy,
+                keyColumnIds: table.partitioning.key
+                    .map((name) => columnMap.get(name))
+                    .filter((id): id is string => id !== undefined),
+                partitions: table.partitioning.partitions.map((partition, position): Partition => ({
+                    id: crypto.randomUUID(),
+                    name: partition.name === defaultPartitionName(table.name, position) ? '' : partition.name,
+                    isDefault: partition.isDefault ?? false,
+                    from: partition.from ?? '',
+                    to: partition.to ?? '',
+                    values: partition.values ?? '',
+                    modulus: partition.modulus,
+                    remainder: partition.remainder,
+                })),
+            };
+        }
+
+        if (table.namespace) {
+            newTable.namespace = table.namespace;
+        }
+
+        // Restore the join table marker for many-to-many relations
+        if (table.joinTable) {
+            newTable.joinTable = { ...table.joinTable };
+        }
+
+        if (table.description) {
+            newTable.description = table.description;
+        }
+
+        tables.push(newTable);
 
         tableMap.set(tableName, { tableId, columnMap });
 
@@ -70,43 +201,128 @@ export function denormalizeSchema(schema: NormalizedSchema): { tables: Table[];
         const fkTableInfo = tableMap.get(tableName);
         if (!fkTableInfo) continue;
 
-        for (const [columnName, column] of Object.entries(table.columns)) {
-            if (column.foreignKey) {
-                const pkTableInfo = tableMap.get(column.foreignKey.table);
-                if (!pkTableInfo) continue;
-
-                // Get the FK column ID (the column that has the foreign key)
-                const fkColumnId = fkTableInfo.columnMap.get(columnName);
-                // Get the referenced PK column ID
-                const pkColumnId = pkTableInfo.columnMap.get(column.foreignKey.column);
-
-                if (fkColumnId && pkColumnId) {
-                    // Relations must go from PK (source) to FK (target)
-                    relations.push({
-                        id: crypto.randomUUID(),
-                        fromTableId: pkTableInfo.tableId,       // PK table is source
-                        fromColumnId: pkColumnId,               // PK column is source
-                        toTableId: fkTableInfo.tableId,         // FK table is target
-                        toColumnId: fkColumnId,                 // FK column is target
-                    });
+        // Columns of a composite foreign key become the column pairs of a single relation
+        for (const foreignKey of groupForeignKeys(schema, table)) {
+            const { table: referencedTable, onDelete, onUpdate, cardinality } = foreignKey[0].foreignKey!;
+            const pkTableInfo = tableMap.get(referencedTable);
+            if (!pkTableInfo) continue;
+
+            // Pair the FK column IDs with the referenced PK column IDs
+            const columns = foreignKey
+                .map((column) => ({
+                    fromColumnId: pkTableInfo.columnMap.get(column.foreignKey!.column),
+                    toColumnId: fkTableInfo.columnMap.get(column.name),
+                }))
+                .filter((pair): pair is ColumnPair => pair.fromColumnId !== undefined && pair.toColumnId !== undefined);
+
+            if (columns.length > 0) {
+                // Relations must go from PK (source) to FK (target)
+                const relation: Relation = {
+                    id: crypto.randomUUID(),
+                    fromTableId: pkTableInfo.tableId,       // PK table is source
+                    toTableId: fkTableInfo.tableId,         // FK table is target
+                    columns,
+                    cardinality: cardinality ?? 'one-to-many',
+                };
+
+                // Restore referential actions if present
+                if (onDelete) {
+                    relation.onDelete = onDelete;
+                }
+                if (onUpdate) {
+                    relation.onUpdate = onUpdate;
                 }
+
+                relations.push(relation);
             }
         }
     }
 
-    // Step 3: Map positions from schema (keyed by table name) to new table IDs
-    const result: { tables: Table[]; relations: Relation[]; positions?: { [tableId: string]: { x: number; y: number } } } = {
+    // Step 3: Create views, resolving dependency keys to the new table and view IDs
+    // Map: viewName → viewId (assigned up front since views may depend on later views)
+    const viewMap = new Map<string, string>();
+    for (const viewName of Object.keys(schema.views || {})) {
+        viewMap.set(viewName, crypto.randomUUID());
+    }
+
+    for (const [viewName, view] of Object.entries(schema.views || {})) {
+        const columns: ViewColumn[] = Object.values(view.columns).map((column) => {
+            const newColumn: ViewColumn = {
+                id: crypto.randomUUID(),
+                name: column.name,
+                type: { ...column.type },
+                nullable: column.nullable,
+                unique: column.unique,
+            };
+            if (column.type.base === 'enum' && column.enum) {
+                newColumn.enumId = enumMap.get(column.enum);
+            }
+            return newColumn;
+        });
+
+        const newView: View = {
+            id: viewMap.get(viewName)!,
+            name: view.name,
+            materialized: view.materialized,
+            query: view.query,
+            columns,
+            dependencyIds: view.dependencies
+                .map((dependency) => tableMap.get(dependency)?.tableId ?? viewMap.get(dependency))
+                .filter((id): id is string => id !== undefined),
+        };
+
+        if (view.namespace) {
+            newView.namespace = view.namespace;
+        }
+
+        if (view.description) {
+            newView.description = view.description;
+        }
+
+        views.push(newView);
+    }
+
+    // Step 4: Create roles, resolving granted tables and columns to their new IDs
+    for (const role of Object.values(schema.roles || {})) {
+        roles.push({
+            id: crypto.randomUUID(),
+            name: role.name,
+            login: role.login,
+            grants: role.grants
+                .filter((grant) => tableMap.has(grant.table))
+                .map((grant) => {
+                    const { tableId, columnMap } = tableMap.get(grant.table)!;
+                    return grant.columns
+                        ? {
+                            tableId,
+                            privilege: grant.privilege,
+                            columnIds: grant.columns
+                                .map((name) => columnMap.get(name))
+                                .filter((id): id is string => id !== undefined),
+                        }
+                        : { tableId, privilege: grant.privilege };
+                }),
+        });
+    }
+
+    // Step 5: Map positions from schema (keyed by table or view name) to new IDs
+    const result: CanvasSchema & { positions?: { [tableId: string]: { x: number; y: number } } } = {
         tables,
         relations,
+        enums,
+        sequences,
+        views,
+        roles,
+        extensions: [...(schema.extensions || [])],
     };
 
-    // Map positions by table name to new table IDs
+    // Map positions by table or view name to new IDs
     if (schema.positions) {
         const positionsByTableId: { [tableId: string]: { x: number; y: number } } = {};
         for (const [tableName, position] of Object.entries(schema.positions)) {
-            const tableInfo = tableMap.get(tableName);
-            if (tableInfo) {
-                positionsByTableId[tableInfo.tableId] = position;
+            const nodeId = tableMap.get(tableName)?.tableId ?? viewMap.get(tableName);
+            if (nodeId) {
+                positionsByTableId[nodeId] = position;
             }
         }
         if (Object.keys(positionsByTableId).length > 0) {
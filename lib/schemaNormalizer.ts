@@ -1,22 +1,86 @@
-import { Table, Relation } from '@/store/schemaStore';
+import { CanvasSchema, IndexMethod, ReferentialAction, Cardinality, JoinTablePrismaMode, IdentityOptions, PolicyCommand, RowLevelSecurity, Privilege, PartitionStrategy } from '@/store/schemaStore';
+import { ColumnType } from './columnTypes';
 
 /**
  * Normalized column structure with optional foreign key metadata
  */
 export interface NormalizedColumn {
     name: string;
-    type: string;
+    type: ColumnType;
+    enum?: string; // Enum name when type.base is 'enum'
     primaryKey: boolean;
     nullable: boolean;
     unique: boolean;
     foreignKey?: {
         table: string;
         column: string;
+        onDelete?: ReferentialAction;
+        onUpdate?: ReferentialAction;
+        cardinality?: Cardinality; // Omitted for the default, one-to-many
+        constraint?: string; // Shared by the columns of a composite foreign key
     };
     default?: {
-        kind: 'autoincrement' | 'uuid' | 'now' | 'value';
-        value?: string; // For 'value' kind
+        kind: 'autoincrement' | 'identity' | 'sequence' | 'uuid' | 'now' | 'value' | 'expression';
+        value?: string; // Literal for 'value' kind, raw SQL for 'expression' kind
+        identity?: IdentityOptions; // For 'identity' kind
+        sequence?: string; // Sequence name for 'sequence' kind
     };
+    check?: NormalizedCheck;
+    generated?: string; // GENERATED ALWAYS AS (expression) STORED
+    autoUpdate?: boolean; // Omitted unless set; maintained by a BEFORE UPDATE trigger / @updatedAt
+    description?: string;
+}
+
+/**
+ * Normalized CHECK constraint with a resolved constraint name
+ */
+export interface NormalizedCheck {
+    name: string;
+    expression: string;
+}
+
+/**
+ * Normalized index structure referencing columns by name (in index order)
+ */
+export interface NormalizedIndex {
+    name: string;
+    columns: string[];
+    unique: boolean;
+    method: IndexMethod;
+    trigram?: boolean; // Omitted unless set
+}
+
+/**
+ * Normalized child partition with a resolved name; only the bounds of the parent's strategy are kept
+ */
+export interface NormalizedPartition {
+    name: string;
+    isDefault?: boolean; // Omitted unless set; a default partition has no bounds
+    from?: string; // RANGE
+    to?: string;
+    values?: string; // LIST
+    modulus?: number; // HASH
+    remainder?: number;
+}
+
+/**
+ * Normalized partitioning with the key referencing columns by name (in key order)
+ */
+export interface NormalizedPartitioning {
+    strategy: PartitionStrategy;
+    key: string[];
+    partitions: NormalizedPartition[];
+}
+
+/**
+ * Normalized row-level security policy with a resolved name; blank expressions are omitted
+ */
+export interface NormalizedPolicy {
+    name: string;
+    command: PolicyCommand;
+    roles: string[]; // Empty means PUBLIC
+    using?: string;
+    withCheck?: string;
 }
 
 /**
@@ -27,50 +91,242 @@ export interface NormalizedTable {
     columns: {
         [columnName: string]: NormalizedColumn;
     };
+    indexes?: NormalizedIndex[];
+    checks?: NormalizedCheck[];
+    rowLevelSecurity?: RowLevelSecurity;
+    policies?: NormalizedPolicy[];
+    partitioning?: NormalizedPartitioning;
+    joinTable?: { prismaMode: JoinTablePrismaMode };
+    namespace?: string; // PostgreSQL schema; omitted for the default 'public'
+    description?: string;
+}
+
+/**
+ * Normalized enum type with its ordered values
+ */
+export interface NormalizedEnum {
+    name: string;
+    values: string[];
+}
+
+/**
+ * Normalized standalone sequence
+ */
+export interface NormalizedSequence {
+    name: string;
+    start?: number;
+    increment?: number;
+}
+
+/**
+ * Normalized view output column
+ */
+export interface NormalizedViewColumn {
+    name: string;
+    type: ColumnType;
+    enum?: string; // Enum name when type.base is 'enum'
+    nullable: boolean;
+    unique: boolean;
+}
+
+/**
+ * Normalized view with its declared columns keyed by name and its
+ * dependencies as table or view keys
+ */
+export interface NormalizedView {
+    name: string;
+    materialized: boolean;
+    query: string;
+    columns: {
+        [columnName: string]: NormalizedViewColumn;
+    };
+    dependencies: string[];
+    namespace?: string; // PostgreSQL schema; omitted for the default 'public'
+    description?: string;
+}
+
+/**
+ * Normalized privilege on a table (by key), optionally limited to some of its columns
+ */
+export interface NormalizedGrant {
+    table: string;
+    privilege: Privilege;
+    columns?: string[];
+}
+
+/**
+ * Normalized database role with the privileges granted to it
+ */
+export interface NormalizedRole {
+    name: string;
+    login: boolean;
+    grants: NormalizedGrant[];
 }
 
 /**
  * Normalized schema structure with tables keyed by table name
+ * (qualified as namespace.table outside the default namespace, see qualifiedTableName)
  * This is the generator-ready JSON format
  */
 export interface NormalizedSchema {
     tables: {
         [tableName: string]: NormalizedTable;
     };
+    enums?: {
+        [enumName: string]: NormalizedEnum;
+    };
+    sequences?: {
+        [sequenceName: string]: NormalizedSequence;
+    };
+    views?: {
+        [viewName: string]: NormalizedView; // Keyed like tables, see qualifiedTableName
+    };
+    roles?: {
+        [roleName: string]: NormalizedRole;
+    };
+    extensions?: string[]; // Declared only; see requiredExtensions for the inferred ones
     positions?: {
         [tableName: string]: { x: number; y: number };
     };
 }
 
+export const DEFAULT_NAMESPACE = 'public';
+
+/**
+ * Key of a table in NormalizedSchema.tables, also its SQL name: the bare name in the
+ * default namespace (so older projects keep their keys), otherwise namespace.table
+ */
+export function qualifiedTableName(name: string, namespace?: string): string {
+    return namespace && namespace !== DEFAULT_NAMESPACE ? `${namespace}.${name}` : name;
+}
+
+/**
+ * Default index name following PostgreSQL's own convention:
+ * {table}_{columns}_idx for plain indexes and {table}_{columns}_key for unique ones
+ */
+export function defaultIndexName(tableName: string, columns: string[], unique: boolean): string {
+    return `${tableName}_${columns.join('_')}_${unique ? 'key' : 'idx'}`;
+}
+
+/**
+ * Default CHECK constraint names following PostgreSQL's own convention:
+ * {table}_{column}_check for column checks and {table}_check, {table}_check1, ... for table checks
+ */
+export function defaultCheckName(tableName: string, columnOrPosition: string | number): string {
+    if (typeof columnOrPosition === 'string') {
+        return `${tableName}_${columnOrPosition}_check`;
+    }
+    return columnOrPosition === 0 ? `${tableName}_check` : `${tableName}_check${columnOrPosition}`;
+}
+
+/**
+ * Default policy names, numbered like table checks: {table}_policy, {table}_policy1, ...
+ */
+export function defaultPolicyName(tableName: string, position: number): string {
+    return position === 0 ? `${tableName}_policy` : `${tableName}_policy${position}`;
+}
+
+/**
+ * Default partition names, numbered from one: {table}_p1, {table}_p2, ...
+ */
+export function defaultPartitionName(tableName: string, position: number): string {
+    return `${tableName}_p${position + 1}`;
+}
+
+/**
+ * Default foreign key constraint name, matching PostgreSQL's {table}_{columns}_fkey
+ */
+export function defaultForeignKeyName(tableName: string, columns: string[]): string {
+    return `${tableName}_${columns.join('_')}_fkey`;
+}
+
+/**
+ * Groups a table's FK columns into foreign keys. Columns sharing a constraint form one
+ * composite key, ordered like the referenced table's primary key columns.
+ */
+export function groupForeignKeys(schema: NormalizedSchema, table: NormalizedTable): NormalizedColumn[][] {
+    const groups = new Map<string, NormalizedColumn[]>();
+
+    for (const column of Object.values(table.columns)) {
+        if (!column.foreignKey) {
+            continue;
+        }
+        const key = column.foreignKey.constraint ?? `column:${column.name}`;
+        if (!groups.has(key)) {
+            groups.set(key, []);
+        }
+        groups.get(key)!.push(column);
+    }
+
+    return [...groups.values()].map((columns) => {
+        const referencedColumns = Object.keys(schema.tables[columns[0].foreignKey!.table]?.columns || {});
+        return [...columns].sort((a, b) =>
+            referencedColumns.indexOf(a.foreignKey!.column) - referencedColumns.indexOf(b.foreignKey!.column)
+        );
+    });
+}
+
+/**
+ * Whether a foreign key allows at most one referencing row per referenced row: its columns are
+ * unique (a unique column or unique index) or are the table's entire primary key (shared-key one-to-one)
+ */
+export function isOneToOneForeignKey(table: NormalizedTable, columns: NormalizedColumn[]): boolean {
+    const columnSet = columns.map((column) => column.name).sort().join(',');
+    const primaryKeySet = Object.values(table.columns)
+        .filter((column) => column.primaryKey)
+        .map((column) => column.name)
+        .sort()
+        .join(',');
+
+    if (columnSet === primaryKeySet) {
+        return true;
+    }
+    if (columns.length === 1 && columns[0].unique) {
+        return true;
+    }
+    return (table.indexes || []).some((index) => index.unique && [...index.columns].sort().join(',') === columnSet);
+}
+
 /**
  * Pure function that normalizes canvas state (ID-based) into generator-ready JSON (name-based)
  * 
  * This function faithfully represents the input data structure. It does NOT validate:
  * - Reserved keywords (e.g., "user" in PostgreSQL) - Phase 5 validator will catch this
- * - Foreign keys on primary keys (design issue) - Phase 5 validator will warn about this
  * - Naming conventions - Phase 5 validator will check this
  * 
  * Known edge cases that are allowed but may be problematic:
  * 1. Columns can be both primaryKey: true AND have foreignKey metadata
- *    - This creates a one-to-one relationship where FK value must equal PK value
- *    - Usually not desired; Phase 5 validator should warn about this
+ *    - Join tables key on their FKs; a single PK+FK column is a shared-key one-to-one
  * 2. Table/column names can be reserved keywords (e.g., "user", "order")
  *    - Will break SQL/Prisma generation without quoting
  *    - Phase 5 validator should catch and suggest alternatives (e.g., "users", "orders")
  * 
- * @param tables - Array of tables with ID-based structure
- * @param relations - Array of relations connecting columns
- * @param positions - Optional map of table IDs to their positions { [tableId]: { x, y } }
+ * @param schema - Canvas schema with ID-based tables, relations, enums, sequences, views, roles and extensions
+ * @param positions - Optional map of table and view IDs to their positions { [tableId]: { x, y } }
  * @returns Normalized schema with FK metadata embedded in columns
  */
-export function normalizeSchema(tables: Table[], relations: Relation[], positions?: { [tableId: string]: { x: number; y: number } }): NormalizedSchema {
-    // Build ID → Name lookup maps
+export function normalizeSchema(schema: CanvasSchema, positions?: { [tableId: string]: { x: number; y: number } }): NormalizedSchema {
+    const { tables, relations, enums, sequences, views, roles, extensions } = schema;
+
+    // Build enum ID → Name lookup map
+    const enumNameMap = new Map<string, string>();
+    for (const enumType of enums) {
+        enumNameMap.set(enumType.id, enumType.name);
+    }
+
+    // Build sequence ID → Name lookup map
+    const sequenceNameMap = new Map<string, string>();
+    for (const sequence of sequences) {
+        sequenceNameMap.set(sequence.id, sequence.name);
+    }
+
+    // Build ID → Name lookup maps (tables map to their qualified key)
     const tableNameMap = new Map<string, string>();
     const columnNameMap = new Map<string, { tableId: string; columnName: string }>();
 
     // Populate lookup maps
     for (const table of tables) {
-        tableNameMap.set(table.id, table.name);
+        tableNameMap.set(table.id, qualifiedTableName(table.name, table.namespace));
         for (const column of table.columns) {
             columnNameMap.set(`${table.id}::${column.id}`, {
                 tableId: table.id,
@@ -79,29 +335,65 @@ export function normalizeSchema(tables: Table[], relations: Relation[], position
         }
     }
 
-    // Build FK metadata map: targetTableId::targetColumnId → { table, column }
-    const foreignKeyMap = new Map<string, { table: string; column: string }>();
+    // Views share the table key space (PostgreSQL keeps them in one namespace)
+    const viewNameMap = new Map<string, string>();
+    for (const view of views) {
+        viewNameMap.set(view.id, qualifiedTableName(view.name, view.namespace));
+    }
+
+    // Build FK metadata map: targetTableId::targetColumnId → { table, column, onDelete?, onUpdate? }
+    const foreignKeyMap = new Map<string, NonNullable<NormalizedColumn['foreignKey']>>();
 
     for (const relation of relations) {
-        // Resolve source (PK side)
+        // Resolve source (PK side) and target (FK side) tables
         const sourceTableName = tableNameMap.get(relation.fromTableId);
-        const sourceColumnInfo = columnNameMap.get(`${relation.fromTableId}::${relation.fromColumnId}`);
-
-        // Resolve target (FK side)
         const targetTableName = tableNameMap.get(relation.toTableId);
-        const targetColumnInfo = columnNameMap.get(`${relation.toTableId}::${relation.toColumnId}`);
+
+        // Resolve every column pair, skipping pairs whose columns no longer exist
+        const pairs = relation.columns
+            .map((pair) => ({
+                fkKey: `${relation.toTableId}::${pair.toColumnId}`,
+                sourceColumnInfo: columnNameMap.get(`${relation.fromTableId}::${pair.fromColumnId}`),
+                targetColumnInfo: columnNameMap.get(`${relation.toTableId}::${pair.toColumnId}`),
+            }))
+            .filter((pair) => pair.sourceColumnInfo && pair.targetColumnInfo);
 
         // Skip if any reference is missing (orphaned relation)
-        if (!sourceTableName || !sourceColumnInfo || !targetTableName || !targetColumnInfo) {
+        if (!sourceTableName || !targetTableName || pairs.length === 0) {
             continue;
         }
 
-        // Store FK metadata keyed by target table and column IDs
-        const fkKey = `${relation.toTableId}::${relation.toColumnId}`;
-        foreignKeyMap.set(fkKey, {
-            table: sourceTableName,
-            column: sourceColumnInfo.columnName,
-        });
+        // Columns of a composite key are tied together by a shared constraint name
+        const constraint = pairs.length > 1
+            ? defaultForeignKeyName(
+                tables.find((table) => table.id === relation.toTableId)!.name,
+                pairs.map((pair) => pair.targetColumnInfo!.columnName)
+            )
+            : undefined;
+
+        for (const { fkKey, sourceColumnInfo } of pairs) {
+            // Store FK metadata keyed by target table and column IDs
+            const fkMetadata: NonNullable<NormalizedColumn['foreignKey']> = {
+                table: sourceTableName,
+                column: sourceColumnInfo!.columnName,
+            };
+
+            // Only carry referential actions that were explicitly chosen
+            if (relation.onDelete) {
+                fkMetadata.onDelete = relation.onDelete;
+            }
+            if (relation.onUpdate) {
+                fkMetadata.onUpdate = relation.onUpdate;
+            }
+            if (relation.cardinality && relation.cardinality !== 'one-to-many') {
+                fkMetadata.cardinality = relation.cardinality;
+            }
+            if (constraint) {
+                fkMetadata.constraint = constraint;
+            }
+
+            foreignKeyMap.set(fkKey, fkMetadata);
+        }
     }
 
     // Build normalized structure
@@ -109,6 +401,7 @@ export function normalizeSchema(tables: Table[], relations: Relation[], position
 
     for (const table of tables) {
         const tableName = table.name;
+        const tableKey = qualifiedTableName(table.name, table.namespace);
         const columns: { [columnName: string]: NormalizedColumn } = {};
 
         for (const column of table.columns) {
@@ -117,43 +410,278 @@ export function normalizeSchema(tables: Table[], relations: Relation[], position
 
             const normalizedColumn: NormalizedColumn = {
                 name: column.name,
-                type: column.type,
+                type: { ...column.type },
                 primaryKey: column.primaryKey,
                 nullable: column.nullable,
                 unique: column.unique,
             };
 
+            // Resolve enum reference to its name (left unset if the enum no longer exists)
+            if (column.type.base === 'enum' && column.enumId) {
+                const enumName = enumNameMap.get(column.enumId);
+                if (enumName !== undefined) {
+                    normalizedColumn.enum = enumName;
+                }
+            }
+
             // Attach FK metadata if this column is a foreign key
             // Note: A column can be both primaryKey: true AND have foreignKey metadata
-            // This represents a one-to-one relationship (FK value must equal PK value)
-            // Phase 5 validator should warn about this design pattern
+            // (join table keys, or a one-to-one relationship where FK value must equal PK value)
             if (fkMetadata) {
                 normalizedColumn.foreignKey = fkMetadata;
             }
 
-            // Pass through default metadata if present
+            // Pass through default metadata if present, resolving sequence references to names
             if (column.default) {
-                normalizedColumn.default = column.default;
+                const { sequenceId, ...columnDefault } = column.default;
+                normalizedColumn.default = columnDefault;
+                if (columnDefault.kind === 'sequence' && sequenceId) {
+                    const sequenceName = sequenceNameMap.get(sequenceId);
+                    if (sequenceName !== undefined) {
+                        normalizedColumn.default.sequence = sequenceName;
+                    }
+                }
+            }
+
+            // Name the column-level CHECK constraint (blank expressions mean no check)
+            if (column.check && column.check.trim().length > 0) {
+                normalizedColumn.check = {
+                    name: defaultCheckName(tableName, column.name),
+                    expression: column.check.trim(),
+                };
+            }
+
+            // Blank expressions mean the column is not generated
+            if (column.generated && column.generated.trim().length > 0) {
+                normalizedColumn.generated = column.generated.trim();
+            }
+
+            if (column.autoUpdate) {
+                normalizedColumn.autoUpdate = true;
+            }
+
+            // Blank descriptions are dropped so they never produce empty comments
+            if (column.description && column.description.trim().length > 0) {
+                normalizedColumn.description = column.description.trim();
             }
 
             columns[column.name] = normalizedColumn;
         }
 
-        normalizedTables[tableName] = {
+        normalizedTables[tableKey] = {
             name: tableName,
             columns,
         };
+
+        if (table.namespace && table.namespace !== DEFAULT_NAMESPACE) {
+            normalizedTables[tableKey].namespace = table.namespace;
+        }
+
+        if (table.joinTable) {
+            normalizedTables[tableKey].joinTable = { ...table.joinTable };
+        }
+
+        if (table.description && table.description.trim().length > 0) {
+            normalizedTables[tableKey].description = table.description.trim();
+        }
+
+        // Resolve index column IDs to names, dropping references to deleted columns
+        if (table.indexes && table.indexes.length > 0) {
+            normalizedTables[tableKey].indexes = table.indexes.map((index) => {
+                const indexColumns = index.columnIds
+                    .map((columnId) => columnNameMap.get(`${table.id}::${columnId}`)?.columnName)
+                    .filter((name): name is string => name !== undefined);
+
+                const normalizedIndex: NormalizedIndex = {
+                    name: index.name.trim() || defaultIndexName(tableName, indexColumns, index.unique),
+                    columns: indexColumns,
+                    unique: index.unique,
+                    method: index.method,
+                };
+                if (index.trigram) {
+                    normalizedIndex.trigram = true;
+                }
+                return normalizedIndex;
+            });
+        }
+
+        // Table-level CHECK constraints keep blank expressions so the validator can flag them
+        if (table.checks && table.checks.length > 0) {
+            normalizedTables[tableKey].checks = table.checks.map((check, position) => ({
+                name: check.name.trim() || defaultCheckName(tableName, position),
+                expression: check.expression.trim(),
+            }));
+        }
+
+        if (table.rowLevelSecurity) {
+            normalizedTables[tableKey].rowLevelSecurity = table.rowLevelSecurity;
+        }
+
+        // Policies drop blank expressions and roles; the validator flags policies left without either expression
+        if (table.policies && table.policies.length > 0) {
+            normalizedTables[tableKey].policies = table.policies.map((policy, position) => {
+                const normalizedPolicy: NormalizedPolicy = {
+                    name: policy.name.trim() || defaultPolicyName(tableName, position),
+                    command: policy.command,
+                    roles: policy.roles.map((role) => role.trim()).filter((role) => role.length > 0),
+                };
+                if (policy.using.trim().length > 0) {
+                    normalizedPolicy.using = policy.using.trim();
+                }
+                if (policy.withCheck.trim().length > 0) {
+                    normalizedPolicy.withCheck = policy.withCheck.trim();
+                }
+                return normalizedPolicy;
+            });
+        }
+
+        // Partitioning resolves key column IDs to names; bounds of other strategies are dropped
+        if (table.partitioning) {
+            const { strategy, keyColumnIds, partitions } = table.partitioning;
+            normalizedTables[tableKey].partitioning = {
+                strategy,
+                key: keyColumnIds
+                    .map((columnId) => columnNameMap.get(`${table.id}::${columnId}`)?.columnName)
+                    .filter((name): name is string => name !== undefined),
+                partitions: partitions.map((partition, position) => {
+                    const normalizedPartition: NormalizedPartition = {
+                        name: partition.name.trim() || defaultPartitionName(tableName, position),
+                    };
+                    if (partition.isDefault) {
+                        normalizedPartition.isDefault = true;
+                    } else if (strategy === 'RANGE') {
+                        if (partition.from.trim().length > 0) {
+                            normalizedPartition.from = partition.from.trim();
+                        }
+                        if (partition.to.trim().length > 0) {
+                            normalizedPartition.to = partition.to.trim();
+                        }
+                    } else if (strategy === 'LIST') {
+                        if (partition.values.trim().length > 0) {
+                            normalizedPartition.values = partition.values.trim();
+                        }
+                    } else {
+                        if (partition.modulus !== undefined) {
+                            normalizedPartition.modulus = partition.modulus;
+                        }
+                        if (partition.remainder !== undefined) {
+                            normalizedPartition.remainder = partition.remainder;
+                        }
+                    }
+                    return normalizedPartition;
+                }),
+            };
+        }
     }
 
     const result: NormalizedSchema = {
         tables: normalizedTables,
     };
 
-    // Include positions if provided, converting table IDs to table names
+    if (enums.length > 0) {
+        const normalizedEnums: { [enumName: string]: NormalizedEnum } = {};
+        for (const enumType of enums) {
+            normalizedEnums[enumType.name] = {
+                name: enumType.name,
+                values: [...enumType.values],
+            };
+        }
+        result.enums = normalizedEnums;
+    }
+
+    if (sequences.length > 0) {
+        const normalizedSequences: { [sequenceName: string]: NormalizedSequence } = {};
+        for (const sequence of sequences) {
+            normalizedSequences[sequence.name] = { name: sequence.name };
+            if (sequence.start !== undefined) {
+                normalizedSequences[sequence.name].start = sequence.start;
+            }
+            if (sequence.increment !== undefined) {
+                normalizedSequences[sequence.name].increment = sequence.increment;
+            }
+        }
+        result.sequences = normalizedSequences;
+    }
+
+    if (views.length > 0) {
+        const normalizedViews: { [viewName: string]: NormalizedView } = {};
+        for (const view of views) {
+            const viewKey = viewNameMap.get(view.id)!;
+            const columns: { [columnName: string]: NormalizedViewColumn } = {};
+            for (const column of view.columns) {
+                columns[column.name] = {
+                    name: column.name,
+                    type: { ...column.type },
+                    nullable: column.nullable,
+                    unique: column.unique,
+                };
+                if (column.type.base === 'enum' && column.enumId) {
+                    const enumName = enumNameMap.get(column.enumId);
+                    if (enumName !== undefined) {
+                        columns[column.name].enum = enumName;
+                    }
+                }
+            }
+
+            normalizedViews[viewKey] = {
+                name: view.name,
+                materialized: view.materialized,
+                query: view.query.trim(),
+                columns,
+                // Dependencies on deleted tables or views are dropped
+                dependencies: view.dependencyIds
+                    .map((id) => tableNameMap.get(id) ?? viewNameMap.get(id))
+                    .filter((name): name is string => name !== undefined),
+            };
+
+            if (view.namespace && view.namespace !== DEFAULT_NAMESPACE) {
+                normalizedViews[viewKey].namespace = view.namespace;
+            }
+
+            if (view.description && view.description.trim().length > 0) {
+                normalizedViews[viewKey].description = view.description.trim();
+            }
+        }
+        result.views = normalizedViews;
+    }
+
+    if (roles.length > 0) {
+        const normalizedRoles: { [roleName: string]: NormalizedRole } = {};
+        for (const role of roles) {
+            normalizedRoles[role.name] = {
+                name: role.name,
+                login: role.login,
+                // Grants on deleted tables are dropped, as are deleted columns of column-level grants
+                grants: role.grants
+                    .filter((grant) => tableNameMap.has(grant.tableId))
+                    .map((grant) => {
+                        const normalizedGrant: NormalizedGrant = {
+                            table: tableNameMap.get(grant.tableId)!,
+                            privilege: grant.privilege,
+                        };
+                        if (grant.columnIds) {
+                            normalizedGrant.columns = grant.columnIds
+                                .map((columnId) => columnNameMap.get(`${grant.tableId}::${columnId}`)?.columnName)
+                                .filter((name): name is string => name !== undefined);
+                        }
+                        return normalizedGrant;
+                    }),
+            };
+        }
+        result.roles = normalizedRoles;
+    }
+
+    // Declared extensions keep their order; duplicates are left for the validator to report
+    const declaredExtensions = extensions.map((extension) => extension.trim()).filter((extension) => extension.length > 0);
+    if (declaredExtensions.length > 0) {
+        result.extensions = declaredExtensions;
+    }
+
+    // Include positions if provided, converting table and view IDs to their keys
     if (positions && Object.keys(positions).length > 0) {
         const positionsByTableName: { [tableName: string]: { x: number; y: number } } = {};
         for (const [tableId, position] of Object.entries(positions)) {
-            const tableName = tableNameMap.get(tableId);
+            const tableName = tableNameMap.get(tableId) ?? viewNameMap.get(tableId);
             if (tableName) {
                 positionsByTableName[tableName] = position;
             }
@@ -1,4 +1,6 @@
-import { NormalizedSchema } from './schemaNormalizer';
+import { NormalizedSchema, NormalizedColumn, groupForeignKeys, isOneToOneForeignKey, qualifiedTableName } from './schemaNormalizer';
+import { TYPE_REGISTRY, formatColumnType, areTypesCompatible, getTypeCategory, isBaseType, isTimestampType, parseLiteral } from './columnTypes';
+import { isValidExtensionName } from './extensions';
 
 /**
  * Validation error with metadata for UI mapping
@@ -11,11 +13,13 @@ export interface ValidationError {
 }
 
 /**
- * Validation result containing validity status and all errors
+ * Validation result containing validity status, all errors, and warnings
+ * Warnings flag likely mistakes but do not block export
  */
 export interface ValidationResult {
     valid: boolean;
     errors: ValidationError[];
+    warnings: ValidationError[];
 }
 
 /**
@@ -63,6 +67,20 @@ function isReservedKeyword(name: string): boolean {
     return RESERVED_KEYWORDS.includes(name.toLowerCase());
 }
 
+/**
+ * Describe a column's type for messages, resolving enum columns to their enum name
+ */
+function describeColumnType(column: NormalizedColumn): string {
+    return formatColumnType(column.type, column.enum);
+}
+
+/**
+ * Column list of a foreign key for messages, e.g. 'user_id' or '(tenant_id, order_no)'
+ */
+function describeForeignKey(columns: NormalizedColumn[]): string {
+    return columns.length === 1 ? `'${columns[0].name}'` : `'(${columns.map((c) => c.name).join(', ')})'`;
+}
+
 /**
  * Validate table-level rules
  */
@@ -101,16 +119,25 @@ function validateTables(schema: NormalizedSchema, errors: ValidationError[]): vo
             });
         }
 
-        // Check uniqueness
-        if (table.name && seenTableNames.has(table.name.toLowerCase())) {
+        // Check namespace naming (pg_ prefixes are reserved for system schemas)
+        if (table.namespace !== undefined && (!isSnakeCase(table.namespace) || table.namespace.startsWith('pg_') || table.namespace === 'information_schema')) {
+            errors.push({
+                code: 'TABLE_INVALID_NAMESPACE',
+                message: `Table '${table.name}' has namespace '${table.namespace}', which must be snake_case and not a system schema (pg_*, information_schema)`,
+                table: tableName,
+            });
+        }
+
+        // Check uniqueness (the same name may be reused in another namespace)
+        if (table.name && seenTableNames.has(tableName.toLowerCase())) {
             errors.push({
                 code: 'TABLE_DUPLICATE',
-                message: `Duplicate table name '${table.name}'`,
+                message: `Duplicate table name '${tableName}'`,
                 table: tableName,
             });
         }
         if (table.name) {
-            seenTableNames.add(table.name.toLowerCase());
+            seenTableNames.add(tableName.toLowerCase());
         }
 
         // Check table has at least one column
@@ -125,6 +152,45 @@ function validateTables(schema: NormalizedSchema, errors: ValidationError[]): vo
     }
 }
 
+/**
+ * Validate a column's type parameters (length, precision, scale) against the type registry
+ */
+function validateTypeParams(tableKey: string, tableName: string, columnKey: string, column: NormalizedColumn, errors: ValidationError[]): void {
+    const { length, precision, scale } = column.type;
+    const params = TYPE_REGISTRY[column.type.base].params;
+
+    if (length !== undefined && (params !== 'length' || !Number.isInteger(length) || length < 1)) {
+        errors.push({
+            code: 'COLUMN_INVALID_LENGTH',
+            message: params === 'length'
+                ? `Column '${column.name}' in table '${tableName}' has invalid length '${length}'. Length must be a positive integer.`
+                : `Column '${column.name}' in table '${tableName}' has a length but type '${column.type.base}' does not accept one`,
+            table: tableKey,
+            column: columnKey,
+        });
+    }
+
+    if (precision !== undefined && (params !== 'precisionScale' || !Number.isInteger(precision) || precision < 1 || precision > 1000)) {
+        errors.push({
+            code: 'COLUMN_INVALID_PRECISION',
+            message: params === 'precisionScale'
+                ? `Column '${column.name}' in table '${tableName}' has invalid precision '${precision}'. Precision must be between 1 and 1000.`
+                : `Column '${column.name}' in table '${tableName}' has a precision but type '${column.type.base}' does not accept one`,
+            table: tableKey,
+            column: columnKey,
+        });
+    }
+
+    if (scale !== undefined && (precision === undefined || !Number.isInteger(scale) || scale < 0 || scale > precision)) {
+        errors.push({
+            code: 'COLUMN_INVALID_SCALE',
+            message: `Column '${column.name}' in table '${tableName}' has invalid scale '${scale}'. Scale requires a precision and must be between 0 and the precision.`,
+            table: tableKey,
+            column: columnKey,
+        });
+    }
+}
+
 /**
  * Validate column-level rules
  */
@@ -171,13 +237,32 @@ function validateColumns(schema: NormalizedSchema, errors: ValidationError[]): v
             }
 
             // Check column has type
-            if (!column.type || column.type.trim().length === 0) {
+            if (!column.type || !column.type.base) {
                 errors.push({
                     code: 'COLUMN_NO_TYPE',
                     message: `Column '${column.name}' in table '${table.name}' must have a datatype`,
                     table: tableName,
                     column: columnName,
                 });
+            } else if (!isBaseType(column.type.base)) {
+                errors.push({
+                    code: 'COLUMN_UNKNOWN_TYPE',
+                    message: `Column '${column.name}' in table '${table.name}' has unknown datatype '${column.type.base}'`,
+                    table: tableName,
+                    column: columnName,
+                });
+            } else {
+                validateTypeParams(tableName, table.name, columnName, column, errors);
+            }
+
+            // Check enum columns reference an existing enum
+            if (column.type?.base === 'enum' && (!column.enum || !schema.enums?.[column.enum])) {
+                errors.push({
+                    code: 'COLUMN_ENUM_NOT_FOUND',
+                    message: `Column '${column.name}' in table '${table.name}' has enum type but references ${column.enum ? `non-existent enum '${column.enum}'` : 'no enum'}`,
+                    table: tableName,
+                    column: columnName,
+                });
             }
 
             // Track primary keys
@@ -186,14 +271,12 @@ function validateColumns(schema: NormalizedSchema, errors: ValidationError[]): v
             }
         }
 
-        // Check only one primary key per table
-        if (primaryKeys.length > 1) {
-            // Add error for each PK after the first
-            for (let i = 1; i < primaryKeys.length; i++) {
-                const pkColumnName = primaryKeys[i];
+        // Several PK columns form a composite key; none of them may be nullable
+        for (const pkColumnName of primaryKeys) {
+            if (table.columns[pkColumnName].nullable) {
                 errors.push({
-                    code: 'COLUMN_MULTIPLE_PK',
-                    message: `Table '${table.name}' has multiple primary keys. Only one primary key allowed per table.`,
+                    code: 'COLUMN_PK_NULLABLE',
+                    message: `Primary key column '${table.columns[pkColumnName].name}' in table '${table.name}' cannot be nullable`,
                     table: tableName,
                     column: pkColumnName,
                 });
@@ -250,16 +333,96 @@ function validateForeignKeys(schema: NormalizedSchema, errors: ValidationError[]
                 });
             }
 
-            // Check type matching
-            if (column.type && referencedColumn.type && column.type !== referencedColumn.type) {
+            // Check type matching (enum columns must also share the same enum)
+            if (column.type && referencedColumn.type && (!areTypesCompatible(column.type, referencedColumn.type) || column.enum !== referencedColumn.enum)) {
                 errors.push({
                     code: 'FK_TYPE_MISMATCH',
-                    message: `Column '${column.name}' in table '${table.name}' has type '${column.type}' but references '${referencedTableName}.${referencedColumnName}' with type '${referencedColumn.type}'`,
+                    message: `Column '${column.name}' in table '${table.name}' has type '${describeColumnType(column)}' but references '${referencedTableName}.${referencedColumnName}' with type '${describeColumnType(referencedColumn)}'`,
+                    table: tableName,
+                    column: columnName,
+                });
+            }
+
+            // Check SET NULL actions can actually null out the FK column
+            if (!column.nullable && (fk.onDelete === 'SET NULL' || fk.onUpdate === 'SET NULL')) {
+                const trigger = fk.onDelete === 'SET NULL' ? 'ON DELETE' : 'ON UPDATE';
+                errors.push({
+                    code: 'FK_SET_NULL_NOT_NULLABLE',
+                    message: `Column '${column.name}' in table '${table.name}' uses ${trigger} SET NULL but is not nullable. Make the column nullable or choose another action.`,
                     table: tableName,
                     column: columnName,
                 });
             }
         }
+
+        // Check each foreign key maps every column of the referenced primary key exactly once
+        for (const foreignKey of groupForeignKeys(schema, table)) {
+            const referencedTableName = foreignKey[0].foreignKey!.table;
+            const referencedTable = schema.tables[referencedTableName];
+            const referencedColumns = foreignKey.map((column) => column.foreignKey!.column);
+            if (!referencedTable || referencedColumns.some((name) => !referencedTable.columns[name])) {
+                continue; // Missing targets are reported above
+            }
+
+            const primaryKey = Object.keys(referencedTable.columns).filter((name) => referencedTable.columns[name].primaryKey);
+            const coversPrimaryKey = referencedColumns.length === primaryKey.length &&
+                primaryKey.every((name) => referencedColumns.includes(name));
+            if (primaryKey.length > 0 && !coversPrimaryKey) {
+                errors.push({
+                    code: 'FK_INCOMPLETE_KEY',
+                    message: `Foreign key ${describeForeignKey(foreignKey)} in table '${table.name}' references (${referencedColumns.join(', ')}) but the primary key of '${referencedTableName}' is (${primaryKey.join(', ')}). Map every key column exactly once.`,
+                    table: tableName,
+                    column: foreignKey[0].name,
+                });
+            }
+        }
+    }
+}
+
+/**
+ * Validate one-to-one relations
+ */
+function validateOneToOne(schema: NormalizedSchema, errors: ValidationError[]): void {
+    for (const [tableName, table] of Object.entries(schema.tables)) {
+        for (const foreignKey of groupForeignKeys(schema, table)) {
+            const { table: referencedTableName, cardinality } = foreignKey[0].foreignKey!;
+            const oneToOne = isOneToOneForeignKey(table, foreignKey);
+
+            // Check one-to-one relations are backed by unique FK columns
+            if (cardinality === 'one-to-one' && !oneToOne) {
+                errors.push({
+                    code: 'ONE_TO_ONE_NOT_UNIQUE',
+                    message: `Foreign key ${describeForeignKey(foreignKey)} in table '${table.name}' is a one-to-one relation but is not unique`,
+                    table: tableName,
+                    column: foreignKey[0].name,
+                });
+            }
+
+            if (!oneToOne || foreignKey.some((column) => column.nullable)) {
+                continue;
+            }
+
+            // Check required one-to-one FKs don't point at each other: neither row could be inserted first
+            const referencedTable = schema.tables[referencedTableName];
+            const isSelfReference = referencedTableName === tableName;
+            const hasRequiredBackReference = !isSelfReference && !!referencedTable &&
+                groupForeignKeys(schema, referencedTable).some((backReference) =>
+                    backReference[0].foreignKey!.table === tableName &&
+                    backReference.every((column) => !column.nullable) &&
+                    isOneToOneForeignKey(referencedTable, backReference)
+                );
+            if (hasRequiredBackReference || isSelfReference) {
+                const target = isSelfReference
+                    ? 'its own table'
+                    : `'${referencedTableName}', which requires a reference back`;
+                errors.push({
+                    code: 'ONE_TO_ONE_REQUIRED_CYCLE',
+                    message: `Foreign key ${describeForeignKey(foreignKey)} in table '${table.name}' is a required one-to-one reference to ${target}. Make the reference nullable.`,
+                    table: tableName,
+                    column: foreignKey[0].name,
+                });
+            }
+        }
     }
 }
 
@@ -290,11 +453,11 @@ function validateDefaults(schema: NormalizedSchema, errors: ValidationError[]):
                 }
                 autoincrementColumns.push(columnName);
 
-                // Check autoincrement column must be int type
-                if (column.type !== 'int') {
+                // Check autoincrement column must be a (non-array) integer type
+                if (getTypeCategory(column.type) !== 'integer' || column.type.array) {
                     errors.push({
                         code: 'COLUMN_AUTOINCREMENT_NOT_INT',
-                        message: `Column '${column.name}' in table '${table.name}' has auto-increment default but type is '${column.type}'. Auto-increment requires int type.`,
+                        message: `Column '${column.name}' in table '${table.name}' has auto-increment default but type is '${describeColumnType(column)}'. Auto-increment requires an integer type (smallint, int, bigint).`,
                         table: tableName,
                         column: columnName,
                     });
@@ -311,13 +474,69 @@ function validateDefaults(schema: NormalizedSchema, errors: ValidationError[]):
                 }
             }
 
+            // Validate identity column
+            if (defaultKind === 'identity') {
+                // Identity columns are backed by an implicit integer sequence
+                if (getTypeCategory(column.type) !== 'integer' || column.type.array) {
+                    errors.push({
+                        code: 'COLUMN_IDENTITY_NOT_INT',
+                        message: `Column '${column.name}' in table '${table.name}' is an identity column but type is '${describeColumnType(column)}'. Identity requires an integer type (smallint, int, bigint).`,
+                        table: tableName,
+                        column: columnName,
+                    });
+                }
+
+                // PostgreSQL makes identity columns NOT NULL implicitly
+                if (column.nullable) {
+                    errors.push({
+                        code: 'COLUMN_IDENTITY_NULLABLE',
+                        message: `Column '${column.name}' in table '${table.name}' is an identity column and cannot be nullable`,
+                        table: tableName,
+                        column: columnName,
+                    });
+                }
+
+                if (column.default.identity?.increment === 0) {
+                    errors.push({
+                        code: 'COLUMN_IDENTITY_ZERO_INCREMENT',
+                        message: `Column '${column.name}' in table '${table.name}' has an identity increment of 0. The increment must be non-zero.`,
+                        table: tableName,
+                        column: columnName,
+                    });
+                }
+            }
+
+            // Validate sequence default
+            if (defaultKind === 'sequence') {
+                // Check the sequence exists
+                if (!column.default.sequence || !schema.sequences?.[column.default.sequence]) {
+                    errors.push({
+                        code: 'COLUMN_SEQUENCE_NOT_FOUND',
+                        message: `Column '${column.name}' in table '${table.name}' draws its default from a sequence that does not exist`,
+                        table: tableName,
+                        column: columnName,
+                    });
+                }
+
+                // nextval() returns bigint, so only integer columns can hold it
+                if (getTypeCategory(column.type) !== 'integer' || column.type.array) {
+                    errors.push({
+                        code: 'COLUMN_SEQUENCE_NOT_INT',
+                        message: `Column '${column.name}' in table '${table.name}' has a sequence default but type is '${describeColumnType(column)}'. Sequence defaults require an integer type (smallint, int, bigint).`,
+                        table: tableName,
+                        column: columnName,
+                    });
+                }
+            }
+
             // Validate UUID default
             if (defaultKind === 'uuid') {
-                // Check UUID default cannot be on int type
-                if (column.type === 'int') {
+                // Check UUID default is on a uuid or string type
+                const category = getTypeCategory(column.type);
+                if ((category !== 'uuid' && category !== 'string') || column.type.array) {
                     errors.push({
-                        code: 'COLUMN_UUID_ON_INT',
-                        message: `Column '${column.name}' in table '${table.name}' has UUID default but type is 'int'. UUID default requires uuid or varchar type.`,
+                        code: 'COLUMN_UUID_INVALID_TYPE',
+                        message: `Column '${column.name}' in table '${table.name}' has UUID default but type is '${describeColumnType(column)}'. UUID default requires uuid or varchar type.`,
                         table: tableName,
                         column: columnName,
                     });
@@ -326,11 +545,11 @@ function validateDefaults(schema: NormalizedSchema, errors: ValidationError[]):
 
             // Validate now() default
             if (defaultKind === 'now') {
-                // Check now() default can only be on timestamp type
-                if (column.type !== 'timestamp') {
+                // Check now() default can only be on a date/time type
+                if (getTypeCategory(column.type) !== 'temporal' || column.type.array) {
                     errors.push({
                         code: 'COLUMN_NOW_NOT_TIMESTAMP',
-                        message: `Column '${column.name}' in table '${table.name}' has now() default but type is '${column.type}'. now() default requires timestamp type.`,
+                        message: `Column '${column.name}' in table '${table.name}' has now() default but type is '${describeColumnType(column)}'. now() default requires a date/time type.`,
                         table: tableName,
                         column: columnName,
                     });
@@ -339,39 +558,1053 @@ function validateDefaults(schema: NormalizedSchema, errors: ValidationError[]):
 
             // Validate custom value default
             if (defaultKind === 'value') {
-                // Custom value defaults are always valid (no type restrictions)
-                // The value itself is not validated here (could be validated in future)
+                // Enum defaults must be one of the enum's values
+                const enumType = column.type.base === 'enum' && column.enum ? schema.enums?.[column.enum] : undefined;
+                if (enumType && column.default.value !== undefined && !enumType.values.includes(column.default.value)) {
+                    errors.push({
+                        code: 'COLUMN_ENUM_DEFAULT_INVALID',
+                        message: `Column '${column.name}' in table '${table.name}' has default '${column.default.value}' which is not a value of enum '${enumType.name}'`,
+                        table: tableName,
+                        column: columnName,
+                    });
+                }
+
+                // Other literals must parse for the column type (e.g. no 'abc' on an int column)
+                if (!enumType && column.default.value !== undefined && !parseLiteral(column.type, column.default.value)) {
+                    errors.push({
+                        code: 'COLUMN_DEFAULT_INVALID_LITERAL',
+                        message: `Column '${column.name}' in table '${table.name}' has default '${column.default.value}' which is not a valid ${describeColumnType(column)} literal. Use an expression default for SQL functions.`,
+                        table: tableName,
+                        column: columnName,
+                    });
+                }
+            }
+
+            // Validate raw SQL expression default
+            if (defaultKind === 'expression') {
+                const expression = column.default.value?.trim() ?? '';
+                if (expression.length === 0) {
+                    errors.push({
+                        code: 'COLUMN_DEFAULT_EMPTY_EXPRESSION',
+                        message: `Column '${column.name}' in table '${table.name}' has an empty default expression`,
+                        table: tableName,
+                        column: columnName,
+                    });
+                } else if (!hasBalancedParentheses(expression)) {
+                    errors.push({
+                        code: 'COLUMN_DEFAULT_UNBALANCED_PARENTHESES',
+                        message: `Default expression for column '${column.name}' in table '${table.name}' has unbalanced parentheses or quotes`,
+                        table: tableName,
+                        column: columnName,
+                    });
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Validate generated (computed) column rules
+ */
+function validateGeneratedColumns(schema: NormalizedSchema, errors: ValidationError[], warnings: ValidationError[]): void {
+    for (const [tableName, table] of Object.entries(schema.tables)) {
+        for (const [columnName, column] of Object.entries(table.columns)) {
+            if (!column.generated) {
+                continue;
+            }
+
+            if (!hasBalancedParentheses(column.generated)) {
+                errors.push({
+                    code: 'GENERATED_UNBALANCED_PARENTHESES',
+                    message: `Generated expression for column '${column.name}' in table '${table.name}' has unbalanced parentheses or quotes`,
+                    table: tableName,
+                    column: columnName,
+                });
+            }
+
+            // A key computed from other columns changes whenever they do
+            if (column.primaryKey) {
+                warnings.push({
+                    code: 'GENERATED_PRIMARY_KEY',
+                    message: `Generated column '${column.name}' in table '${table.name}' is part of the primary key. Its value changes whenever the columns it is computed from change.`,
+                    table: tableName,
+                    column: columnName,
+                });
+            }
+
+            // The generators drop the default, since PostgreSQL rejects both on one column
+            if (column.default) {
+                warnings.push({
+                    code: 'GENERATED_HAS_DEFAULT',
+                    message: `Generated column '${column.name}' in table '${table.name}' also has a default, which will be ignored`,
+                    table: tableName,
+                    column: columnName,
+                });
+            }
+        }
+    }
+}
+
+/**
+ * Validate auto-updated (updated_at style) columns
+ */
+function validateAutoUpdate(schema: NormalizedSchema, errors: ValidationError[], warnings: ValidationError[]): void {
+    for (const [tableName, table] of Object.entries(schema.tables)) {
+        for (const [columnName, column] of Object.entries(table.columns)) {
+            if (!column.autoUpdate) {
+                continue;
+            }
+
+            // Prisma's @updatedAt and the trigger both write a point in time
+            if (!isTimestampType(column.type)) {
+                errors.push({
+                    code: 'COLUMN_AUTO_UPDATE_NOT_TIMESTAMP',
+                    message: `Column '${column.name}' in table '${table.name}' is auto-updated but type is '${describeColumnType(column)}'. Auto-update requires a timestamp or timestamptz type.`,
+                    table: tableName,
+                    column: columnName,
+                });
+            }
+
+            if (column.generated) {
+                errors.push({
+                    code: 'COLUMN_AUTO_UPDATE_GENERATED',
+                    message: `Generated column '${column.name}' in table '${table.name}' cannot also be auto-updated`,
+                    table: tableName,
+                    column: columnName,
+                });
+            }
+
+            // The trigger only fires on UPDATE, so inserts still need a value
+            if (!column.nullable && !column.default && !column.generated) {
+                warnings.push({
+                    code: 'COLUMN_AUTO_UPDATE_NO_DEFAULT',
+                    message: `Auto-updated column '${column.name}' in table '${table.name}' is NOT NULL without a default, so plain SQL inserts must set it. Add a now() default.`,
+                    table: tableName,
+                    column: columnName,
+                });
+            }
+        }
+    }
+}
+
+/**
+ * Validate enum type rules
+ */
+function validateEnums(schema: NormalizedSchema, errors: ValidationError[]): void {
+    const seenEnumNames = new Set<string>();
+
+    for (const [enumName, enumType] of Object.entries(schema.enums || {})) {
+        // Check snake_case
+        if (!isSnakeCase(enumType.name)) {
+            errors.push({
+                code: 'ENUM_NOT_SNAKE_CASE',
+                message: `Enum name '${enumType.name}' must be in snake_case (lowercase letters, numbers, underscores only)`,
+            });
+        }
+
+        // Check uniqueness (normalization keys by name, so compare case-insensitively)
+        if (seenEnumNames.has(enumName.toLowerCase())) {
+            errors.push({
+                code: 'ENUM_DUPLICATE',
+                message: `Duplicate enum name '${enumType.name}'`,
+            });
+        }
+        seenEnumNames.add(enumName.toLowerCase());
+
+        // Check enum does not clash with a table (tables define a type of the same name in PostgreSQL)
+        if (schema.tables[enumName]) {
+            errors.push({
+                code: 'ENUM_TABLE_CONFLICT',
+                message: `Enum '${enumType.name}' has the same name as a table`,
+            });
+        }
+
+        // Check enum has values
+        if (enumType.values.length === 0) {
+            errors.push({
+                code: 'ENUM_EMPTY',
+                message: `Enum '${enumType.name}' must have at least one value`,
+            });
+        }
+
+        // Check values are non-empty and unique
+        const seenValues = new Set<string>();
+        for (const value of enumType.values) {
+            if (value.trim().length === 0) {
+                errors.push({
+                    code: 'ENUM_EMPTY_VALUE',
+                    message: `Enum '${enumType.name}' has an empty value`,
+                });
+                continue;
+            }
+            if (seenValues.has(value)) {
+                errors.push({
+                    code: 'ENUM_DUPLICATE_VALUE',
+                    message: `Enum '${enumType.name}' has duplicate value '${value}'`,
+                });
             }
+            seenValues.add(value);
+        }
+    }
+}
+
+/**
+ * Validate standalone sequence rules
+ */
+function validateSequences(schema: NormalizedSchema, errors: ValidationError[]): void {
+    const seenSequenceNames = new Set<string>();
+
+    for (const [sequenceName, sequence] of Object.entries(schema.sequences || {})) {
+        // Check snake_case
+        if (!isSnakeCase(sequence.name)) {
+            errors.push({
+                code: 'SEQUENCE_NOT_SNAKE_CASE',
+                message: `Sequence name '${sequence.name}' must be in snake_case (lowercase letters, numbers, underscores only)`,
+            });
+        }
+
+        // Check uniqueness (normalization keys by name, so compare case-insensitively)
+        if (seenSequenceNames.has(sequenceName.toLowerCase())) {
+            errors.push({
+                code: 'SEQUENCE_DUPLICATE',
+                message: `Duplicate sequence name '${sequence.name}'`,
+            });
+        }
+        seenSequenceNames.add(sequenceName.toLowerCase());
+
+        // Sequences and tables share a namespace in PostgreSQL
+        if (schema.tables[sequenceName]) {
+            errors.push({
+                code: 'SEQUENCE_TABLE_CONFLICT',
+                message: `Sequence '${sequence.name}' has the same name as a table`,
+            });
+        }
+
+        if (sequence.increment === 0) {
+            errors.push({
+                code: 'SEQUENCE_ZERO_INCREMENT',
+                message: `Sequence '${sequence.name}' has an increment of 0. The increment must be non-zero.`,
+            });
         }
     }
 }
 
+/**
+ * Validate index rules
+ */
+function validateIndexes(schema: NormalizedSchema, errors: ValidationError[]): void {
+    // Index names share the schema namespace in PostgreSQL, so they must be unique across its tables
+    const seenIndexNames = new Set<string>();
+
+    for (const [tableName, table] of Object.entries(schema.tables)) {
+        for (const index of table.indexes || []) {
+            // Check index covers at least one column
+            if (index.columns.length === 0) {
+                errors.push({
+                    code: 'INDEX_NO_COLUMNS',
+                    message: `Index '${index.name}' on table '${table.name}' must cover at least one column`,
+                    table: tableName,
+                });
+            }
+
+            // Check snake_case
+            if (!isSnakeCase(index.name)) {
+                errors.push({
+                    code: 'INDEX_NOT_SNAKE_CASE',
+                    message: `Index name '${index.name}' must be in snake_case (lowercase letters, numbers, underscores only)`,
+                    table: tableName,
+                });
+            }
+
+            // Check uniqueness across the namespace
+            const qualifiedIndexName = qualifiedTableName(index.name, table.namespace).toLowerCase();
+            if (seenIndexNames.has(qualifiedIndexName)) {
+                errors.push({
+                    code: 'INDEX_DUPLICATE',
+                    message: `Duplicate index name '${index.name}'`,
+                    table: tableName,
+                });
+            }
+            seenIndexNames.add(qualifiedIndexName);
+
+            // Check every indexed column exists
+            for (const columnName of index.columns) {
+                if (!table.columns[columnName]) {
+                    errors.push({
+                        code: 'INDEX_COLUMN_NOT_FOUND',
+                        message: `Index '${index.name}' on table '${table.name}' references non-existent column '${columnName}'`,
+                        table: tableName,
+                        column: columnName,
+                    });
+                }
+            }
+
+            // Check unique indexes use btree (the only PostgreSQL method that supports uniqueness)
+            if (index.unique && index.method !== 'btree') {
+                errors.push({
+                    code: 'INDEX_UNIQUE_NOT_BTREE',
+                    message: `Unique index '${index.name}' on table '${table.name}' uses method '${index.method}'. Unique indexes require btree.`,
+                    table: tableName,
+                });
+            }
+
+            // Trigram operator classes exist for gin and gist only, and only index text
+            if (index.trigram && index.method !== 'gin' && index.method !== 'gist') {
+                errors.push({
+                    code: 'INDEX_TRIGRAM_INVALID_METHOD',
+                    message: `Trigram index '${index.name}' on table '${table.name}' uses method '${index.method}'. Trigram indexes require gin or gist.`,
+                    table: tableName,
+                });
+            }
+            if (index.trigram) {
+                for (const columnName of index.columns) {
+                    const column = table.columns[columnName];
+                    if (column && (getTypeCategory(column.type) !== 'string' || column.type.array)) {
+                        errors.push({
+                            code: 'INDEX_TRIGRAM_INVALID_COLUMN',
+                            message: `Trigram index '${index.name}' on table '${table.name}' covers column '${columnName}' of type '${describeColumnType(column)}'. Trigram indexes require text columns.`,
+                            table: tableName,
+                            column: columnName,
+                        });
+                    }
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Validate declared PostgreSQL extensions
+ */
+function validateExtensions(schema: NormalizedSchema, errors: ValidationError[]): void {
+    const seenExtensions = new Set<string>();
+
+    for (const extension of schema.extensions || []) {
+        if (!isValidExtensionName(extension)) {
+            errors.push({
+                code: 'EXTENSION_INVALID_NAME',
+                message: `Extension name '${extension}' must be lowercase letters, numbers, underscores or hyphens`,
+            });
+        }
+
+        if (seenExtensions.has(extension)) {
+            errors.push({
+                code: 'EXTENSION_DUPLICATE',
+                message: `Extension '${extension}' is declared more than once`,
+            });
+        }
+        seenExtensions.add(extension);
+    }
+}
+
+/**
+ * Whether parentheses in a CHECK expression are balanced, ignoring those inside string literals.
+ * The expression is emitted verbatim inside CHECK (...), so an unbalanced one would break out of it.
+ */
+function hasBalancedParentheses(expression: string): boolean {
+    let depth = 0;
+    let inString = false;
+    for (const char of expression) {
+        if (char === "'") {
+            inString = !inString;
+        } else if (!inString && char === '(') {
+            depth++;
+        } else if (!inString && char === ')') {
+            depth--;
+            if (depth < 0) {
+                return false;
+            }
+        }
+    }
+    return depth === 0 && !inString;
+}
+
+/**
+ * Validate column-level and table-level CHECK constraints
+ */
+function validateChecks(schema: NormalizedSchema, errors: ValidationError[]): void {
+    for (const [tableName, table] of Object.entries(schema.tables)) {
+        // Constraint names must be unique within a table
+        const seenCheckNames = new Set<string>();
+
+        const checks = [
+            ...Object.entries(table.columns)
+                .filter(([, column]) => column.check)
+                .map(([columnKey, column]) => ({ check: column.check!, column: columnKey })),
+            ...(table.checks || []).map((check) => ({ check, column: undefined })),
+        ];
+
+        for (const { check, column } of checks) {
+            // Check expression is not empty (only table-level checks can be blank)
+            if (!check.expression) {
+                errors.push({
+                    code: 'CHECK_EMPTY_EXPRESSION',
+                    message: `CHECK constraint '${check.name}' on table '${table.name}' has no expression`,
+                    table: tableName,
+                });
+            } else if (!hasBalancedParentheses(check.expression)) {
+                errors.push({
+                    code: 'CHECK_UNBALANCED_PARENTHESES',
+                    message: `CHECK constraint '${check.name}' on table '${table.name}' has unbalanced parentheses or quotes`,
+                    table: tableName,
+                    column,
+                });
+            }
+
+            // Check snake_case
+            if (!isSnakeCase(check.name)) {
+                errors.push({
+                    code: 'CHECK_NOT_SNAKE_CASE',
+                    message: `CHECK constraint name '${check.name}' must be in snake_case (lowercase letters, numbers, underscores only)`,
+                    table: tableName,
+                    column,
+                });
+            }
+
+            // Check uniqueness within the table
+            if (seenCheckNames.has(check.name.toLowerCase())) {
+                errors.push({
+                    code: 'CHECK_DUPLICATE',
+                    message: `Duplicate CHECK constraint name '${check.name}' on table '${table.name}'`,
+                    table: tableName,
+                    column,
+                });
+            }
+            seenCheckNames.add(check.name.toLowerCase());
+        }
+    }
+}
+
+/**
+ * SQL words that can appear bare in a policy expression without naming a column
+ */
+const EXPRESSION_KEYWORDS = new Set([
+    'and', 'or', 'not', 'is', 'null', 'true', 'false', 'in', 'like', 'ilike', 'similar', 'escape',
+    'between', 'any', 'all', 'some', 'case', 'when', 'then', 'else', 'end', 'as', 'distinct', 'from',
+    'user', 'current_user', 'session_user', 'current_role', 'system_user', 'current_catalog', 'current_schema',
+    'current_date', 'current_time', 'current_timestamp', 'localtime', 'localtimestamp',
+    'interval', 'with', 'time', 'zone', 'at', 'collate', 'array', 'double', 'precision', 'varying',
+]);
+
+/**
+ * Bare (unqualified, unquoted) column names an expression refers to, lowercased as PostgreSQL
+ * folds them. Function names, type names (after :: or CAST ... AS), qualified names and
+ * keywords are skipped.
+ * Returns undefined for expressions with subqueries, whose columns belong to other tables.
+ */
+function referencedColumnNames(expression: string): string[] | undefined {
+    // String literals and quoted identifiers cannot be bare column names
+    const stripped = expression.replace(/'(?:[^']|'')*'/g, "''").replace(/"[^"]*"/g, '""');
+    if (/\bselect\b/i.test(stripped)) {
+        return undefined;
+    }
+
+    const names: string[] = [];
+    const identifier = /(::\s*|\.\s*|\bas\s+)?(?<![A-Za-z0-9_$])([A-Za-z_][A-Za-z0-9_$]*)(\s*[(.])?/gi;
+    for (const [, prefix, name, suffix] of stripped.matchAll(identifier)) {
+        if (prefix || suffix || EXPRESSION_KEYWORDS.has(name.toLowerCase())) {
+            continue;
+        }
+        names.push(name.toLowerCase());
+    }
+    return names;
+}
+
+/**
+ * Role names PostgreSQL accepts in TO clauses without a CREATE ROLE
+ */
+const BUILT_IN_ROLES = ['public', 'current_user', 'session_user', 'current_role'];
+
+/**
+ * Validate row-level security policies: naming, which expressions each command allows,
+ * and that expressions only refer to the table's own columns
+ */
+function validatePolicies(schema: NormalizedSchema, errors: ValidationError[], warnings: ValidationError[]): void {
+    for (const [tableName, table] of Object.entries(schema.tables)) {
+        const policies = table.policies || [];
+
+        // Without policies, RLS hides every row from everyone but the owner
+        if (table.rowLevelSecurity && policies.length === 0) {
+            warnings.push({
+                code: 'RLS_NO_POLICIES',
+                message: `Table '${table.name}' has row-level security ${table.rowLevelSecurity} but no policies, so no rows are visible`,
+                table: tableName,
+            });
+        }
+        if (!table.rowLevelSecurity && policies.length > 0) {
+            warnings.push({
+                code: 'POLICY_RLS_DISABLED',
+                message: `Table '${table.name}' has policies but row-level security is disabled, so they are not enforced`,
+                table: tableName,
+            });
+        }
+
+        // Policy names must be unique within a table
+        const seenPolicyNames = new Set<string>();
+
+        for (const policy of policies) {
+            if (!isSnakeCase(policy.name)) {
+                errors.push({
+                    code: 'POLICY_NOT_SNAKE_CASE',
+                    message: `Policy name '${policy.name}' must be in snake_case (lowercase letters, numbers, underscores only)`,
+                    table: tableName,
+                });
+            }
+
+            if (seenPolicyNames.has(policy.name.toLowerCase())) {
+                errors.push({
+                    code: 'POLICY_DUPLICATE',
+                    message: `Duplicate policy name '${policy.name}' on table '${table.name}'`,
+                    table: tableName,
+                });
+            }
+            seenPolicyNames.add(policy.name.toLowerCase());
+
+            for (const role of policy.roles) {
+                if (!/^[A-Za-z_][A-Za-z0-9_$]*$/.test(role)) {
+                    errors.push({
+                        code: 'POLICY_INVALID_ROLE',
+                        message: `Policy '${policy.name}' on table '${table.name}' names invalid role '${role}'`,
+                        table: tableName,
+                    });
+                } else if (schema.roles && !schema.roles[role] && !BUILT_IN_ROLES.includes(role.toLowerCase())) {
+                    // Roles may exist outside the schema, so an undeclared one is only suspicious
+                    warnings.push({
+                        code: 'POLICY_UNKNOWN_ROLE',
+                        message: `Policy '${policy.name}' on table '${table.name}' names role '${role}', which is not in the role list`,
+                        table: tableName,
+                    });
+                }
+            }
+
+            if (!policy.using && !policy.withCheck) {
+                errors.push({
+                    code: 'POLICY_NO_EXPRESSION',
+                    message: `Policy '${policy.name}' on table '${table.name}' needs a USING or WITH CHECK expression`,
+                    table: tableName,
+                });
+            }
+
+            // INSERT only checks new rows; SELECT and DELETE never write any
+            if (policy.using && policy.command === 'INSERT') {
+                errors.push({
+                    code: 'POLICY_USING_NOT_ALLOWED',
+                    message: `Policy '${policy.name}' on table '${table.name}' is for INSERT, which only allows WITH CHECK`,
+                    table: tableName,
+                });
+            }
+            if (policy.withCheck && (policy.command === 'SELECT' || policy.command === 'DELETE')) {
+                errors.push({
+                    code: 'POLICY_WITH_CHECK_NOT_ALLOWED',
+                    message: `Policy '${policy.name}' on table '${table.name}' is for ${policy.command}, which only allows USING`,
+                    table: tableName,
+                });
+            }
+
+            for (const [clause, expression] of [['USING', policy.using], ['WITH CHECK', policy.withCheck]] as const) {
+                if (!expression) {
+                    continue;
+                }
+                if (!hasBalancedParentheses(expression)) {
+                    errors.push({
+                        code: 'POLICY_UNBALANCED_PARENTHESES',
+                        message: `${clause} expression of policy '${policy.name}' on table '${table.name}' has unbalanced parentheses or quotes`,
+                        table: tableName,
+                    });
+                    continue;
+                }
+                for (const columnName of referencedColumnNames(expression) || []) {
+                    if (!table.columns[columnName]) {
+                        errors.push({
+                            code: 'POLICY_UNKNOWN_COLUMN',
+                            message: `${clause} expression of policy '${policy.name}' refers to '${columnName}', which is not a column of table '${table.name}'`,
+                            table: tableName,
+                            column: columnName,
+                        });
+                    }
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Validate roles and their table privileges
+ */
+function validateRoles(schema: NormalizedSchema, errors: ValidationError[]): void {
+    const seenRoleNames = new Set<string>();
+
+    for (const [roleName, role] of Object.entries(schema.roles || {})) {
+        if (!isSnakeCase(role.name)) {
+            errors.push({
+                code: 'ROLE_NOT_SNAKE_CASE',
+                message: `Role name '${role.name}' must be in snake_case (lowercase letters, numbers, underscores only)`,
+            });
+        }
+
+        // pg_ roles are predefined and PUBLIC is a keyword, so neither can be created
+        if (BUILT_IN_ROLES.includes(role.name.toLowerCase()) || role.name.startsWith('pg_')) {
+            errors.push({
+                code: 'ROLE_RESERVED_NAME',
+                message: `Role name '${role.name}' is reserved by PostgreSQL`,
+            });
+        }
+
+        // Check uniqueness (normalization keys by name, so compare case-insensitively)
+        if (seenRoleNames.has(roleName.toLowerCase())) {
+            errors.push({
+                code: 'ROLE_DUPLICATE',
+                message: `Duplicate role name '${role.name}'`,
+            });
+        }
+        seenRoleNames.add(roleName.toLowerCase());
+
+        for (const grant of role.grants) {
+            const table = schema.tables[grant.table];
+            if (!table) {
+                errors.push({
+                    code: 'GRANT_TABLE_NOT_FOUND',
+                    message: `Role '${role.name}' is granted ${grant.privilege} on table '${grant.table}', which does not exist`,
+                    table: grant.table,
+                });
+                continue;
+            }
+            if (!grant.columns) {
+                continue;
+            }
+
+            // DELETE removes whole rows, so PostgreSQL has no column-level form of it
+            if (grant.privilege === 'DELETE') {
+                errors.push({
+                    code: 'GRANT_DELETE_COLUMNS',
+                    message: `Role '${role.name}' is granted DELETE on columns of table '${table.name}'. DELETE can only be granted on the whole table.`,
+                    table: grant.table,
+                });
+            }
+            if (grant.columns.length === 0) {
+                errors.push({
+                    code: 'GRANT_NO_COLUMNS',
+                    message: `Role '${role.name}' is granted ${grant.privilege} on no columns of table '${table.name}'`,
+                    table: grant.table,
+                });
+            }
+            for (const columnName of grant.columns) {
+                if (!table.columns[columnName]) {
+                    errors.push({
+                        code: 'GRANT_COLUMN_NOT_FOUND',
+                        message: `Role '${role.name}' is granted ${grant.privilege} on column '${columnName}', which does not exist in table '${table.name}'`,
+                        table: grant.table,
+                        column: columnName,
+                    });
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Validate partitioned tables: the partition key, that every primary key and unique
+ * constraint includes it (PostgreSQL enforces them per partition), and the bound of
+ * each declared partition
+ */
+function validatePartitioning(schema: NormalizedSchema, errors: ValidationError[], warnings: ValidationError[]): void {
+    const seenPartitionNames = new Set<string>();
+
+    for (const [tableName, table] of Object.entries(schema.tables)) {
+        const partitioning = table.partitioning;
+        if (!partitioning) {
+            continue;
+        }
+        const { strategy, key, partitions } = partitioning;
+
+        if (key.length === 0) {
+            errors.push({
+                code: 'PARTITION_NO_KEY',
+                message: `Partitioned table '${table.name}' must have a partition key`,
+                table: tableName,
+            });
+        }
+
+        // LIST partitions match single values, so the key cannot span columns
+        if (strategy === 'LIST' && key.length > 1) {
+            errors.push({
+                code: 'PARTITION_LIST_MULTIPLE_COLUMNS',
+                message: `Table '${table.name}' is partitioned by LIST on ${key.length} columns. LIST partitioning requires a single-column key.`,
+                table: tableName,
+            });
+        }
+
+        for (const columnName of key) {
+            const column = table.columns[columnName];
+            if (!column) {
+                errors.push({
+                    code: 'PARTITION_KEY_COLUMN_NOT_FOUND',
+                    message: `Partition key of table '${table.name}' references non-existent column '${columnName}'`,
+                    table: tableName,
+                    column: columnName,
+                });
+            } else if (column.generated) {
+                errors.push({
+                    code: 'PARTITION_KEY_GENERATED',
+                    message: `Partition key of table '${table.name}' uses generated column '${columnName}'. Generated columns cannot be part of a partition key.`,
+                    table: tableName,
+                    column: columnName,
+                });
+            }
+        }
+
+        // Primary keys and unique constraints are enforced per partition, so each must contain the whole key
+        const primaryKey = Object.values(table.columns).filter((column) => column.primaryKey).map((column) => column.name);
+        const uniqueKeys = [
+            ...Object.values(table.columns).filter((column) => column.unique).map((column) => [column.name]),
+            ...(table.indexes || []).filter((index) => index.unique).map((index) => index.columns),
+        ];
+        const missingKeyColumns = (columns: string[]) => key.filter((columnName) => !columns.includes(columnName));
+        if (primaryKey.length > 0 && missingKeyColumns(primaryKey).length > 0) {
+            errors.push({
+                code: 'PARTITION_KEY_NOT_IN_PRIMARY_KEY',
+                message: `Primary key (${primaryKey.join(', ')}) of partitioned table '${table.name}' must include partition key column(s) ${missingKeyColumns(primaryKey).join(', ')}`,
+                table: tableName,
+            });
+        }
+        for (const uniqueKey of uniqueKeys) {
+            if (missingKeyColumns(uniqueKey).length > 0) {
+                errors.push({
+                    code: 'PARTITION_KEY_NOT_IN_UNIQUE',
+                    message: `Unique constraint (${uniqueKey.join(', ')}) of partitioned table '${table.name}' must include partition key column(s) ${missingKeyColumns(uniqueKey).join(', ')}`,
+                    table: tableName,
+                });
+            }
+        }
+
+        if (partitions.length === 0) {
+            warnings.push({
+                code: 'PARTITION_NO_PARTITIONS',
+                message: `Partitioned table '${table.name}' has no partitions, so every insert into it will fail`,
+                table: tableName,
+            });
+        }
+
+        if (partitions.filter((partition) => partition.isDefault).length > 1) {
+            errors.push({
+                code: 'PARTITION_MULTIPLE_DEFAULTS',
+                message: `Partitioned table '${table.name}' has more than one default partition`,
+                table: tableName,
+            });
+        }
+
+        for (const partition of partitions) {
+            if (!isSnakeCase(partition.name)) {
+                errors.push({
+                    code: 'PARTITION_NOT_SNAKE_CASE',
+                    message: `Partition name '${partition.name}' must be in snake_case (lowercase letters, numbers, underscores only)`,
+                    table: tableName,
+                });
+            }
+
+            // Partitions are tables in the parent's namespace, so their names compete with tables and views
+            const partitionKey = qualifiedTableName(partition.name, table.namespace).toLowerCase();
+            if (schema.tables[partitionKey] || schema.views?.[partitionKey] || seenPartitionNames.has(partitionKey)) {
+                errors.push({
+                    code: 'PARTITION_DUPLICATE',
+                    message: `Partition name '${partition.name}' is already used by another table, view or partition`,
+                    table: tableName,
+                });
+            }
+            seenPartitionNames.add(partitionKey);
+
+            if (partition.isDefault) {
+                if (strategy === 'HASH') {
+                    errors.push({
+                        code: 'PARTITION_DEFAULT_HASH',
+                        message: `Partition '${partition.name}' of table '${table.name}' is a default partition. HASH partitioning has no default partition.`,
+                        table: tableName,
+                    });
+                }
+                continue;
+            }
+
+            const bounds = strategy === 'RANGE'
+                ? [partition.from, partition.to]
+                : strategy === 'LIST' ? [partition.values] : [];
+            if (strategy === 'HASH' ? partition.modulus === undefined || partition.remainder === undefined : bounds.some((bound) => bound === undefined)) {
+                errors.push({
+                    code: 'PARTITION_MISSING_BOUND',
+                    message: strategy === 'RANGE'
+                        ? `Partition '${partition.name}' of table '${table.name}' needs FROM and TO bounds`
+                        : strategy === 'LIST'
+                            ? `Partition '${partition.name}' of table '${table.name}' needs a list of values`
+                            : `Partition '${partition.name}' of table '${table.name}' needs a modulus and remainder`,
+                    table: tableName,
+                });
+                continue;
+            }
+
+            // Bounds are emitted inside parentheses, so an unbalanced one would break out of them
+            if (bounds.some((bound) => bound !== undefined && !hasBalancedParentheses(bound))) {
+                errors.push({
+                    code: 'PARTITION_UNBALANCED_PARENTHESES',
+                    message: `Partition '${partition.name}' of table '${table.name}' has unbalanced parentheses or quotes in its bound`,
+                    table: tableName,
+                });
+            }
+
+            const { modulus, remainder } = partition;
+            if (strategy === 'HASH' && modulus !== undefined && remainder !== undefined) {
+                if (!Number.isInteger(modulus) || modulus < 1 || !Number.isInteger(remainder) || remainder < 0 || remainder >= modulus) {
+                    errors.push({
+                        code: 'PARTITION_INVALID_HASH_BOUND',
+                        message: `Partition '${partition.name}' of table '${table.name}' has modulus ${modulus} and remainder ${remainder}. The modulus must be a positive integer and the remainder an integer below it.`,
+                        table: tableName,
+                    });
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Validate join tables and the many-to-many relations that run through them
+ */
+function validateJoinTables(schema: NormalizedSchema, errors: ValidationError[]): void {
+    for (const [tableName, table] of Object.entries(schema.tables)) {
+        const columns = Object.entries(table.columns);
+        const foreignKeys = columns.filter(([, column]) => column.foreignKey);
+
+        if (!table.joinTable) {
+            // Check many-to-many FKs live on a join table
+            for (const [columnKey, column] of foreignKeys) {
+                if (column.foreignKey!.cardinality === 'many-to-many') {
+                    errors.push({
+                        code: 'MANY_TO_MANY_WITHOUT_JOIN_TABLE',
+                        message: `Column '${column.name}' in table '${table.name}' is a many-to-many relation but '${table.name}' is not a join table`,
+                        table: tableName,
+                        column: columnKey,
+                    });
+                }
+            }
+            continue;
+        }
+
+        // Check join table links two tables
+        if (foreignKeys.length < 2) {
+            errors.push({
+                code: 'JOIN_TABLE_FOREIGN_KEYS',
+                message: `Join table '${table.name}' must have foreign keys to both sides of the relation`,
+                table: tableName,
+            });
+            continue;
+        }
+
+        // Check the foreign keys form the composite primary key
+        for (const [columnKey, column] of foreignKeys) {
+            if (!column.primaryKey) {
+                errors.push({
+                    code: 'JOIN_TABLE_PRIMARY_KEY',
+                    message: `Column '${column.name}' in join table '${table.name}' must be part of its composite primary key`,
+                    table: tableName,
+                    column: columnKey,
+                });
+            }
+        }
+
+        // Check implicit join tables hold nothing but the two keys (Prisma owns their shape)
+        if (table.joinTable.prismaMode === 'implicit' && (foreignKeys.length !== 2 || columns.length !== 2)) {
+            errors.push({
+                code: 'JOIN_TABLE_IMPLICIT_EXTRA_COLUMNS',
+                message: `Join table '${table.name}' has columns besides its two foreign keys. Use an explicit join model in Prisma.`,
+                table: tableName,
+            });
+        }
+    }
+}
+
+/**
+ * Validate views and materialized views: naming, declared columns, query and dependencies
+ */
+function validateViews(schema: NormalizedSchema, errors: ValidationError[], warnings: ValidationError[]): void {
+    const views = schema.views || {};
+
+    for (const [viewName, view] of Object.entries(views)) {
+        const kind = view.materialized ? 'Materialized view' : 'View';
+
+        if (!isSnakeCase(view.name)) {
+            errors.push({
+                code: 'VIEW_NOT_SNAKE_CASE',
+                message: `${kind} name '${view.name}' must be in snake_case (lowercase letters, numbers, underscores only)`,
+                table: viewName,
+            });
+        }
+
+        if (view.namespace !== undefined && (!isSnakeCase(view.namespace) || view.namespace.startsWith('pg_') || view.namespace === 'information_schema')) {
+            errors.push({
+                code: 'VIEW_INVALID_NAMESPACE',
+                message: `${kind} '${view.name}' has namespace '${view.namespace}', which must be snake_case and not a system schema (pg_*, information_schema)`,
+                table: viewName,
+            });
+        }
+
+        // Views and tables share a namespace in PostgreSQL
+        if (schema.tables[viewName]) {
+            errors.push({
+                code: 'VIEW_TABLE_CONFLICT',
+                message: `${kind} '${viewName}' has the same name as a table`,
+                table: viewName,
+            });
+        }
+
+        if (view.query.length === 0) {
+            errors.push({
+                code: 'VIEW_EMPTY_QUERY',
+                message: `${kind} '${view.name}' must have a query`,
+                table: viewName,
+            });
+        } else if (!hasBalancedParentheses(view.query)) {
+            errors.push({
+                code: 'VIEW_UNBALANCED_PARENTHESES',
+                message: `${kind} '${view.name}' has unbalanced parentheses or quotes in its query`,
+                table: viewName,
+            });
+        }
+
+        const columns = Object.values(view.columns);
+        if (columns.length === 0) {
+            errors.push({
+                code: 'VIEW_NO_COLUMNS',
+                message: `${kind} '${view.name}' must declare at least one output column`,
+                table: viewName,
+            });
+        }
+
+        for (const column of columns) {
+            if (!isSnakeCase(column.name)) {
+                errors.push({
+                    code: 'VIEW_COLUMN_NOT_SNAKE_CASE',
+                    message: `Column name '${column.name}' in ${kind.toLowerCase()} '${view.name}' must be in snake_case`,
+                    table: viewName,
+                    column: column.name,
+                });
+            }
+            if (column.type.base === 'enum' && (!column.enum || !schema.enums?.[column.enum])) {
+                errors.push({
+                    code: 'VIEW_COLUMN_ENUM_NOT_FOUND',
+                    message: `Column '${column.name}' in ${kind.toLowerCase()} '${view.name}' uses an enum that does not exist`,
+                    table: viewName,
+                    column: column.name,
+                });
+            }
+        }
+
+        // Undeclared dependencies leave creation order and delete warnings to chance
+        if (view.dependencies.length === 0) {
+            warnings.push({
+                code: 'VIEW_NO_DEPENDENCIES',
+                message: `${kind} '${view.name}' declares no tables or views it reads from`,
+                table: viewName,
+            });
+        }
+
+        // Prisma only generates a client for views with a unique field
+        if (columns.length > 0 && !columns.some((column) => column.unique)) {
+            warnings.push({
+                code: 'VIEW_NO_UNIQUE_COLUMN',
+                message: `${kind} '${view.name}' has no unique column; Prisma Client cannot query it`,
+                table: viewName,
+            });
+        }
+    }
+
+    // A view cannot be created before the views it reads from, so dependencies must not loop
+    const visited = new Set<string>();
+    const visiting = new Set<string>();
+    const reported = new Set<string>();
+
+    function visit(viewName: string): void {
+        if (visited.has(viewName)) {
+            return;
+        }
+        visiting.add(viewName);
+        for (const dependency of views[viewName].dependencies) {
+            if (!views[dependency]) {
+                continue;
+            }
+            if (visiting.has(dependency)) {
+                if (!reported.has(dependency)) {
+                    reported.add(dependency);
+                    errors.push({
+                        code: 'VIEW_DEPENDENCY_CYCLE',
+                        message: `View '${dependency}' depends on itself through '${viewName}'`,
+                        table: dependency,
+                    });
+                }
+                continue;
+            }
+            visit(dependency);
+        }
+        visiting.delete(viewName);
+        visited.add(viewName);
+    }
+
+    for (const viewName of Object.keys(views)) {
+        visit(viewName);
+    }
+}
+
 /**
  * Pure function that validates a normalized schema and returns validation results
  * 
  * This function checks:
- * - Table naming (snake_case, reserved keywords, uniqueness, not empty)
+ * - Table naming (snake_case, reserved keywords, uniqueness within a namespace, not empty, valid namespace)
  * - Column naming (snake_case, uniqueness within table, not empty, has type)
- * - Primary key constraints (only one PK per table)
- * - Foreign key integrity (table exists, column exists, is PK, type matches)
+ * - Column type parameters (length, precision, scale)
+ * - Primary key constraints (PK columns not nullable; several form a composite key)
+ * - Foreign key integrity (table exists, column exists, is PK, type matches, SET NULL on nullable, whole composite key mapped)
+ * - One-to-one relations (unique FK, no mutually required references)
  * - Structural rules (tables have columns)
- * - Default value constraints (autoincrement, UUID, now(), custom)
+ * - Default value constraints (autoincrement, identity, sequence, UUID, now(), typed literals, expressions)
+ * - Generated columns (balanced expression; warns on primary keys and defaults)
+ * - Auto-updated columns (timestamp types only, not generated; warns without a default)
+ * - Index definitions (columns exist, naming, unique requires btree, trigram requires gin/gist on text)
+ * - CHECK constraints (non-empty, balanced parentheses, naming, uniqueness within table)
+ * - Row-level security policies (naming, roles, expressions allowed per command, referenced columns exist)
+ * - Roles (naming, reserved names, uniqueness) and their grants (tables and columns exist, no column-level DELETE)
+ * - Partitioning (key columns exist, primary and unique keys include the key, partition names and bounds)
+ * - Join tables (FKs to both sides, composite PK, implicit Prisma tables hold only the keys)
+ * - Enum types (naming, non-empty, unique values, enum column references and defaults)
+ * - Sequences (naming, uniqueness, no clash with tables, non-zero increment)
+ * - Views (naming, query, declared columns, no dependency cycles; warns without dependencies or a unique column)
+ * - Extensions (naming, declared once)
  * 
  * @param schema - Normalized schema to validate
- * @returns Validation result with validity status and all errors
+ * @returns Validation result with validity status, all errors and warnings
  */
 export function validateSchema(schema: NormalizedSchema): ValidationResult {
     const errors: ValidationError[] = [];
+    const warnings: ValidationError[] = [];
 
-    // Validate in order: tables, columns, foreign keys, defaults
+    // Validate in order: enums, sequences, tables, columns, foreign keys, defaults, indexes, views
+    validateEnums(schema, errors);
+    validateSequences(schema, errors);
     validateTables(schema, errors);
     validateColumns(schema, errors);
     validateForeignKeys(schema, errors);
+    validateOneToOne(schema, errors);
     validateDefaults(schema, errors);
+    validateGeneratedColumns(schema, errors, warnings);
+    validateAutoUpdate(schema, errors, warnings);
+    validateIndexes(schema, errors);
+    validateChecks(schema, errors);
+    validatePolicies(schema, errors, warnings);
+    validateRoles(schema, errors);
+    validatePartitioning(schema, errors, warnings);
+    validateJoinTables(schema, errors);
+    validateViews(schema, errors, warnings);
+    validateExtensions(schema, errors);
 
     return {
         valid: errors.length === 0,
         errors,
+        warnings,
     };
 }
 
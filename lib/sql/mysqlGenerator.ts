@@ -0,0 +1,525 @@
+import { NormalizedSchema, NormalizedColumn, NormalizedTable, NormalizedIndex, NormalizedCheck, NormalizedView, groupForeignKeys } from '../schemaNormalizer';
+import { ValidationError, ValidationResult } from '../schemaValidator';
+import { validateSchemaForGeneration } from '../generatorValidation';
+import { TYPE_REGISTRY, formatTypeParams, getTypeCategory, parseLiteral } from '../columnTypes';
+import { orderTables } from './tableOrder';
+
+/**
+ * Options for MySQL output
+ */
+export interface MySQLOptions {
+    charset: string;
+    collation: string;
+    uuidStorage: 'char' | 'binary'; // CHAR(36) text or BINARY(16) via UUID_TO_BIN()
+}
+
+export const DEFAULT_MYSQL_OPTIONS: MySQLOptions = {
+    charset: 'utf8mb4',
+    collation: 'utf8mb4_unicode_ci',
+    uuidStorage: 'char',
+};
+
+// MySQL types that can only be indexed with a prefix length (or, for GEOMETRY, a SPATIAL index)
+const UNKEYABLE_TYPE = /^(TEXT|LONGBLOB|JSON|GEOMETRY)$/;
+
+// PostgreSQL casts, operators and functions MySQL rejects or reads differently (|| is logical OR);
+// now() is valid MySQL but not allowed in CHECK constraints and generated columns
+const POSTGRES_ONLY_EXPRESSION = /::|\|\||\bilike\b|\binterval\s+'|\b(now|gen_random_uuid|nextval|currval|setval|uuid_generate_v\w+|current_setting|date_trunc|to_char|to_timestamp|age)\s*\(/i;
+
+function quoteIdentifier(name: string): string {
+    return `\`${name.replace(/`/g, '``')}\``;
+}
+
+/**
+ * Backtick-quoted name of a table or view; PostgreSQL schemas become MySQL databases
+ */
+function quoteRelationName(relation: { name: string; namespace?: string }): string {
+    return relation.namespace
+        ? `${quoteIdentifier(relation.namespace)}.${quoteIdentifier(relation.name)}`
+        : quoteIdentifier(relation.name);
+}
+
+/**
+ * MySQL treats backslashes in string literals as escapes, so they are doubled along with quotes
+ */
+function escapeSQLValue(value: string): string {
+    const escaped = value.replace(/\\/g, '\\\\').replace(/'/g, "''");
+    return `'${escaped}'`;
+}
+
+/**
+ * MySQL column type: enums inline their values, arrays become JSON, unbounded VARCHAR
+ * becomes TEXT (MySQL requires a length) and uuid follows the chosen storage
+ */
+function mapTypeToMySQL(column: NormalizedColumn, schema: NormalizedSchema, options: MySQLOptions): string {
+    if (column.type.array) {
+        return 'JSON';
+    }
+    if (column.type.base === 'enum') {
+        const values = schema.enums?.[column.enum ?? '']?.values || [];
+        return `ENUM(${values.map(escapeSQLValue).join(', ')})`;
+    }
+    if (column.type.base === 'uuid' && options.uuidStorage === 'binary') {
+        return 'BINARY(16)';
+    }
+    if (column.type.base === 'varchar' && column.type.length === undefined) {
+        return 'TEXT';
+    }
+    return `${TYPE_REGISTRY[column.type.base].mysql}${formatTypeParams(column.type)}`;
+}
+
+/**
+ * Renders a literal default for its column type: numbers bare, booleans as 1/0, everything
+ * else quoted. TEXT, BLOB, JSON and GEOMETRY columns only take expression defaults, so
+ * their literals are parenthesized.
+ */
+function generateLiteralSQL(column: NormalizedColumn, value: string, mysqlType: string, options: MySQLOptions): string {
+    const literal = parseLiteral(column.type, value);
+    if (literal?.kind === 'number') {
+        return literal.value;
+    }
+    if (literal?.kind === 'boolean') {
+        return literal.value ? '1' : '0';
+    }
+    const quoted = escapeSQLValue(literal?.value ?? value);
+    if (column.type.base === 'uuid' && options.uuidStorage === 'binary') {
+        return `(UUID_TO_BIN(${quoted}))`;
+    }
+    return UNKEYABLE_TYPE.test(mysqlType) ? `(${quoted})` : quoted;
+}
+
+/**
+ * DEFAULT clause for now(), matching the column's temporal type
+ */
+function generateNowSQL(column: NormalizedColumn): string {
+    if (column.type.base === 'date') {
+        return '(CURRENT_DATE)';
+    }
+    if (column.type.base === 'time') {
+        return '(CURRENT_TIME(6))';
+    }
+    return 'CURRENT_TIMESTAMP(6)';
+}
+
+function generateColumnDefinition(column: NormalizedColumn, schema: NormalizedSchema, options: MySQLOptions): string {
+    const mysqlType = mapTypeToMySQL(column, schema, options);
+    const parts: string[] = [quoteIdentifier(column.name), mysqlType];
+
+    // A generated column computes its value, so it cannot also have a default
+    if (column.generated) {
+        parts.push(`GENERATED ALWAYS AS (${column.generated}) STORED`);
+    }
+    if (!column.nullable) {
+        parts.push('NOT NULL');
+    }
+    if (!column.generated && column.default) {
+        if (column.default.kind === 'autoincrement' || column.default.kind === 'identity') {
+            parts.push('AUTO_INCREMENT');
+        } else if (column.default.kind === 'uuid') {
+            parts.push(options.uuidStorage === 'binary' ? 'DEFAULT (UUID_TO_BIN(UUID()))' : 'DEFAULT (UUID())');
+        } else if (column.default.kind === 'now') {
+            parts.push(`DEFAULT ${generateNowSQL(column)}`);
+        } else if (column.default.kind === 'value' && column.default.value !== undefined && !column.type.array) {
+            // Array defaults are PostgreSQL '{a,b}' literals, which a JSON column rejects
+            parts.push(`DEFAULT ${generateLiteralSQL(column, column.default.value, mysqlType, options)}`);
+        } else if (column.default.kind === 'expression' && column.default.value) {
+            parts.push(`DEFAULT (${column.default.value.trim()})`);
+        }
+        // Sequence defaults have no MySQL form; validateMySQLSchema reports them
+    }
+    if (column.autoUpdate) {
+        parts.push('ON UPDATE CURRENT_TIMESTAMP(6)');
+    }
+
+    if (column.unique) {
+        parts.push('UNIQUE');
+    }
+
+    return parts.join(' ');
+}
+
+function generateCheckSQL(check: NormalizedCheck): string {
+    return `CONSTRAINT ${quoteIdentifier(check.name)} CHECK (${check.expression})`;
+}
+
+/**
+ * Table options: engine, character set and collation, the identity start value
+ * (MySQL sets it per table) and the table comment
+ */
+function generateTableOptions(table: NormalizedTable, options: MySQLOptions): string {
+    const parts = ['ENGINE=InnoDB', `DEFAULT CHARSET=${options.charset}`, `COLLATE=${options.collation}`];
+    const identity = Object.values(table.columns).find(column => column.default?.kind === 'identity')?.default?.identity;
+    if (identity?.start !== undefined) {
+        parts.push(`AUTO_INCREMENT=${identity.start}`);
+    }
+    if (table.description) {
+        parts.push(`COMMENT=${escapeSQLValue(table.description)}`);
+    }
+    return parts.join(' ');
+}
+
+function generateTableSQL(table: NormalizedTable, schema: NormalizedSchema, options: MySQLOptions): string {
+    const lines: string[] = [];
+    lines.push(`CREATE TABLE ${quoteRelationName(table)} (`);
+
+    const columnDefs: string[] = [];
+    const fkConstraints: string[] = [];
+
+    const pkColumns = Object.values(table.columns).filter(c => c.primaryKey);
+    const isCompositePK = pkColumns.length > 1;
+
+    for (const column of Object.values(table.columns)) {
+        let def = generateColumnDefinition(column, schema, options);
+
+        if (!isCompositePK && column.primaryKey) {
+            def += ' PRIMARY KEY';
+        }
+        if (column.description) {
+            def += ` COMMENT ${escapeSQLValue(column.description)}`;
+        }
+        if (column.check) {
+            def += ` ${generateCheckSQL(column.check)}`;
+        }
+
+        columnDefs.push(`  ${def}`);
+    }
+
+    if (isCompositePK) {
+        const pkNames = pkColumns.map(c => quoteIdentifier(c.name)).join(', ');
+        columnDefs.push(`  PRIMARY KEY (${pkNames})`);
+    }
+
+    // Composite foreign keys list their columns in referenced primary key order
+    for (const foreignKey of groupForeignKeys(schema, table)) {
+        const { table: referencedTable, onDelete, onUpdate } = foreignKey[0].foreignKey!;
+        const columns = foreignKey.map(c => quoteIdentifier(c.name)).join(', ');
+        const referencedColumns = foreignKey.map(c => quoteIdentifier(c.foreignKey!.column)).join(', ');
+        let constraint = `  FOREIGN KEY (${columns}) REFERENCES ${quoteRelationName(schema.tables[referencedTable])} (${referencedColumns})`;
+        if (onDelete) {
+            constraint += ` ON DELETE ${onDelete}`;
+        }
+        if (onUpdate) {
+            constraint += ` ON UPDATE ${onUpdate}`;
+        }
+        fkConstraints.push(constraint);
+    }
+
+    const checkConstraints = (table.checks || []).map(check => `  ${generateCheckSQL(check)}`);
+
+    const allDefinitions = [...columnDefs, ...fkConstraints, ...checkConstraints];
+    lines.push(allDefinitions.join(',\n'));
+    lines.push(`) ${generateTableOptions(table, options)};`);
+
+    return lines.join('\n');
+}
+
+/**
+ * A GiST index on one geometry column, which MySQL creates as a SPATIAL index
+ */
+function isSpatialIndex(table: NormalizedTable, index: NormalizedIndex): boolean {
+    return index.method === 'gist'
+        && index.columns.length === 1
+        && table.columns[index.columns[0]]?.type.base === 'geometry';
+}
+
+/**
+ * Spatial indexes keep their meaning; every other method is created as InnoDB's
+ * B-tree (validateMySQLSchema warns about the change)
+ */
+function generateIndexSQL(table: NormalizedTable, index: NormalizedIndex): string {
+    const kind = isSpatialIndex(table, index) ? 'SPATIAL ' : index.unique ? 'UNIQUE ' : '';
+    const columns = index.columns.map(quoteIdentifier).join(', ');
+    return `CREATE ${kind}INDEX ${quoteIdentifier(index.name)} ON ${quoteRelationName(table)} (${columns});`;
+}
+
+/**
+ * CREATE VIEW with its declared column names; MySQL has no materialized views, so those
+ * are created as plain views
+ */
+function generateViewSQL(view: NormalizedView): string {
+    const columns = Object.keys(view.columns).map(quoteIdentifier).join(', ');
+    const query = view.query.replace(/;\s*$/, '');
+    return `CREATE VIEW ${quoteRelationName(view)} (${columns}) AS\n${query};`;
+}
+
+/**
+ * Generates MySQL 8 DDL. Foreign key checks are switched off while the tables are created,
+ * so tables may reference each other in any order.
+ *
+ * Sequences, row-level security, roles, extensions and partitioning have no MySQL
+ * counterpart and are skipped; validateMySQLSchema reports what is lost.
+ */
+export function generateMySQL(schema: NormalizedSchema, options: MySQLOptions = DEFAULT_MYSQL_OPTIONS): string {
+    validateSchemaForGeneration(schema);
+
+    const statements: string[] = [];
+
+    // PostgreSQL schemas become databases, which must exist before anything is created in them
+    const namespaces = new Set(
+        [...Object.values(schema.tables), ...Object.values(schema.views || {})]
+            .map(relation => relation.namespace)
+            .filter((namespace): namespace is string => Boolean(namespace))
+    );
+    for (const namespace of [...namespaces].sort()) {
+        statements.push(`CREATE DATABASE IF NOT EXISTS ${quoteIdentifier(namespace)};`);
+    }
+
+    statements.push('SET FOREIGN_KEY_CHECKS = 0;');
+    for (const table of Object.values(schema.tables)) {
+        statements.push(generateTableSQL(table, schema, options));
+    }
+    statements.push('SET FOREIGN_KEY_CHECKS = 1;');
+
+    for (const table of Object.values(schema.tables)) {
+        for (const index of table.indexes || []) {
+            statements.push(generateIndexSQL(table, index));
+        }
+    }
+
+    // Unlike tables, views need what they read from to exist; orderTables puts them after it
+    for (const name of orderTables(schema)) {
+        if (schema.views?.[name] && !schema.tables[name]) {
+            statements.push(generateViewSQL(schema.views[name]));
+        }
+    }
+
+    return statements.join('\n\n');
+}
+
+/**
+ * Columns a key is built on: primary keys, unique columns, index columns and both sides
+ * of every foreign key
+ */
+function keyedColumns(table: NormalizedTable): { column: NormalizedColumn; usage: string }[] {
+    const keyed: { column: NormalizedColumn; usage: string }[] = [];
+    for (const column of Object.values(table.columns)) {
+        if (column.primaryKey) {
+            keyed.push({ column, usage: 'part of the primary key' });
+        } else if (column.unique) {
+            keyed.push({ column, usage: 'unique' });
+        } else if (column.foreignKey) {
+            keyed.push({ column, usage: 'a foreign key' });
+        }
+    }
+    for (const index of table.indexes || []) {
+        if (isSpatialIndex(table, index)) {
+            continue;
+        }
+        for (const name of index.columns) {
+            const column = table.columns[name];
+            if (column) {
+                keyed.push({ column, usage: `in index '${index.name}'` });
+            }
+        }
+    }
+    return keyed;
+}
+
+/**
+ * MySQL-specific checks on a schema that already passes validateSchema.
+ *
+ * Errors, for schemas MySQL would reject:
+ * - TEXT, BLOB, JSON and GEOMETRY columns (and unbounded varchar) used as keys, which
+ *   MySQL can only index with a prefix length
+ * - Sequence defaults and SET DEFAULT foreign key actions, which MySQL has no form for
+ * - More than one AUTO_INCREMENT column in a table, or one that is not a key
+ *
+ * Warnings, for features the MySQL output drops or changes: sequences, row-level security,
+ * roles, extensions, partitioning, materialized views, non-B-tree indexes, identity options,
+ * arrays stored as JSON, unbounded numerics, and defaults, generated columns, checks and
+ * views written in PostgreSQL-only syntax.
+ *
+ * @param schema - Normalized schema to check
+ * @param options - MySQL output options the schema will be generated with
+ * @returns Validation result with validity status, all errors and warnings
+ */
+export function validateMySQLSchema(schema: NormalizedSchema, options: MySQLOptions = DEFAULT_MYSQL_OPTIONS): ValidationResult {
+    const errors: ValidationError[] = [];
+    const warnings: ValidationError[] = [];
+
+    for (const [tableKey, table] of Object.entries(schema.tables)) {
+        const reported = new Set<string>();
+        for (const { column, usage } of keyedColumns(table)) {
+            const mysqlType = mapTypeToMySQL(column, schema, options);
+            if (UNKEYABLE_TYPE.test(mysqlType) && !reported.has(column.name)) {
+                reported.add(column.name);
+                errors.push({
+                    code: 'MYSQL_KEY_REQUIRES_PREFIX',
+                    message: `Column '${column.name}' in table '${tableKey}' is ${usage}, but becomes ${mysqlType} in MySQL, which can't be indexed without a prefix length. Use varchar(n) or char(n) instead.`,
+                    table: tableKey,
+                    column: column.name,
+                });
+            }
+        }
+
+        const autoIncrement = Object.values(table.columns).filter(column =>
+            !column.generated && (column.default?.kind === 'autoincrement' || column.default?.kind === 'identity'));
+        if (autoIncrement.length > 1) {
+            errors.push({
+                code: 'MYSQL_MULTIPLE_AUTO_INCREMENT',
+                message: `Table '${tableKey}' has ${autoIncrement.length} auto-incrementing columns (${autoIncrement.map(column => column.name).join(', ')}), but MySQL allows only one per table`,
+                table: tableKey,
+            });
+        }
+        for (const column of autoIncrement) {
+            const isKey = column.primaryKey
+                || column.unique
+                || (table.indexes || []).some(index => index.columns[0] === column.name);
+            if (!isKey) {
+                errors.push({
+                    code: 'MYSQL_AUTO_INCREMENT_NOT_KEY',
+                    message: `Auto-incrementing column '${column.name}' in table '${tableKey}' must be the primary key, unique or the first column of an index in MySQL`,
+                    table: tableKey,
+                    column: column.name,
+                });
+            }
+        }
+
+        for (const column of Object.values(table.columns)) {
+            if (column.default?.kind === 'sequence' && !column.generated) {
+                errors.push({
+                    code: 'MYSQL_SEQUENCE_DEFAULT',
+                    message: `Column '${column.name}' in table '${tableKey}' defaults to sequence '${column.default.sequence}', but MySQL has no sequences. Use autoincrement instead.`,
+                    table: tableKey,
+                    column: column.name,
+                });
+            }
+            if (column.foreignKey && (column.foreignKey.onDelete === 'SET DEFAULT' || column.foreignKey.onUpdate === 'SET DEFAULT')) {
+                errors.push({
+                    code: 'MYSQL_SET_DEFAULT_ACTION',
+                    message: `Foreign key '${column.name}' in table '${tableKey}' uses SET DEFAULT, which InnoDB rejects`,
+                    table: tableKey,
+                    column: column.name,
+                });
+            }
+
+            // Expressions are copied through unchanged, so PostgreSQL syntax reaches MySQL as is
+            if (column.default?.kind === 'expression' && !column.generated && column.default.value && POSTGRES_ONLY_EXPRESSION.test(column.default.value)) {
+                warnings.push({
+                    code: 'MYSQL_POSTGRES_EXPRESSION',
+                    message: `Default of column '${column.name}' in table '${tableKey}' uses PostgreSQL-only syntax (${column.default.value.trim()}) and may fail or behave differently in MySQL`,
+                    table: tableKey,
+                    column: column.name,
+                });
+            }
+            if (column.generated && POSTGRES_ONLY_EXPRESSION.test(column.generated)) {
+                warnings.push({
+                    code: 'MYSQL_POSTGRES_EXPRESSION',
+                    message: `Generated column '${column.name}' in table '${tableKey}' uses PostgreSQL-only syntax and may fail or behave differently in MySQL`,
+                    table: tableKey,
+                    column: column.name,
+                });
+            }
+            if (column.check && POSTGRES_ONLY_EXPRESSION.test(column.check.expression)) {
+                warnings.push({
+                    code: 'MYSQL_POSTGRES_EXPRESSION',
+                    message: `Check '${column.check.name}' on table '${tableKey}' uses PostgreSQL-only syntax and may fail or behave differently in MySQL`,
+                    table: tableKey,
+                    column: column.name,
+                });
+            }
+
+            const identity = column.default?.kind === 'identity' ? column.default.identity : undefined;
+            if (identity && (identity.generation === 'always' || identity.increment !== undefined)) {
+                warnings.push({
+                    code: 'MYSQL_IDENTITY_OPTIONS',
+                    message: `Identity column '${column.name}' in table '${tableKey}' becomes AUTO_INCREMENT in MySQL, which always allows explicit values and steps by the server's auto_increment_increment`,
+                    table: tableKey,
+                    column: column.name,
+                });
+            }
+            if (column.type.array) {
+                warnings.push({
+                    code: 'MYSQL_ARRAY_AS_JSON',
+                    message: `Array column '${column.name}' in table '${tableKey}' is stored as JSON in MySQL${column.default?.kind === 'value' ? ' and its default is dropped' : ''}`,
+                    table: tableKey,
+                    column: column.name,
+                });
+            } else if (getTypeCategory(column.type) === 'decimal' && column.type.precision === undefined) {
+                warnings.push({
+                    code: 'MYSQL_NUMERIC_PRECISION',
+                    message: `Column '${column.name}' in table '${tableKey}' has no precision, so MySQL makes it DECIMAL(10, 0) and rounds away decimals`,
+                    table: tableKey,
+                    column: column.name,
+                });
+            }
+        }
+
+        for (const check of table.checks || []) {
+            if (POSTGRES_ONLY_EXPRESSION.test(check.expression)) {
+                warnings.push({
+                    code: 'MYSQL_POSTGRES_EXPRESSION',
+                    message: `Check '${check.name}' on table '${tableKey}' uses PostgreSQL-only syntax and may fail or behave differently in MySQL`,
+                    table: tableKey,
+                });
+            }
+        }
+        for (const index of table.indexes || []) {
+            if ((index.method !== 'btree' || index.trigram) && !isSpatialIndex(table, index)) {
+                warnings.push({
+                    code: 'MYSQL_INDEX_METHOD',
+                    message: `Index '${index.name}' on table '${tableKey}' uses ${index.trigram ? 'trigram operators' : index.method.toUpperCase()}, which MySQL doesn't support; it is created as a B-tree index`,
+                    table: tableKey,
+                });
+            }
+        }
+
+        if (table.rowLevelSecurity || (table.policies || []).length > 0) {
+            warnings.push({
+                code: 'MYSQL_ROW_LEVEL_SECURITY',
+                message: `Table '${tableKey}' uses row-level security, which MySQL doesn't support; its policies are not exported`,
+                table: tableKey,
+            });
+        }
+        if (table.partitioning) {
+            warnings.push({
+                code: 'MYSQL_PARTITIONING',
+                message: `Table '${tableKey}' is partitioned; MySQL declares partitions differently, so they are not exported`,
+                table: tableKey,
+            });
+        }
+    }
+
+    for (const [viewName, view] of Object.entries(schema.views || {})) {
+        if (view.materialized) {
+            warnings.push({
+                code: 'MYSQL_MATERIALIZED_VIEW',
+                message: `Materialized view '${viewName}' is created as a plain view, as MySQL has no materialized views`,
+                table: viewName,
+            });
+        }
+        if (POSTGRES_ONLY_EXPRESSION.test(view.query)) {
+            warnings.push({
+                code: 'MYSQL_POSTGRES_EXPRESSION',
+                message: `View '${viewName}' uses PostgreSQL-only syntax and may fail or behave differently in MySQL`,
+                table: viewName,
+            });
+        }
+    }
+
+    const sequences = Object.keys(schema.sequences || {});
+    if (sequences.length > 0) {
+        warnings.push({
+            code: 'MYSQL_SEQUENCES',
+            message: `MySQL has no sequences, so ${sequences.join(', ')} ${sequences.length === 1 ? 'is' : 'are'} not exported`,
+        });
+    }
+    if (Object.keys(schema.roles || {}).length > 0) {
+        warnings.push({
+            code: 'MYSQL_ROLES',
+            message: 'Roles and privileges are not exported to MySQL',
+        });
+    }
+    if ((schema.extensions || []).length > 0) {
+        warnings.push({
+            code: 'MYSQL_EXTENSIONS',
+            message: `PostgreSQL extensions (${schema.extensions!.join(', ')}) are not exported to MySQL`,
+        });
+    }
+
+    return {
+        valid: errors.length === 0,
+        errors,
+        warnings,
+    };
+}
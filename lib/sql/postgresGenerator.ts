@@ -1,16 +1,23 @@
-import { NormalizedSchema, NormalizedColumn } from '../schemaNormalizer';
+import { NormalizedSchema, NormalizedColumn, NormalizedTable, NormalizedIndex, NormalizedEnum, NormalizedCheck, NormalizedSequence, NormalizedView, NormalizedPolicy, NormalizedRole, NormalizedPartition, NormalizedPartitioning, groupForeignKeys, qualifiedTableName } from '../schemaNormalizer';
+import { IdentityOptions, Privilege } from '@/store/schemaStore';
 import { validateSchemaForGeneration } from '../generatorValidation';
+import { TYPE_REGISTRY, formatTypeParams, parseLiteral } from '../columnTypes';
+import { requiredExtensions } from '../extensions';
+import { orderTables } from './tableOrder';
 
-function mapTypeToPostgres(schemaType: string): string {
-    const typeMap: Record<string, string> = {
-        'int': 'INT',
-        'varchar': 'VARCHAR',
-        'text': 'TEXT',
-        'boolean': 'BOOLEAN',
-        'timestamp': 'TIMESTAMP',
-        'uuid': 'UUID',
+function mapTypeToPostgres(column: NormalizedColumn): string {
+    const baseType = column.type.base === 'enum' && column.enum
+        ? column.enum
+        : TYPE_REGISTRY[column.type.base]?.postgres || column.type.base.toUpperCase();
+    return `${baseType}${formatTypeParams(column.type)}${column.type.array ? '[]' : ''}`;
+}
+
+function mapAutoincrementToPostgres(column: NormalizedColumn): string {
+    const serialMap: Record<string, string> = {
+        'smallint': 'SMALLSERIAL',
+        'bigint': 'BIGSERIAL',
     };
-    return typeMap[schemaType.toLowerCase()] || schemaType.toUpperCase();
+    return serialMap[column.type.base] || 'SERIAL';
 }
 
 function escapeSQLValue(value: string): string {
@@ -18,23 +25,67 @@ function escapeSQLValue(value: string): string {
     return `'${escaped}'`;
 }
 
+/**
+ * Sequence options shared by identity columns and CREATE SEQUENCE, e.g. "START WITH 1000 INCREMENT BY 10"
+ */
+function generateSequenceOptions(options: { start?: number; increment?: number }): string {
+    const parts: string[] = [];
+    if (options.start !== undefined) {
+        parts.push(`START WITH ${options.start}`);
+    }
+    if (options.increment !== undefined) {
+        parts.push(`INCREMENT BY ${options.increment}`);
+    }
+    return parts.join(' ');
+}
+
+function generateIdentitySQL(identity: IdentityOptions): string {
+    const generation = identity.generation === 'always' ? 'ALWAYS' : 'BY DEFAULT';
+    const options = generateSequenceOptions(identity);
+    return `GENERATED ${generation} AS IDENTITY${options ? ` (${options})` : ''}`;
+}
+
+/**
+ * Renders a literal default for its column type: numbers bare, booleans as TRUE/FALSE,
+ * everything else quoted. Unparseable literals stay quoted; the validator reports them.
+ */
+function generateLiteralSQL(column: NormalizedColumn, value: string): string {
+    const literal = parseLiteral(column.type, value);
+    if (literal?.kind === 'number') {
+        return literal.value;
+    }
+    if (literal?.kind === 'boolean') {
+        return literal.value ? 'TRUE' : 'FALSE';
+    }
+    return escapeSQLValue(literal?.value ?? value);
+}
+
 function generateColumnDefinition(column: NormalizedColumn): string {
     const parts: string[] = [column.name];
 
-    if (column.default?.kind === 'autoincrement') {
-        parts.push('SERIAL');
+    if (column.default?.kind === 'autoincrement' && !column.generated) {
+        parts.push(mapAutoincrementToPostgres(column));
     } else {
-        const postgresType = mapTypeToPostgres(column.type);
+        const postgresType = mapTypeToPostgres(column);
         parts.push(postgresType);
     }
 
-    if (column.default) {
-        if (column.default.kind === 'uuid') {
+    // A generated column computes its value, so it cannot also have a default
+    if (column.generated) {
+        parts.push(`GENERATED ALWAYS AS (${column.generated}) STORED`);
+    } else if (column.default) {
+        if (column.default.kind === 'identity') {
+            parts.push(generateIdentitySQL(column.default.identity ?? { generation: 'by-default' }));
+        } else if (column.default.kind === 'sequence' && column.default.sequence) {
+            parts.push(`DEFAULT nextval(${escapeSQLValue(column.default.sequence)})`);
+        } else if (column.default.kind === 'uuid') {
             parts.push('DEFAULT gen_random_uuid()');
         } else if (column.default.kind === 'now') {
             parts.push('DEFAULT now()');
         } else if (column.default.kind === 'value' && column.default.value !== undefined) {
-            parts.push(`DEFAULT ${escapeSQLValue(column.default.value)}`);
+            parts.push(`DEFAULT ${generateLiteralSQL(column, column.default.value)}`);
+        } else if (column.default.kind === 'expression' && column.default.value) {
+            parts.push(`DEFAULT ${column.default.value.trim()}`);
         }
     }
 
@@ -48,56 +99,14 @@ function generateColumnDefinition(column: NormalizedColumn): string {
     return parts.join(' ');
 }
 
-function orderTables(schema: NormalizedSchema): string[] {
-    const tables = Object.keys(schema.tables);
-    const dependencies = new Map<string, Set<string>>();
-
-    for (const [tableName, table] of Object.entries(schema.tables)) {
-        const deps = new Set<string>();
-        for (const column of Object.values(table.columns)) {
-            if (column.foreignKey) {
-                deps.add(column.foreignKey.table);
-            }
-        }
-        dependencies.set(tableName, deps);
-    }
-
-    const ordered: string[] = [];
-    const visited = new Set<string>();
-    const visiting = new Set<string>();
-
-    function visit(tableName: string): void {
-        if (visiting.has(tableName)) {
-            return;
-        }
-        if (visited.has(tableName)) {
-            return;
-        }
-
-        visiting.add(tableName);
-
-        const deps = dependencies.get(tableName) || new Set();
-        for (const dep of deps) {
-            if (schema.tables[dep]) {
-                visit(dep);
-            }
-        }
-
-        visiting.delete(tableName);
-        visited.add(tableName);
-        ordered.push(tableName);
-    }
-
-    for (const tableName of tables) {
-        visit(tableName);
-    }
-
-    return ordered;
+function generateCheckSQL(check: NormalizedCheck): string {
+    return `CONSTRAINT ${check.name} CHECK (${check.expression})`;
 }
 
-function generateTableSQL(tableName: string, table: { name: string; columns: { [key: string]: NormalizedColumn } }): string {
+function generateTableSQL(tableName: string, table: NormalizedTable, schema: NormalizedSchema): string {
     const lines: string[] = [];
-    lines.push(`CREATE TABLE ${table.name} (`);
+    // Table keys are already schema-qualified outside the default namespace
+    lines.push(`CREATE TABLE ${tableName} (`);
 
     const columnDefs: string[] = [];
     const fkConstraints: string[] = [];
@@ -111,6 +120,9 @@ function generateTableSQL(tableName: string, table: { name: string; columns: { [
         if (!isCompositePK && column.primaryKey) {
             def += ' PRIMARY KEY';
         }
+        if (column.check) {
+            def += ` ${generateCheckSQL(column.check)}`;
+        }
 
         columnDefs.push(`  ${def}`);
     }
@@ -120,18 +132,207 @@ function generateTableSQL(tableName: string, table: { name: string; columns: { [
         columnDefs.push(`  PRIMARY KEY (${pkNames})`);
     }
 
-    for (const column of Object.values(table.columns)) {
-        if (column.foreignKey && !column.primaryKey) {
-            fkConstraints.push(
-                `  FOREIGN KEY (${column.name}) REFERENCES ${column.foreignKey.table}(${column.foreignKey.column})`
-            );
+    // Composite foreign keys list their columns in referenced primary key order
+    for (const foreignKey of groupForeignKeys(schema, table)) {
+        const { table: referencedTable, onDelete, onUpdate } = foreignKey[0].foreignKey!;
+        const columns = foreignKey.map(c => c.name).join(', ');
+        const referencedColumns = foreignKey.map(c => c.foreignKey!.column).join(', ');
+        let constraint = `  FOREIGN KEY (${columns}) REFERENCES ${referencedTable}(${referencedColumns})`;
+        if (onDelete) {
+            constraint += ` ON DELETE ${onDelete}`;
         }
+        if (onUpdate) {
+            constraint += ` ON UPDATE ${onUpdate}`;
+        }
+        fkConstraints.push(constraint);
     }
 
-    const allDefinitions = [...columnDefs, ...fkConstraints];
+    const checkConstraints = (table.checks || []).map(check => `  ${generateCheckSQL(check)}`);
+
+    const allDefinitions = [...columnDefs, ...fkConstraints, ...checkConstraints];
     lines.push(allDefinitions.join(',\n'));
-    lines.push(');');
+    lines.push(table.partitioning
+        ? `) PARTITION BY ${table.partitioning.strategy} (${table.partitioning.key.join(', ')});`
+        : ');');
+
+    return lines.join('\n');
+}
+
+/**
+ * FOR VALUES clause of a partition for its parent's strategy, or DEFAULT
+ */
+function generatePartitionBoundSQL(partition: NormalizedPartition, partitioning: NormalizedPartitioning): string {
+    if (partition.isDefault) {
+        return 'DEFAULT';
+    }
+    if (partitioning.strategy === 'RANGE') {
+        return `FOR VALUES FROM (${partition.from}) TO (${partition.to})`;
+    }
+    if (partitioning.strategy === 'LIST') {
+        return `FOR VALUES IN (${partition.values})`;
+    }
+    return `FOR VALUES WITH (MODULUS ${partition.modulus}, REMAINDER ${partition.remainder})`;
+}
+
+/**
+ * Partitions live in their parent's namespace
+ */
+function generatePartitionSQL(tableName: string, table: NormalizedTable, partition: NormalizedPartition): string {
+    const partitionName = qualifiedTableName(partition.name, table.namespace);
+    return `CREATE TABLE ${partitionName} PARTITION OF ${tableName} ${generatePartitionBoundSQL(partition, table.partitioning!)};`;
+}
+
+function generateEnumSQL(enumType: NormalizedEnum): string {
+    const values = enumType.values.map(escapeSQLValue).join(', ');
+    return `CREATE TYPE ${enumType.name} AS ENUM (${values});`;
+}
+
+function generateSequenceSQL(sequence: NormalizedSequence): string {
+    const options = generateSequenceOptions(sequence);
+    return `CREATE SEQUENCE ${sequence.name}${options ? ` ${options}` : ''};`;
+}
+
+function generateIndexSQL(tableName: string, index: NormalizedIndex): string {
+    const unique = index.unique ? 'UNIQUE ' : '';
+    const method = index.method !== 'btree' ? ` USING ${index.method}` : '';
+    const columns = index.trigram
+        ? index.columns.map(column => `${column} ${index.method}_trgm_ops`)
+        : index.columns;
+    return `CREATE ${unique}INDEX ${index.name} ON ${tableName}${method} (${columns.join(', ')});`;
+}
+
+// Trigger function shared by every table with auto-updated columns
+const UPDATED_AT_FUNCTION = 'set_updated_at';
+
+/**
+ * Sets each column named in the trigger's arguments to now(), so one function serves
+ * tables whose auto-updated columns have different names
+ */
+function generateUpdatedAtFunctionSQL(): string {
+    return [
+        `CREATE OR REPLACE FUNCTION ${UPDATED_AT_FUNCTION}() RETURNS trigger`,
+        'LANGUAGE plpgsql AS $$',
+        'BEGIN',
+        '  NEW := jsonb_populate_record(NEW, (SELECT jsonb_object_agg(name, now()) FROM unnest(TG_ARGV) AS name));',
+        '  RETURN NEW;',
+        'END;',
+        '$$;',
+    ].join('\n');
+}
+
+function generateUpdatedAtTriggerSQL(tableName: string, table: NormalizedTable): string {
+    const columns = Object.values(table.columns).filter(column => column.autoUpdate);
+    if (columns.length === 0) {
+        return '';
+    }
+    const args = columns.map(column => escapeSQLValue(column.name)).join(', ');
+    return [
+        `CREATE TRIGGER ${table.name}_${UPDATED_AT_FUNCTION} BEFORE UPDATE ON ${tableName}`,
+        `  FOR EACH ROW EXECUTE FUNCTION ${UPDATED_AT_FUNCTION}(${args});`,
+    ].join('\n');
+}
+
+/**
+ * Extension names with hyphens (uuid-ossp) must be quoted
+ */
+function generateExtensionSQL(extension: string): string {
+    const name = /^[a-z_][a-z0-9_]*$/.test(extension) ? extension : `"${extension}"`;
+    return `CREATE EXTENSION IF NOT EXISTS ${name};`;
+}
+
+function generatePolicySQL(tableName: string, policy: NormalizedPolicy): string {
+    const lines = [`CREATE POLICY ${policy.name} ON ${tableName}`, `  FOR ${policy.command}`];
+    if (policy.roles.length > 0) {
+        lines.push(`  TO ${policy.roles.join(', ')}`);
+    }
+    if (policy.using) {
+        lines.push(`  USING (${policy.using})`);
+    }
+    if (policy.withCheck) {
+        lines.push(`  WITH CHECK (${policy.withCheck})`);
+    }
+    return `${lines.join('\n')};`;
+}
+
+/**
+ * ALTER TABLE statements turning on row-level security, followed by the table's policies;
+ * empty when RLS is off and there are no policies
+ */
+function generateRowLevelSecuritySQL(tableName: string, table: NormalizedTable): string {
+    const statements: string[] = [];
+    if (table.rowLevelSecurity) {
+        statements.push(`ALTER TABLE ${tableName} ENABLE ROW LEVEL SECURITY;`);
+    }
+    if (table.rowLevelSecurity === 'forced') {
+        statements.push(`ALTER TABLE ${tableName} FORCE ROW LEVEL SECURITY;`);
+    }
+    for (const policy of table.policies || []) {
+        statements.push(generatePolicySQL(tableName, policy));
+    }
+    return statements.join('\n');
+}
+
+const PRIVILEGES: Privilege[] = ['SELECT', 'INSERT', 'UPDATE', 'DELETE'];
+
+/**
+ * CREATE ROLE followed by one GRANT per table listing all of the role's privileges on it,
+ * column-level ones with their columns, and USAGE on the namespaces those tables live in
+ */
+function generateRoleSQL(role: NormalizedRole, schema: NormalizedSchema): string {
+    const lines = [`CREATE ROLE ${role.name}${role.login ? ' LOGIN' : ''};`];
+
+    const tableNames = [...new Set(role.grants.map(grant => grant.table))].filter(name => schema.tables[name]);
+    const namespaces = new Set(tableNames.map(name => schema.tables[name].namespace).filter(Boolean));
+    for (const namespace of [...namespaces].sort()) {
+        lines.push(`GRANT USAGE ON SCHEMA ${namespace} TO ${role.name};`);
+    }
+
+    for (const tableName of tableNames) {
+        const privileges = PRIVILEGES
+            .map(privilege => role.grants.find(grant => grant.table === tableName && grant.privilege === privilege))
+            .filter(grant => grant !== undefined)
+            .map(grant => grant.columns ? `${grant.privilege} (${grant.columns.join(', ')})` : grant.privilege);
+        lines.push(`GRANT ${privileges.join(', ')} ON ${tableName} TO ${role.name};`);
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * CREATE [MATERIALIZED] VIEW with its declared column names, so the query's own
+ * aliases cannot drift from what the canvas shows
+ */
+function generateViewSQL(viewName: string, view: NormalizedView): string {
+    const kind = view.materialized ? 'MATERIALIZED VIEW' : 'VIEW';
+    const columns = Object.keys(view.columns).join(', ');
+    const query = view.query.replace(/;\s*$/, '');
+    return `CREATE ${kind} ${viewName} (${columns}) AS\n${query};`;
+}
+
+/**
+ * COMMENT ON statement for a view; empty when it is not documented
+ */
+function generateViewCommentSQL(viewName: string, view: NormalizedView): string {
+    if (!view.description) {
+        return '';
+    }
+    const kind = view.materialized ? 'MATERIALIZED VIEW' : 'VIEW';
+    return `COMMENT ON ${kind} ${viewName} IS ${escapeSQLValue(view.description)};`;
+}
 
+/**
+ * COMMENT ON statements for a table and its columns; empty when nothing is documented
+ */
+function generateCommentSQL(tableName: string, table: NormalizedTable): string {
+    const lines: string[] = [];
+    if (table.description) {
+        lines.push(`COMMENT ON TABLE ${tableName} IS ${escapeSQLValue(table.description)};`);
+    }
+    for (const column of Object.values(table.columns)) {
+        if (column.description) {
+            lines.push(`COMMENT ON COLUMN ${tableName}.${column.name} IS ${escapeSQLValue(column.description)};`);
+        }
+    }
     return lines.join('\n');
 }
 
@@ -141,10 +342,94 @@ export function generatePostgresSQL(schema: NormalizedSchema): string {
     const orderedTables = orderTables(schema);
     const statements: string[] = [];
 
+    // Extensions provide types and functions that anything below may use
+    for (const extension of requiredExtensions(schema)) {
+        statements.push(generateExtensionSQL(extension));
+    }
+
+    // Namespaces must exist before anything is created in them
+    const namespaces = new Set(
+        [...Object.values(schema.tables), ...Object.values(schema.views || {})]
+            .map(relation => relation.namespace)
+            .filter(Boolean)
+    );
+    for (const namespace of [...namespaces].sort()) {
+        statements.push(`CREATE SCHEMA IF NOT EXISTS ${namespace};`);
+    }
+
+    // Enum types must exist before any table column uses them
+    for (const enumType of Object.values(schema.enums || {})) {
+        statements.push(generateEnumSQL(enumType));
+    }
+
+    // Sequences must exist before any column default calls nextval() on them
+    for (const sequence of Object.values(schema.sequences || {})) {
+        statements.push(generateSequenceSQL(sequence));
+    }
+
     for (const tableName of orderedTables) {
         const table = schema.tables[tableName];
         if (table) {
-            statements.push(generateTableSQL(tableName, table));
+            statements.push(generateTableSQL(tableName, table, schema));
+        }
+        // Partitions follow their parent directly; they inherit its columns and constraints
+        for (const partition of table?.partitioning?.partitions || []) {
+            statements.push(generatePartitionSQL(tableName, table, partition));
+        }
+    }
+
+    // Indexes are emitted after all tables so they never precede their table
+    for (const tableName of orderedTables) {
+        const table = schema.tables[tableName];
+        for (const index of table?.indexes || []) {
+            statements.push(generateIndexSQL(tableName, index));
+        }
+    }
+
+    // Views follow every table; orderTables already puts them after their dependencies
+    const orderedViews = orderedTables.filter(name => schema.views?.[name] && !schema.tables[name]);
+    for (const viewName of orderedViews) {
+        statements.push(generateViewSQL(viewName, schema.views![viewName]));
+    }
+
+    // Auto-updated columns share one trigger function, created once before the first trigger
+    const updatedAtTriggers = orderedTables
+        .map(tableName => schema.tables[tableName] ? generateUpdatedAtTriggerSQL(tableName, schema.tables[tableName]) : '')
+        .filter(Boolean);
+    if (updatedAtTriggers.length > 0) {
+        statements.push(generateUpdatedAtFunctionSQL(), ...updatedAtTriggers);
+    }
+
+    // Policies come after every table and view, which their expressions may query
+    for (const tableName of orderedTables) {
+        const table = schema.tables[tableName];
+        const rowLevelSecurity = table ? generateRowLevelSecuritySQL(tableName, table) : '';
+        if (rowLevelSecurity) {
+            statements.push(rowLevelSecurity);
+        }
+    }
+
+    for (const tableName of orderedTables) {
+        const table = schema.tables[tableName];
+        const comments = table ? generateCommentSQL(tableName, table) : '';
+        if (comments) {
+            statements.push(comments);
+        }
+    }
+
+    for (const viewName of orderedViews) {
+        const comment = generateViewCommentSQL(viewName, schema.views![viewName]);
+        if (comment) {
+            statements.push(comment);
+        }
+    }
+
+    // Roles are cluster-wide rather than part of the schema, so they get a section of their own
+    const roles = Object.values(schema.roles || {});
+    if (roles.length > 0) {
+        statements.push('-- Roles and privileges');
+        for (const role of roles) {
+            statements.push(generateRoleSQL(role, schema));
         }
     }
 
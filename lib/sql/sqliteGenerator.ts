@@ -0,0 +1,408 @@
+import { NormalizedSchema, NormalizedColumn, NormalizedTable, NormalizedIndex, NormalizedCheck, NormalizedView, groupForeignKeys } from '../schemaNormalizer';
+import { ValidationError, ValidationResult } from '../schemaValidator';
+import { validateSchemaForGeneration } from '../generatorValidation';
+import { TYPE_REGISTRY, parseLiteral } from '../columnTypes';
+
+// Casts, intervals and functions SQLite lacks; expressions using them only run on PostgreSQL
+const POSTGRES_ONLY_EXPRESSION = /::|\binterval\s+'|\b(now|gen_random_uuid|nextval|currval|setval|uuid_generate_v\w+|current_setting|date_trunc|to_char|to_timestamp|age)\s*\(/i;
+
+// Random version 4 UUID in its canonical text form, built from randomblob()
+const UUID_V4_EXPRESSION = "lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || "
+    + "substr(lower(hex(randomblob(2))), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || "
+    + "substr(lower(hex(randomblob(2))), 2) || '-' || lower(hex(randomblob(6)))";
+
+function quoteIdentifier(name: string): string {
+    return `"${name.replace(/"/g, '""')}"`;
+}
+
+function escapeSQLValue(value: string): string {
+    const escaped = value.replace(/'/g, "''");
+    return `'${escaped}'`;
+}
+
+/**
+ * Whether a column gets SQLite's rowid alias, INTEGER PRIMARY KEY AUTOINCREMENT: an
+ * auto-incrementing column that is the table's only primary key column
+ */
+function isAutoincrementKey(table: NormalizedTable, column: NormalizedColumn): boolean {
+    const autoincrement = column.default?.kind === 'autoincrement' || column.default?.kind === 'identity';
+    const pkColumns = Object.values(table.columns).filter(c => c.primaryKey);
+    return autoincrement && !column.generated && column.primaryKey && pkColumns.length === 1;
+}
+
+/**
+ * SQLite column type: the base type's affinity. Arrays are stored as JSON text.
+ */
+function mapTypeToSQLite(column: NormalizedColumn): string {
+    return column.type.array ? 'TEXT' : TYPE_REGISTRY[column.type.base].sqlite;
+}
+
+/**
+ * Renders a literal default for its column type: numbers bare, booleans as 1/0,
+ * everything else quoted
+ */
+function generateLiteralSQL(column: NormalizedColumn, value: string): string {
+    const literal = parseLiteral(column.type, value);
+    if (literal?.kind === 'number') {
+        return literal.value;
+    }
+    if (literal?.kind === 'boolean') {
+        return literal.value ? '1' : '0';
+    }
+    return escapeSQLValue(literal?.value ?? value);
+}
+
+/**
+ * DEFAULT clause for now(), matching the column's temporal type
+ */
+function generateNowSQL(column: NormalizedColumn): string {
+    if (column.type.base === 'date') {
+        return 'CURRENT_DATE';
+    }
+    if (column.type.base === 'time') {
+        return 'CURRENT_TIME';
+    }
+    return 'CURRENT_TIMESTAMP';
+}
+
+/**
+ * DEFAULT clause, or empty when the default has no SQLite form: sequences, Postgres-only
+ * expressions, array literals and auto-increment outside a rowid alias
+ * (validateSQLiteSchema warns about each)
+ */
+function generateDefaultSQL(column: NormalizedColumn): string {
+    if (!column.default || column.generated) {
+        return '';
+    }
+    const { kind, value } = column.default;
+    if (kind === 'uuid') {
+        return `DEFAULT (${UUID_V4_EXPRESSION})`;
+    }
+    if (kind === 'now') {
+        return `DEFAULT ${generateNowSQL(column)}`;
+    }
+    if (kind === 'value' && value !== undefined && !column.type.array) {
+        return `DEFAULT ${generateLiteralSQL(column, value)}`;
+    }
+    if (kind === 'expression' && value && !POSTGRES_ONLY_EXPRESSION.test(value)) {
+        return `DEFAULT (${value.trim()})`;
+    }
+    return '';
+}
+
+function generateCheckSQL(check: NormalizedCheck): string {
+    return `CONSTRAINT ${quoteIdentifier(check.name)} CHECK (${check.expression})`;
+}
+
+function generateColumnDefinition(table: NormalizedTable, column: NormalizedColumn, schema: NormalizedSchema, isSolePrimaryKey: boolean): string {
+    const parts: string[] = [quoteIdentifier(column.name), mapTypeToSQLite(column)];
+
+    if (isSolePrimaryKey) {
+        parts.push('PRIMARY KEY');
+    }
+    if (isAutoincrementKey(table, column)) {
+        parts.push('AUTOINCREMENT');
+    }
+    // A generated column computes its value, so it cannot also have a default
+    if (column.generated) {
+        parts.push(`GENERATED ALWAYS AS (${column.generated}) STORED`);
+    }
+    if (!column.nullable) {
+        parts.push('NOT NULL');
+    }
+    const defaultSQL = generateDefaultSQL(column);
+    if (defaultSQL) {
+        parts.push(defaultSQL);
+    }
+    if (column.unique) {
+        parts.push('UNIQUE');
+    }
+    if (column.check) {
+        parts.push(generateCheckSQL(column.check));
+    }
+    // SQLite has no enum types, so the allowed values become a CHECK
+    if (column.type.base === 'enum' && !column.type.array && column.enum && schema.enums?.[column.enum]) {
+        const values = schema.enums[column.enum].values.map(escapeSQLValue).join(', ');
+        parts.push(`CHECK (${quoteIdentifier(column.name)} IN (${values}))`);
+    }
+
+    return parts.join(' ');
+}
+
+/**
+ * SQLite keeps CREATE TABLE text verbatim, so descriptions survive as SQL comments
+ */
+function generateCommentLine(description: string, indent = ''): string {
+    return `${indent}-- ${description.replace(/\s*\n\s*/g, ' ')}\n`;
+}
+
+function generateTableSQL(table: NormalizedTable, schema: NormalizedSchema): string {
+    const lines: string[] = [];
+    lines.push(`${table.description ? generateCommentLine(table.description) : ''}CREATE TABLE ${quoteIdentifier(table.name)} (`);
+
+    const columnDefs: string[] = [];
+    const fkConstraints: string[] = [];
+
+    const pkColumns = Object.values(table.columns).filter(c => c.primaryKey);
+    const isCompositePK = pkColumns.length > 1;
+
+    for (const column of Object.values(table.columns)) {
+        const def = generateColumnDefinition(table, column, schema, !isCompositePK && column.primaryKey);
+        const comment = column.description ? generateCommentLine(column.description, '  ') : '';
+        columnDefs.push(`${comment}  ${def}`);
+    }
+
+    if (isCompositePK) {
+        const pkNames = pkColumns.map(c => quoteIdentifier(c.name)).join(', ');
+        columnDefs.push(`  PRIMARY KEY (${pkNames})`);
+    }
+
+    // Composite foreign keys list their columns in referenced primary key order
+    for (const foreignKey of groupForeignKeys(schema, table)) {
+        const { table: referencedTable, onDelete, onUpdate } = foreignKey[0].foreignKey!;
+        const columns = foreignKey.map(c => quoteIdentifier(c.name)).join(', ');
+        const referencedColumns = foreignKey.map(c => quoteIdentifier(c.foreignKey!.column)).join(', ');
+        let constraint = `  FOREIGN KEY (${columns}) REFERENCES ${quoteIdentifier(schema.tables[referencedTable].name)} (${referencedColumns})`;
+        if (onDelete) {
+            constraint += ` ON DELETE ${onDelete}`;
+        }
+        if (onUpdate) {
+            constraint += ` ON UPDATE ${onUpdate}`;
+        }
+        fkConstraints.push(constraint);
+    }
+
+    const checkConstraints = (table.checks || []).map(check => `  ${generateCheckSQL(check)}`);
+
+    const allDefinitions = [...columnDefs, ...fkConstraints, ...checkConstraints];
+    lines.push(allDefinitions.join(',\n'));
+    lines.push(');');
+
+    return lines.join('\n');
+}
+
+/**
+ * SQLite indexes are always B-trees; other methods are created as plain indexes
+ */
+function generateIndexSQL(table: NormalizedTable, index: NormalizedIndex): string {
+    const unique = index.unique ? 'UNIQUE ' : '';
+    const columns = index.columns.map(quoteIdentifier).join(', ');
+    return `CREATE ${unique}INDEX ${quoteIdentifier(index.name)} ON ${quoteIdentifier(table.name)} (${columns});`;
+}
+
+/**
+ * One AFTER UPDATE trigger per auto-updated column. It only fires when an update leaves
+ * the column unchanged, so explicit values win and its own UPDATE does not retrigger it.
+ */
+function generateAutoUpdateTriggerSQL(table: NormalizedTable): string[] {
+    return Object.values(table.columns)
+        .filter(column => column.autoUpdate)
+        .map(column => {
+            const tableName = quoteIdentifier(table.name);
+            const columnName = quoteIdentifier(column.name);
+            return [
+                `CREATE TRIGGER ${quoteIdentifier(`${table.name}_${column.name}_auto_update`)} AFTER UPDATE ON ${tableName}`,
+                `  FOR EACH ROW WHEN NEW.${columnName} IS OLD.${columnName}`,
+                'BEGIN',
+                `  UPDATE ${tableName} SET ${columnName} = ${generateNowSQL(column)} WHERE rowid = NEW.rowid;`,
+                'END;',
+            ].join('\n');
+        });
+}
+
+/**
+ * CREATE VIEW with its declared column names; SQLite has no materialized views, so those
+ * are created as plain views
+ */
+function generateViewSQL(view: NormalizedView): string {
+    const columns = Object.keys(view.columns).map(quoteIdentifier).join(', ');
+    const query = view.query.replace(/;\s*$/, '');
+    const comment = view.description ? generateCommentLine(view.description) : '';
+    return `${comment}CREATE VIEW ${quoteIdentifier(view.name)} (${columns}) AS\n${query};`;
+}
+
+/**
+ * Generates SQLite DDL, starting with PRAGMA foreign_keys = ON since SQLite leaves foreign
+ * keys unenforced by default. SQLite only resolves references when rows are written, so
+ * tables and views are created in schema order.
+ *
+ * Namespaces are dropped, and sequences, row-level security, roles, extensions and
+ * partitioning have no SQLite counterpart; validateSQLiteSchema reports what is lost.
+ */
+export function generateSQLite(schema: NormalizedSchema): string {
+    validateSchemaForGeneration(schema);
+
+    const statements: string[] = ['PRAGMA foreign_keys = ON;'];
+
+    for (const table of Object.values(schema.tables)) {
+        statements.push(generateTableSQL(table, schema));
+    }
+
+    for (const table of Object.values(schema.tables)) {
+        for (const index of table.indexes || []) {
+            statements.push(generateIndexSQL(table, index));
+        }
+    }
+
+    for (const view of Object.values(schema.views || {})) {
+        statements.push(generateViewSQL(view));
+    }
+
+    for (const table of Object.values(schema.tables)) {
+        statements.push(...generateAutoUpdateTriggerSQL(table));
+    }
+
+    return statements.join('\n\n');
+}
+
+/**
+ * SQLite-specific checks on a schema that already passes validateSchema.
+ *
+ * Errors, for schemas SQLite would reject:
+ * - Tables or views whose names only differ by namespace, which collide once namespaces are dropped
+ *
+ * Warnings, for features the SQLite output drops or changes: auto-increment outside a
+ * single-column primary key, identity options, sequence defaults, Postgres-only
+ * expressions, arrays stored as text, non-B-tree indexes, namespaces, sequences,
+ * row-level security, roles, extensions, partitioning and materialized views.
+ *
+ * @param schema - Normalized schema to check
+ * @returns Validation result with validity status, all errors and warnings
+ */
+export function validateSQLiteSchema(schema: NormalizedSchema): ValidationResult {
+    const errors: ValidationError[] = [];
+    const warnings: ValidationError[] = [];
+
+    const relationsByName = new Map<string, string[]>();
+    for (const [key, relation] of [...Object.entries(schema.tables), ...Object.entries(schema.views || {})]) {
+        const name = relation.name.toLowerCase();
+        relationsByName.set(name, [...(relationsByName.get(name) || []), key]);
+    }
+    for (const keys of relationsByName.values()) {
+        if (keys.length > 1) {
+            errors.push({
+                code: 'SQLITE_NAME_COLLISION',
+                message: `${keys.map(key => `'${key}'`).join(' and ')} have the same name once namespaces are dropped, as SQLite has no schemas`,
+                table: keys[0],
+            });
+        }
+    }
+
+    const namespaces = new Set(
+        [...Object.values(schema.tables), ...Object.values(schema.views || {})]
+            .map(relation => relation.namespace)
+            .filter(Boolean)
+    );
+    if (namespaces.size > 0) {
+        warnings.push({
+            code: 'SQLITE_NAMESPACES',
+            message: `SQLite has no schemas, so tables and views in ${[...namespaces].sort().join(', ')} are created without one`,
+        });
+    }
+
+    for (const [tableKey, table] of Object.entries(schema.tables)) {
+        for (const column of Object.values(table.columns)) {
+            const warn = (code: string, message: string) => warnings.push({ code, message, table: tableKey, column: column.name });
+            const kind = column.generated ? undefined : column.default?.kind;
+
+            if ((kind === 'autoincrement' || kind === 'identity') && !isAutoincrementKey(table, column)) {
+                warn('SQLITE_AUTOINCREMENT_NOT_PRIMARY_KEY', `Column '${column.name}' in table '${tableKey}' auto-increments, but SQLite only supports that on a single-column primary key; its default is dropped`);
+            }
+            const identity = kind === 'identity' ? column.default!.identity : undefined;
+            if (identity && (identity.generation === 'always' || identity.start !== undefined || identity.increment !== undefined)) {
+                warn('SQLITE_IDENTITY_OPTIONS', `Identity column '${column.name}' in table '${tableKey}' becomes AUTOINCREMENT in SQLite, which ignores its start, increment and ALWAYS options`);
+            }
+            if (kind === 'sequence') {
+                warn('SQLITE_SEQUENCE_DEFAULT', `Column '${column.name}' in table '${tableKey}' defaults to sequence '${column.default!.sequence}', but SQLite has no sequences; its default is dropped`);
+            }
+            if (kind === 'expression' && column.default!.value && POSTGRES_ONLY_EXPRESSION.test(column.default!.value)) {
+                warn('SQLITE_POSTGRES_DEFAULT', `Default of column '${column.name}' in table '${tableKey}' uses PostgreSQL-only syntax (${column.default!.value.trim()}); it is dropped`);
+            }
+            if (column.generated && POSTGRES_ONLY_EXPRESSION.test(column.generated)) {
+                warn('SQLITE_POSTGRES_EXPRESSION', `Generated column '${column.name}' in table '${tableKey}' uses PostgreSQL-only syntax and will fail in SQLite`);
+            }
+            if (column.check && POSTGRES_ONLY_EXPRESSION.test(column.check.expression)) {
+                warn('SQLITE_POSTGRES_EXPRESSION', `Check '${column.check.name}' on table '${tableKey}' uses PostgreSQL-only syntax and will fail in SQLite`);
+            }
+            if (column.type.array) {
+                warn('SQLITE_ARRAY_AS_TEXT', `Array column '${column.name}' in table '${tableKey}' is stored as JSON text in SQLite${kind === 'value' ? ' and its default is dropped' : ''}`);
+            }
+        }
+
+        for (const check of table.checks || []) {
+            if (POSTGRES_ONLY_EXPRESSION.test(check.expression)) {
+                warnings.push({
+                    code: 'SQLITE_POSTGRES_EXPRESSION',
+                    message: `Check '${check.name}' on table '${tableKey}' uses PostgreSQL-only syntax and will fail in SQLite`,
+                    table: tableKey,
+                });
+            }
+        }
+        for (const index of table.indexes || []) {
+            if (index.method !== 'btree' || index.trigram) {
+                warnings.push({
+                    code: 'SQLITE_INDEX_METHOD',
+                    message: `Index '${index.name}' on table '${tableKey}' uses ${index.trigram ? 'trigram operators' : index.method.toUpperCase()}, which SQLite doesn't support; it is created as a plain index`,
+                    table: tableKey,
+                });
+            }
+        }
+        if (table.rowLevelSecurity || (table.policies || []).length > 0) {
+            warnings.push({
+                code: 'SQLITE_ROW_LEVEL_SECURITY',
+                message: `Table '${tableKey}' uses row-level security, which SQLite doesn't support; its policies are not exported`,
+                table: tableKey,
+            });
+        }
+        if (table.partitioning) {
+            warnings.push({
+                code: 'SQLITE_PARTITIONING',
+                message: `Table '${tableKey}' is partitioned, which SQLite doesn't support; it is created as a single table`,
+                table: tableKey,
+            });
+        }
+    }
+
+    for (const [viewName, view] of Object.entries(schema.views || {})) {
+        if (view.materialized) {
+            warnings.push({
+                code: 'SQLITE_MATERIALIZED_VIEW',
+                message: `Materialized view '${viewName}' is created as a plain view, as SQLite has no materialized views`,
+                table: viewName,
+            });
+        }
+        if (POSTGRES_ONLY_EXPRESSION.test(view.query)) {
+            warnings.push({
+                code: 'SQLITE_POSTGRES_EXPRESSION',
+                message: `View '${viewName}' uses PostgreSQL-only syntax and will fail in SQLite`,
+                table: viewName,
+            });
+        }
+    }
+
+    const sequences = Object.keys(schema.sequences || {});
+    if (sequences.length > 0) {
+        warnings.push({
+            code: 'SQLITE_SEQUENCES',
+            message: `SQLite has no sequences, so ${sequences.join(', ')} ${sequences.length === 1 ? 'is' : 'are'} not exported`,
+        });
+    }
+    if (Object.keys(schema.roles || {}).length > 0) {
+        warnings.push({
+            code: 'SQLITE_ROLES',
+            message: 'SQLite has no roles, so roles and privileges are not exported',
+        });
+    }
+    if ((schema.extensions || []).length > 0) {
+        warnings.push({
+            code: 'SQLITE_EXTENSIONS',
+            message: `PostgreSQL extensions (${schema.extensions!.join(', ')}) are not exported to SQLite`,
+        });
+    }
+
+    return {
+        valid: errors.length === 0,
+        errors,
+        warnings,
+    };
+}
@@ -0,0 +1,57 @@
+import { NormalizedSchema } from '../schemaNormalizer';
+
+/**
+ * Creation order for tables and views: tables after the tables they reference,
+ * views after the tables and views they read from. Returns NormalizedSchema keys;
+ * a key may name a table or a view. Reference cycles are broken arbitrarily.
+ */
+export function orderTables(schema: NormalizedSchema): string[] {
+    const tables = [...Object.keys(schema.tables), ...Object.keys(schema.views || {})];
+    const dependencies = new Map<string, Set<string>>();
+
+    for (const [tableName, table] of Object.entries(schema.tables)) {
+        const deps = new Set<string>();
+        for (const column of Object.values(table.columns)) {
+            if (column.foreignKey) {
+                deps.add(column.foreignKey.table);
+            }
+        }
+        dependencies.set(tableName, deps);
+    }
+
+    for (const [viewName, view] of Object.entries(schema.views || {})) {
+        dependencies.set(viewName, new Set(view.dependencies));
+    }
+
+    const ordered: string[] = [];
+    const visited = new Set<string>();
+    const visiting = new Set<string>();
+
+    function visit(tableName: string): void {
+        if (visiting.has(tableName)) {
+            return;
+        }
+        if (visited.has(tableName)) {
+            return;
+        }
+
+        visiting.add(tableName);
+
+        const deps = dependencies.get(tableName) || new Set();
+        for (const dep of deps) {
+            if (schema.tables[dep] || schema.views?.[dep]) {
+                visit(dep);
+            }
+        }
+
+        visiting.delete(tableName);
+        visited.add(tableName);
+        ordered.push(tableName);
+    }
+
+    for (const tableName of tables) {
+        visit(tableName);
+    }
+
+    return ordered;
+}
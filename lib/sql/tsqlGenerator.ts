@@ -0,0 +1,563 @@
+import { NormalizedSchema, NormalizedColumn, NormalizedTable, NormalizedIndex, NormalizedCheck, NormalizedSequence, NormalizedView, groupForeignKeys } from '../schemaNormalizer';
+import { ReferentialAction } from '@/store/schemaStore';
+import { ValidationError, ValidationResult } from '../schemaValidator';
+import { validateSchemaForGeneration } from '../generatorValidation';
+import { TYPE_REGISTRY, formatTypeParams, getTypeCategory, parseLiteral } from '../columnTypes';
+import { orderTables } from './tableOrder';
+
+// SQL Server's default schema, used where a statement needs one spelled out
+const DEFAULT_TSQL_SCHEMA = 'dbo';
+
+// Types SQL Server cannot use in keys or indexes
+const UNKEYABLE_TYPE = /\(MAX\)$|^GEOMETRY$/;
+
+// Longest NVARCHAR(n) / NCHAR(n); longer strings need NVARCHAR(MAX)
+const MAX_NVARCHAR_LENGTH = 4000;
+
+// Referential actions that change referencing rows, which SQL Server allows one path of
+const CASCADING_ACTIONS: ReferentialAction[] = ['CASCADE', 'SET NULL', 'SET DEFAULT'];
+
+function quoteIdentifier(name: string): string {
+    return `[${name.replace(/]/g, ']]')}]`;
+}
+
+/**
+ * Bracket-quoted name of a table or view; unqualified in the default schema
+ */
+function quoteRelationName(relation: { name: string; namespace?: string }): string {
+    return relation.namespace
+        ? `${quoteIdentifier(relation.namespace)}.${quoteIdentifier(relation.name)}`
+        : quoteIdentifier(relation.name);
+}
+
+/**
+ * Unicode string literal, e.g. N'it''s'
+ */
+function escapeSQLValue(value: string): string {
+    const escaped = value.replace(/'/g, "''");
+    return `N'${escaped}'`;
+}
+
+/**
+ * SQL Server column type: enums become NVARCHAR (their values are checked separately),
+ * arrays become JSON text, and unbounded VARCHAR or strings longer than NVARCHAR(4000)
+ * become NVARCHAR(MAX)
+ */
+function mapTypeToTSQL(column: NormalizedColumn): string {
+    if (column.type.array) {
+        return 'NVARCHAR(MAX)';
+    }
+    if (column.type.base === 'enum') {
+        return 'NVARCHAR(255)';
+    }
+    if (column.type.base === 'varchar' && column.type.length === undefined) {
+        return 'NVARCHAR(MAX)';
+    }
+    if ((column.type.base === 'varchar' || column.type.base === 'char') && column.type.length! > MAX_NVARCHAR_LENGTH) {
+        return 'NVARCHAR(MAX)';
+    }
+    return `${TYPE_REGISTRY[column.type.base].tsql}${formatTypeParams(column.type)}`;
+}
+
+/**
+ * SQL Server has no RESTRICT; NO ACTION also rejects the change, only checked at statement end
+ */
+function mapReferentialAction(action: ReferentialAction): string {
+    return action === 'RESTRICT' ? 'NO ACTION' : action;
+}
+
+/**
+ * Renders a literal default for its column type: numbers bare, booleans as 1/0,
+ * everything else as a Unicode string
+ */
+function generateLiteralSQL(column: NormalizedColumn, value: string): string {
+    const literal = parseLiteral(column.type, value);
+    if (literal?.kind === 'number') {
+        return literal.value;
+    }
+    if (literal?.kind === 'boolean') {
+        return literal.value ? '1' : '0';
+    }
+    return escapeSQLValue(literal?.value ?? value);
+}
+
+/**
+ * Current UTC time, cast to the column's temporal type
+ */
+function generateNowSQL(column: NormalizedColumn): string {
+    if (column.type.base === 'date') {
+        return 'CAST(SYSUTCDATETIME() AS DATE)';
+    }
+    if (column.type.base === 'time') {
+        return 'CAST(SYSUTCDATETIME() AS TIME)';
+    }
+    return 'SYSUTCDATETIME()';
+}
+
+function generateCheckSQL(check: NormalizedCheck): string {
+    return `CONSTRAINT ${quoteIdentifier(check.name)} CHECK (${check.expression})`;
+}
+
+function generateColumnDefinition(column: NormalizedColumn): string {
+    // Computed columns take their type from the expression
+    if (column.generated) {
+        const parts = [quoteIdentifier(column.name), `AS (${column.generated}) PERSISTED`];
+        if (!column.nullable) {
+            parts.push('NOT NULL');
+        }
+        if (column.unique) {
+            parts.push('UNIQUE');
+        }
+        return parts.join(' ');
+    }
+
+    const parts: string[] = [quoteIdentifier(column.name), mapTypeToTSQL(column)];
+
+    if (column.default?.kind === 'autoincrement' || column.default?.kind === 'identity') {
+        const identity = column.default.identity;
+        parts.push(`IDENTITY(${identity?.start ?? 1}, ${identity?.increment ?? 1})`);
+    }
+    // Nullability is spelled out, as the implicit default depends on session settings
+    parts.push(column.nullable ? 'NULL' : 'NOT NULL');
+
+    if (column.default) {
+        if (column.default.kind === 'sequence' && column.default.sequence) {
+            parts.push(`DEFAULT (NEXT VALUE FOR ${quoteIdentifier(column.default.sequence)})`);
+        } else if (column.default.kind === 'uuid') {
+            parts.push('DEFAULT NEWID()');
+        } else if (column.default.kind === 'now') {
+            parts.push(`DEFAULT ${generateNowSQL(column)}`);
+        } else if (column.default.kind === 'value' && column.default.value !== undefined && !column.type.array) {
+            // Array defaults are PostgreSQL '{a,b}' literals, not JSON
+            parts.push(`DEFAULT ${generateLiteralSQL(column, column.default.value)}`);
+        } else if (column.default.kind === 'expression' && column.default.value) {
+            parts.push(`DEFAULT (${column.default.value.trim()})`);
+        }
+    }
+
+    if (column.unique) {
+        parts.push('UNIQUE');
+    }
+
+    return parts.join(' ');
+}
+
+function generateTableSQL(table: NormalizedTable, schema: NormalizedSchema): string {
+    const lines: string[] = [];
+    lines.push(`CREATE TABLE ${quoteRelationName(table)} (`);
+
+    const columnDefs: string[] = [];
+    const fkConstraints: string[] = [];
+
+    const pkColumns = Object.values(table.columns).filter(c => c.primaryKey);
+    const isCompositePK = pkColumns.length > 1;
+
+    for (const column of Object.values(table.columns)) {
+        let def = generateColumnDefinition(column);
+
+        if (!isCompositePK && column.primaryKey) {
+            def += ' PRIMARY KEY';
+        }
+        if (column.check) {
+            def += ` ${generateCheckSQL(column.check)}`;
+        }
+        // SQL Server has no enum types, so the allowed values become a CHECK
+        if (column.type.base === 'enum' && !column.type.array && column.enum && schema.enums?.[column.enum]) {
+            const values = schema.enums[column.enum].values.map(escapeSQLValue).join(', ');
+            def += ` CHECK (${quoteIdentifier(column.name)} IN (${values}))`;
+        }
+
+        columnDefs.push(`  ${def}`);
+    }
+
+    if (isCompositePK) {
+        const pkNames = pkColumns.map(c => quoteIdentifier(c.name)).join(', ');
+        columnDefs.push(`  PRIMARY KEY (${pkNames})`);
+    }
+
+    // Composite foreign keys list their columns in referenced primary key order
+    for (const foreignKey of groupForeignKeys(schema, table)) {
+        const { table: referencedTable, onDelete, onUpdate } = foreignKey[0].foreignKey!;
+        const columns = foreignKey.map(c => quoteIdentifier(c.name)).join(', ');
+        const referencedColumns = foreignKey.map(c => quoteIdentifier(c.foreignKey!.column)).join(', ');
+        let constraint = `  FOREIGN KEY (${columns}) REFERENCES ${quoteRelationName(schema.tables[referencedTable])} (${referencedColumns})`;
+        if (onDelete) {
+            constraint += ` ON DELETE ${mapReferentialAction(onDelete)}`;
+        }
+        if (onUpdate) {
+            constraint += ` ON UPDATE ${mapReferentialAction(onUpdate)}`;
+        }
+        fkConstraints.push(constraint);
+    }
+
+    const checkConstraints = (table.checks || []).map(check => `  ${generateCheckSQL(check)}`);
+
+    const allDefinitions = [...columnDefs, ...fkConstraints, ...checkConstraints];
+    lines.push(allDefinitions.join(',\n'));
+    lines.push(');');
+
+    return lines.join('\n');
+}
+
+/**
+ * SQL Server sequences start at their type's minimum unless told otherwise, so
+ * PostgreSQL's defaults of 1 are spelled out
+ */
+function generateSequenceSQL(sequence: NormalizedSequence): string {
+    return `CREATE SEQUENCE ${quoteIdentifier(sequence.name)} AS BIGINT START WITH ${sequence.start ?? 1} INCREMENT BY ${sequence.increment ?? 1};`;
+}
+
+/**
+ * Every index is created as SQL Server's default B-tree (validateTSQLSchema warns about other methods)
+ */
+function generateIndexSQL(table: NormalizedTable, index: NormalizedIndex): string {
+    const unique = index.unique ? 'UNIQUE ' : '';
+    const columns = index.columns.map(quoteIdentifier).join(', ');
+    return `CREATE ${unique}INDEX ${quoteIdentifier(index.name)} ON ${quoteRelationName(table)} (${columns});`;
+}
+
+/**
+ * AFTER UPDATE trigger setting the table's auto-updated columns on the updated rows,
+ * matched to the inserted pseudo-table by primary key; empty when there are none
+ * or the table has no primary key
+ */
+function generateAutoUpdateTriggerSQL(table: NormalizedTable): string {
+    const columns = Object.values(table.columns).filter(column => column.autoUpdate);
+    const pkColumns = Object.values(table.columns).filter(column => column.primaryKey);
+    if (columns.length === 0 || pkColumns.length === 0) {
+        return '';
+    }
+    const triggerName = { name: `${table.name}_set_updated_at`, namespace: table.namespace };
+    const assignments = columns.map(column => `${quoteIdentifier(column.name)} = ${generateNowSQL(column)}`).join(', ');
+    const join = pkColumns.map(column => `inserted.${quoteIdentifier(column.name)} = target.${quoteIdentifier(column.name)}`).join(' AND ');
+    return [
+        `CREATE TRIGGER ${quoteRelationName(triggerName)} ON ${quoteRelationName(table)} AFTER UPDATE AS`,
+        'BEGIN',
+        '  SET NOCOUNT ON;',
+        `  UPDATE target SET ${assignments}`,
+        `  FROM ${quoteRelationName(table)} AS target`,
+        `  INNER JOIN inserted ON ${join};`,
+        'END;',
+    ].join('\n');
+}
+
+/**
+ * CREATE VIEW with its declared column names; SQL Server has no materialized views, so
+ * those are created as plain views
+ */
+function generateViewSQL(view: NormalizedView): string {
+    const columns = Object.keys(view.columns).map(quoteIdentifier).join(', ');
+    const query = view.query.replace(/;\s*$/, '');
+    return `CREATE VIEW ${quoteRelationName(view)} (${columns}) AS\n${query};`;
+}
+
+/**
+ * MS_Description extended property, SQL Server's equivalent of COMMENT ON
+ */
+function generateDescriptionSQL(description: string, kind: 'TABLE' | 'VIEW', relation: { name: string; namespace?: string }, column?: string): string {
+    const levels = [
+        `@level0type = N'SCHEMA', @level0name = ${escapeSQLValue(relation.namespace || DEFAULT_TSQL_SCHEMA)}`,
+        `@level1type = N'${kind}', @level1name = ${escapeSQLValue(relation.name)}`,
+    ];
+    if (column) {
+        levels.push(`@level2type = N'COLUMN', @level2name = ${escapeSQLValue(column)}`);
+    }
+    return `EXEC sp_addextendedproperty @name = N'MS_Description', @value = ${escapeSQLValue(description)},\n  ${levels.join(',\n  ')};`;
+}
+
+/**
+ * Generates SQL Server (T-SQL) DDL. Every statement is its own batch, ended by GO, since
+ * CREATE VIEW and CREATE TRIGGER must start a batch.
+ *
+ * Row-level security, roles, extensions and partitioning have no direct T-SQL counterpart
+ * and are skipped; validateTSQLSchema reports what is lost.
+ */
+export function generateTSQL(schema: NormalizedSchema): string {
+    validateSchemaForGeneration(schema);
+
+    const orderedTables = orderTables(schema);
+    const statements: string[] = [];
+
+    // CREATE SCHEMA must be alone in its batch, so it is run through EXEC to make it conditional
+    const namespaces = new Set(
+        [...Object.values(schema.tables), ...Object.values(schema.views || {})]
+            .map(relation => relation.namespace)
+            .filter((namespace): namespace is string => Boolean(namespace))
+    );
+    for (const namespace of [...namespaces].sort()) {
+        const create = `CREATE SCHEMA ${quoteIdentifier(namespace)}`.replace(/'/g, "''");
+        statements.push(`IF SCHEMA_ID(${escapeSQLValue(namespace)}) IS NULL EXEC('${create}');`);
+    }
+
+    // Sequences must exist before any column default uses NEXT VALUE FOR them
+    for (const sequence of Object.values(schema.sequences || {})) {
+        statements.push(generateSequenceSQL(sequence));
+    }
+
+    for (const tableName of orderedTables) {
+        const table = schema.tables[tableName];
+        if (table) {
+            statements.push(generateTableSQL(table, schema));
+        }
+    }
+
+    for (const tableName of orderedTables) {
+        for (const index of schema.tables[tableName]?.indexes || []) {
+            statements.push(generateIndexSQL(schema.tables[tableName], index));
+        }
+    }
+
+    // orderTables already puts views after the tables and views they read from
+    const orderedViews = orderedTables.filter(name => schema.views?.[name] && !schema.tables[name]);
+    for (const viewName of orderedViews) {
+        statements.push(generateViewSQL(schema.views![viewName]));
+    }
+
+    for (const tableName of orderedTables) {
+        const trigger = schema.tables[tableName] ? generateAutoUpdateTriggerSQL(schema.tables[tableName]) : '';
+        if (trigger) {
+            statements.push(trigger);
+        }
+    }
+
+    for (const tableName of orderedTables) {
+        const table = schema.tables[tableName];
+        if (!table) {
+            continue;
+        }
+        if (table.description) {
+            statements.push(generateDescriptionSQL(table.description, 'TABLE', table));
+        }
+        for (const column of Object.values(table.columns)) {
+            if (column.description) {
+                statements.push(generateDescriptionSQL(column.description, 'TABLE', table, column.name));
+            }
+        }
+    }
+    for (const viewName of orderedViews) {
+        const view = schema.views![viewName];
+        if (view.description) {
+            statements.push(generateDescriptionSQL(view.description, 'VIEW', view));
+        }
+    }
+
+    return statements.map(statement => `${statement}\nGO`).join('\n\n');
+}
+
+/**
+ * Columns a key is built on: primary keys, unique columns, index columns and foreign keys
+ */
+function keyedColumns(table: NormalizedTable): { column: NormalizedColumn; usage: string }[] {
+    const keyed: { column: NormalizedColumn; usage: string }[] = [];
+    for (const column of Object.values(table.columns)) {
+        if (column.primaryKey) {
+            keyed.push({ column, usage: 'part of the primary key' });
+        } else if (column.unique) {
+            keyed.push({ column, usage: 'unique' });
+        } else if (column.foreignKey) {
+            keyed.push({ column, usage: 'a foreign key' });
+        }
+    }
+    for (const index of table.indexes || []) {
+        for (const name of index.columns) {
+            if (table.columns[name]) {
+                keyed.push({ column: table.columns[name], usage: `in index '${index.name}'` });
+            }
+        }
+    }
+    return keyed;
+}
+
+/**
+ * Foreign keys SQL Server rejects with error 1785: a referential action that cascades
+ * (CASCADE, SET NULL, SET DEFAULT) may reach each table by only one path, and never loop
+ * back to where it started. Walks the cascading foreign keys from every table and reports
+ * each one that opens a second path or closes a cycle, once per event.
+ */
+function cascadePathConflicts(schema: NormalizedSchema): ValidationError[] {
+    const conflicts: ValidationError[] = [];
+
+    for (const event of ['DELETE', 'UPDATE'] as const) {
+        // Edges run from the referenced table to the table holding the foreign key
+        const edges: { from: string; to: string; foreignKey: NormalizedColumn[]; action: ReferentialAction }[] = [];
+        for (const [tableKey, table] of Object.entries(schema.tables)) {
+            for (const foreignKey of groupForeignKeys(schema, table)) {
+                const { table: referencedTable, onDelete, onUpdate } = foreignKey[0].foreignKey!;
+                const action = event === 'DELETE' ? onDelete : onUpdate;
+                if (action && CASCADING_ACTIONS.includes(action)) {
+                    edges.push({ from: referencedTable, to: tableKey, foreignKey, action });
+                }
+            }
+        }
+
+        const reported = new Set<(typeof edges)[number]>();
+        for (const start of Object.keys(schema.tables)) {
+            const reached = new Set<string>([start]);
+            const queue = [start];
+            while (queue.length > 0) {
+                const current = queue.shift()!;
+                for (const edge of edges.filter(e => e.from === current)) {
+                    if (!reached.has(edge.to)) {
+                        reached.add(edge.to);
+                        queue.push(edge.to);
+                        continue;
+                    }
+                    if (reported.has(edge)) {
+                        continue;
+                    }
+                    reported.add(edge);
+                    const columns = edge.foreignKey.map(column => column.name).join(', ');
+                    const problem = edge.to === start
+                        ? `makes changes to '${start}' cascade back into itself`
+                        : `gives '${start}' a second cascade path to '${edge.to}'`;
+                    conflicts.push({
+                        code: 'TSQL_MULTIPLE_CASCADE_PATHS',
+                        message: `ON ${event} ${edge.action} on the foreign key (${columns}) from '${edge.to}' to '${edge.from}' ${problem}, which SQL Server rejects. Use NO ACTION or RESTRICT for it or for another foreign key on the path.`,
+                        table: edge.to,
+                        column: edge.foreignKey[0].name,
+                    });
+                }
+            }
+        }
+    }
+
+    return conflicts;
+}
+
+/**
+ * SQL Server-specific checks on a schema that already passes validateSchema.
+ *
+ * Errors, for schemas SQL Server would reject:
+ * - NVARCHAR(MAX), VARBINARY(MAX) and GEOMETRY columns (text, json, bytea, unbounded
+ *   varchar, varchar/char over 4000 characters, arrays) used as keys
+ * - More than one IDENTITY column in a table
+ * - Cascading referential actions with more than one path to a table, or in a cycle
+ *
+ * Warnings, for features the T-SQL output drops or changes: nullable unique columns
+ * (SQL Server allows one NULL), auto-updated columns without a primary key, arrays stored
+ * as JSON text, unbounded numerics, non-B-tree indexes, row-level security, roles,
+ * extensions, partitioning and materialized views.
+ *
+ * @param schema - Normalized schema to check
+ * @returns Validation result with validity status, all errors and warnings
+ */
+export function validateTSQLSchema(schema: NormalizedSchema): ValidationResult {
+    const errors: ValidationError[] = [];
+    const warnings: ValidationError[] = [];
+
+    for (const [tableKey, table] of Object.entries(schema.tables)) {
+        const reported = new Set<string>();
+        for (const { column, usage } of keyedColumns(table)) {
+            const tsqlType = column.generated ? undefined : mapTypeToTSQL(column);
+            if (tsqlType && UNKEYABLE_TYPE.test(tsqlType) && !reported.has(column.name)) {
+                reported.add(column.name);
+                errors.push({
+                    code: 'TSQL_KEY_MAX_TYPE',
+                    message: `Column '${column.name}' in table '${tableKey}' is ${usage}, but becomes ${tsqlType} in SQL Server, which can't be used in a key or index. Use varchar(n) or char(n) of at most ${MAX_NVARCHAR_LENGTH} characters instead.`,
+                    table: tableKey,
+                    column: column.name,
+                });
+            }
+        }
+
+        const identities = Object.values(table.columns).filter(column =>
+            !column.generated && (column.default?.kind === 'autoincrement' || column.default?.kind === 'identity'));
+        if (identities.length > 1) {
+            errors.push({
+                code: 'TSQL_MULTIPLE_IDENTITY',
+                message: `Table '${tableKey}' has ${identities.length} auto-incrementing columns (${identities.map(column => column.name).join(', ')}), but SQL Server allows one IDENTITY column per table`,
+                table: tableKey,
+            });
+        }
+
+        for (const column of Object.values(table.columns)) {
+            if (column.unique && column.nullable) {
+                warnings.push({
+                    code: 'TSQL_NULLABLE_UNIQUE',
+                    message: `Unique column '${column.name}' in table '${tableKey}' is nullable, but SQL Server's UNIQUE allows only one NULL`,
+                    table: tableKey,
+                    column: column.name,
+                });
+            }
+            if (column.type.array) {
+                warnings.push({
+                    code: 'TSQL_ARRAY_AS_JSON',
+                    message: `Array column '${column.name}' in table '${tableKey}' is stored as JSON text in SQL Server${column.default?.kind === 'value' ? ' and its default is dropped' : ''}`,
+                    table: tableKey,
+                    column: column.name,
+                });
+            } else if (getTypeCategory(column.type) === 'decimal' && column.type.precision === undefined) {
+                warnings.push({
+                    code: 'TSQL_NUMERIC_PRECISION',
+                    message: `Column '${column.name}' in table '${tableKey}' has no precision, so SQL Server makes it DECIMAL(18, 0) and rounds away decimals`,
+                    table: tableKey,
+                    column: column.name,
+                });
+            }
+        }
+
+        const autoUpdated = Object.values(table.columns).filter(column => column.autoUpdate);
+        if (autoUpdated.length > 0 && !Object.values(table.columns).some(column => column.primaryKey)) {
+            warnings.push({
+                code: 'TSQL_AUTO_UPDATE_NO_PRIMARY_KEY',
+                message: `Table '${tableKey}' has no primary key to match updated rows by, so ${autoUpdated.map(column => column.name).join(', ')} won't auto-update in SQL Server`,
+                table: tableKey,
+            });
+        }
+
+        for (const index of table.indexes || []) {
+            if (index.method !== 'btree' || index.trigram) {
+                warnings.push({
+                    code: 'TSQL_INDEX_METHOD',
+                    message: `Index '${index.name}' on table '${tableKey}' uses ${index.trigram ? 'trigram operators' : index.method.toUpperCase()}, which SQL Server doesn't support; it is created as a B-tree index`,
+                    table: tableKey,
+                });
+            }
+        }
+        if (table.rowLevelSecurity || (table.policies || []).length > 0) {
+            warnings.push({
+                code: 'TSQL_ROW_LEVEL_SECURITY',
+                message: `Table '${tableKey}' uses row-level security; SQL Server security policies work differently, so its policies are not exported`,
+                table: tableKey,
+            });
+        }
+        if (table.partitioning) {
+            warnings.push({
+                code: 'TSQL_PARTITIONING',
+                message: `Table '${tableKey}' is partitioned; SQL Server partitions through partition functions and schemes, so it is created as a single table`,
+                table: tableKey,
+            });
+        }
+    }
+
+    errors.push(...cascadePathConflicts(schema));
+
+    for (const [viewName, view] of Object.entries(schema.views || {})) {
+        if (view.materialized) {
+            warnings.push({
+                code: 'TSQL_MATERIALIZED_VIEW',
+                message: `Materialized view '${viewName}' is created as a plain view, as SQL Server has no materialized views`,
+                table: viewName,
+            });
+        }
+    }
+
+    if (Object.keys(schema.roles || {}).length > 0) {
+        warnings.push({
+            code: 'TSQL_ROLES',
+            message: 'Roles and privileges are not exported to SQL Server',
+        });
+    }
+    if ((schema.extensions || []).length > 0) {
+        warnings.push({
+            code: 'TSQL_EXTENSIONS',
+            message: `PostgreSQL extensions (${schema.extensions!.join(', ')}) are not exported to SQL Server`,
+        });
+    }
+
+    return {
+        valid: errors.length === 0,
+        errors,
+        warnings,
+    };
+}
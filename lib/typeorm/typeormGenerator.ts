@@ -0,0 +1,619 @@
+import { NormalizedSchema, NormalizedColumn, NormalizedTable, NormalizedEnum, NormalizedView, NormalizedViewColumn, groupForeignKeys } from '../schemaNormalizer';
+import { ReferentialAction } from '@/store/schemaStore';
+import { BaseType, ColumnType, TYPE_REGISTRY, getTypeCategory, parseLiteral } from '../columnTypes';
+import { validateSchemaForGeneration } from '../generatorValidation';
+import { toPascalCase, toCamelCase, toSingular } from '../naming';
+import {
+    RelationInfo,
+    buildRelationMap,
+    isImplicitJoinTable,
+    rekeyNamespacedTables,
+    toBackRelationFieldName,
+    toBackRelationName,
+    toModelName,
+    toScalarFieldName,
+} from '../prisma/prismaGenerator';
+
+/**
+ * A file of a multi-file export, with its path relative to the bundle root
+ */
+export interface GeneratedFile {
+    path: string;
+    content: string;
+}
+
+// Property types TypeORM's PostgreSQL driver hydrates each column type to
+const PROPERTY_TYPES: Record<BaseType, string> = {
+    smallint: 'number',
+    int: 'number',
+    bigint: 'string', // Beyond Number.MAX_SAFE_INTEGER, so the driver returns a string
+    numeric: 'string',
+    real: 'number',
+    double: 'number',
+    varchar: 'string',
+    char: 'string',
+    text: 'string',
+    citext: 'string',
+    boolean: 'boolean',
+    date: 'string',
+    time: 'string',
+    timestamp: 'Date',
+    timestamptz: 'Date',
+    uuid: 'string',
+    json: 'unknown',
+    jsonb: 'unknown',
+    bytea: 'Buffer',
+    geometry: 'object', // GeoJSON
+    enum: 'string',
+};
+
+/**
+ * Decorators and classes one entity file imports
+ */
+interface EntityImports {
+    decorators: Set<string>;
+    entities: Set<string>; // Table keys of related entities
+    enums: Set<string>;
+}
+
+function toStringLiteral(value: string): string {
+    const escaped = value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n');
+    return `'${escaped}'`;
+}
+
+/**
+ * Entity file stem in the NestJS convention: the model name in kebab case (blog_posts → blog-post)
+ */
+function toFileName(tableName: string): string {
+    return tableName.split('_').map(word => toSingular(word).toLowerCase()).join('-');
+}
+
+function toEnumName(enumName: string): string {
+    return toPascalCase(enumName);
+}
+
+/**
+ * TypeScript enum member for a value: PascalCase, sanitized to an identifier (in-progress → InProgress)
+ */
+function toEnumMemberName(value: string): string {
+    const member = toPascalCase(value.replace(/[^A-Za-z0-9]+/g, '_').replace(/^_+|_+$/g, ''));
+    return /^[A-Za-z]/.test(member) ? member : `V${member}`;
+}
+
+function mapReferentialActionToTypeORM(action: ReferentialAction): string {
+    return toStringLiteral(action);
+}
+
+function generateEnumsFile(enums: NormalizedEnum[]): string {
+    return enums.map(enumType => [
+        `export enum ${toEnumName(enumType.name)} {`,
+        ...enumType.values.map(value => `  ${toEnumMemberName(value)} = ${toStringLiteral(value)},`),
+        '}',
+    ].join('\n')).join('\n\n') + '\n';
+}
+
+/**
+ * Property type of a column, e.g. string[] or Date | null
+ */
+function toPropertyType(type: ColumnType, enumName: string | undefined, nullable: boolean): string {
+    let propertyType = type.base === 'enum' && enumName ? toEnumName(enumName) : PROPERTY_TYPES[type.base];
+    if (type.array) {
+        propertyType += '[]';
+    }
+    return nullable ? `${propertyType} | null` : propertyType;
+}
+
+/**
+ * Column type options: the PostgreSQL type with its length, precision, array and enum settings
+ */
+function generateTypeOptions(type: ColumnType, enumName: string | undefined, imports: EntityImports): string[] {
+    const options: string[] = [];
+    if (type.base === 'enum' && enumName) {
+        imports.enums.add(toEnumName(enumName));
+        options.push(`type: 'enum'`, `enum: ${toEnumName(enumName)}`, `enumName: ${toStringLiteral(enumName)}`);
+    } else {
+        options.push(`type: ${toStringLiteral(TYPE_REGISTRY[type.base].postgres.toLowerCase())}`);
+    }
+    if (type.length !== undefined) {
+        options.push(`length: ${type.length}`);
+    }
+    if (type.precision !== undefined) {
+        options.push(`precision: ${type.precision}`);
+        if (type.scale !== undefined) {
+            options.push(`scale: ${type.scale}`);
+        }
+    }
+    if (type.array) {
+        options.push('array: true');
+    }
+    return options;
+}
+
+/**
+ * Raw SQL default; TypeORM inserts the function's return value unquoted
+ */
+function toSqlDefault(expression: string): string {
+    return `() => ${toStringLiteral(expression.trim())}`;
+}
+
+/**
+ * Renders a literal default: numbers and booleans bare, enum defaults as the enum member,
+ * everything else as a string. Arrays, JSON and unparseable literals are passed as SQL.
+ */
+function generateLiteralDefault(column: NormalizedColumn, value: string): string {
+    if (column.type.base === 'enum' && column.enum && !column.type.array) {
+        return `${toEnumName(column.enum)}.${toEnumMemberName(value)}`;
+    }
+    const literal = parseLiteral(column.type, value);
+    const category = getTypeCategory(column.type);
+    if (!literal || column.type.array || category === 'json') {
+        return toSqlDefault(`'${value.replace(/'/g, "''")}'`);
+    }
+    if (literal.kind === 'boolean') {
+        return String(literal.value);
+    }
+    // bigint and numeric properties are strings
+    if (literal.kind === 'number' && PROPERTY_TYPES[column.type.base] === 'number') {
+        return literal.value;
+    }
+    return toStringLiteral(literal.value);
+}
+
+/**
+ * Default option for a column, or undefined when the column has none or a decorator covers it
+ */
+function generateDefaultOption(column: NormalizedColumn): string | undefined {
+    if (!column.default) {
+        return undefined;
+    }
+    const { kind, value, sequence } = column.default;
+    if (kind === 'sequence' && sequence) {
+        return toSqlDefault(`nextval('${sequence}')`);
+    }
+    // @UpdateDateColumn already defaults to now()
+    if (kind === 'now' && !column.autoUpdate) {
+        return toSqlDefault('now()');
+    }
+    if (kind === 'value' && value !== undefined) {
+        return generateLiteralDefault(column, value);
+    }
+    if (kind === 'expression' && value) {
+        return toSqlDefault(value);
+    }
+    return undefined;
+}
+
+/**
+ * Inverse side lambda of a relation decorator. The parameter name is fixed, since model names
+ * (Return, Package, Default) can be reserved words.
+ */
+function toInverseSide(fieldName: string): string {
+    return `(target) => target.${fieldName}`;
+}
+
+function formatOptions(options: string[]): string {
+    return options.length > 0 ? `{ ${options.join(', ')} }` : '';
+}
+
+/**
+ * Decorators and property for a column. A sole primary key with a generated value becomes
+ * @PrimaryGeneratedColumn; other generated values use @Generated on the column.
+ */
+function generateColumn(column: NormalizedColumn, table: NormalizedTable, foreignKeys: NormalizedColumn[][], imports: EntityImports): string[] {
+    const propertyName = toScalarFieldName(column, foreignKeys);
+    const isSolePrimaryKey = column.primaryKey && Object.values(table.columns).filter(c => c.primaryKey).length === 1;
+    const kind = column.generated ? undefined : column.default?.kind;
+    const lines: string[] = [];
+
+    const options: string[] = [];
+    if (propertyName !== column.name) {
+        options.push(`name: ${toStringLiteral(column.name)}`);
+    }
+
+    const generatedKind = kind === 'autoincrement' ? 'increment' : kind === 'identity' || kind === 'uuid' ? kind : undefined;
+    if (isSolePrimaryKey && generatedKind) {
+        imports.decorators.add('PrimaryGeneratedColumn');
+        // Integer keys without a strategy argument use SERIAL; the type only matters if not int
+        if (generatedKind !== 'uuid' && column.type.base !== 'int') {
+            options.push(`type: ${toStringLiteral(TYPE_REGISTRY[column.type.base].postgres.toLowerCase())}`);
+        }
+        if (generatedKind === 'identity') {
+            options.push(`generatedIdentity: '${column.default!.identity?.generation === 'always' ? 'ALWAYS' : 'BY DEFAULT'}'`);
+        }
+        if (column.description) {
+            options.push(`comment: ${toStringLiteral(column.description)}`);
+        }
+        const args = [generatedKind === 'increment' ? '' : `'${generatedKind}'`, formatOptions(options)].filter(Boolean);
+        lines.push(`  @PrimaryGeneratedColumn(${args.join(', ')})`);
+    } else {
+        options.push(...generateTypeOptions(column.type, column.enum, imports));
+        if (column.nullable && !column.primaryKey) {
+            options.push('nullable: true');
+        }
+        if (column.unique) {
+            options.push('unique: true');
+        }
+        if (column.generated) {
+            options.push(`generatedType: 'STORED'`, `asExpression: ${toStringLiteral(column.generated)}`);
+        }
+        if (kind === 'identity') {
+            options.push(`generatedIdentity: '${column.default!.identity?.generation === 'always' ? 'ALWAYS' : 'BY DEFAULT'}'`);
+        }
+        const defaultOption = generateDefaultOption(column);
+        if (defaultOption) {
+            options.push(`default: ${defaultOption}`);
+        }
+        if (column.description) {
+            options.push(`comment: ${toStringLiteral(column.description)}`);
+        }
+
+        // TypeORM sets the value on every save, like Prisma's @updatedAt
+        const decorator = column.primaryKey ? 'PrimaryColumn' : column.autoUpdate ? 'UpdateDateColumn' : 'Column';
+        imports.decorators.add(decorator);
+        lines.push(`  @${decorator}(${formatOptions(options)})`);
+        if (generatedKind) {
+            imports.decorators.add('Generated');
+            lines.push(`  @Generated('${generatedKind}')`);
+        }
+    }
+
+    const identity = kind === 'identity' ? column.default!.identity : undefined;
+    if (identity?.start !== undefined || identity?.increment !== undefined) {
+        lines.unshift(`  // Identity options (start ${identity.start ?? 1}, increment ${identity.increment ?? 1}) are set in the migration`);
+    }
+
+    lines.push(`  ${propertyName}: ${toPropertyType(column.type, column.enum, column.nullable && !column.primaryKey)};`);
+    return lines;
+}
+
+/**
+ * @JoinColumn for a foreign key; composite keys list every column pair
+ */
+function generateJoinColumn(foreignKey: NormalizedColumn[], schema: NormalizedSchema): string {
+    const referencedTable = schema.tables[foreignKey[0].foreignKey!.table];
+    const referencedForeignKeys = groupForeignKeys(schema, referencedTable);
+    const joinColumns = foreignKey.map(column => {
+        const referencedColumn = referencedTable.columns[column.foreignKey!.column];
+        return `{ name: ${toStringLiteral(column.name)}, referencedColumnName: ${toStringLiteral(toScalarFieldName(referencedColumn, referencedForeignKeys))} }`;
+    });
+    return joinColumns.length === 1 ? `@JoinColumn(${joinColumns[0]})` : `@JoinColumn([${joinColumns.join(', ')}])`;
+}
+
+/**
+ * Owning side of a FK relation: @ManyToOne (or @OneToOne) with its @JoinColumn
+ */
+function generateRelation(
+    tableName: string,
+    foreignKey: NormalizedColumn[],
+    relationMap: Map<string, RelationInfo[]>,
+    schema: NormalizedSchema,
+    imports: EntityImports
+): string[] {
+    const { table: referencedTableName, onDelete, onUpdate } = foreignKey[0].foreignKey!;
+    const relation = relationMap.get(referencedTableName)!
+        .find(r => r.tableName === tableName && r.foreignKey[0] === foreignKey[0])!;
+    const modelName = toModelName(referencedTableName);
+    const decorator = relation.oneToOne ? 'OneToOne' : 'ManyToOne';
+    imports.decorators.add(decorator).add('JoinColumn');
+    imports.entities.add(referencedTableName);
+
+    const options: string[] = [];
+    if (onDelete) {
+        options.push(`onDelete: ${mapReferentialActionToTypeORM(onDelete)}`);
+    }
+    if (onUpdate) {
+        options.push(`onUpdate: ${mapReferentialActionToTypeORM(onUpdate)}`);
+    }
+
+    const args = [`() => ${modelName}`, toInverseSide(toBackRelationFieldName(relation)), formatOptions(options)].filter(Boolean);
+    const nullable = foreignKey.some(column => column.nullable) ? ' | null' : '';
+    return [
+        `  @${decorator}(${args.join(', ')})`,
+        `  ${generateJoinColumn(foreignKey, schema)}`,
+        `  ${relation.fieldName}: ${modelName}${nullable};`,
+    ];
+}
+
+/**
+ * Inverse side of a FK relation on the referenced entity: @OneToMany (or @OneToOne)
+ */
+function generateBackRelation(relation: RelationInfo, imports: EntityImports): string[] {
+    const modelName = toModelName(relation.tableName);
+    const decorator = relation.oneToOne ? 'OneToOne' : 'OneToMany';
+    imports.decorators.add(decorator);
+    imports.entities.add(relation.tableName);
+
+    // Points at the owning field of this foreign key, so several FKs to one table pair up correctly
+    const fieldName = toBackRelationFieldName(relation);
+    return [
+        `  @${decorator}(() => ${modelName}, ${toInverseSide(relation.fieldName)})`,
+        `  ${fieldName}: ${relation.oneToOne ? `${modelName} | null` : `${modelName}[]`};`,
+    ];
+}
+
+/**
+ * One side of an implicit join table's @ManyToMany pair, as generated for its entity
+ */
+interface ManyToManyField {
+    tableName: string; // Entity the field is declared on
+    lines: (imports: EntityImports) => string[];
+}
+
+/**
+ * @ManyToMany pairs for implicit join tables, which get no entity of their own. The first
+ * side owns the relation and names the join table; field names follow the Prisma export.
+ */
+function buildManyToManyFields(schema: NormalizedSchema): ManyToManyField[] {
+    const fields: ManyToManyField[] = [];
+
+    for (const table of Object.values(schema.tables)) {
+        if (!isImplicitJoinTable(table)) {
+            continue;
+        }
+
+        const keys = Object.values(table.columns).filter(c => c.foreignKey);
+        if (keys.length !== 2) {
+            continue;
+        }
+
+        // Self-relations put both fields on one entity, so name them after the opposite column
+        const isSelfRelation = keys[0].foreignKey!.table === keys[1].foreignKey!.table;
+        const fieldName = (key: NormalizedColumn, otherKey: NormalizedColumn) => isSelfRelation
+            ? toCamelCase(otherKey.name.replace(/_id$/, '')) + 's'
+            : toBackRelationName(otherKey.foreignKey!.table);
+        const joinColumn = (key: NormalizedColumn) => {
+            const referencedTable = schema.tables[key.foreignKey!.table];
+            const referenced = referencedTable.columns[key.foreignKey!.column];
+            return `{ name: ${toStringLiteral(key.name)}, referencedColumnName: ${toStringLiteral(toScalarFieldName(referenced, groupForeignKeys(schema, referencedTable)))} }`;
+        };
+
+        for (const [key, otherKey, owner] of [[keys[0], keys[1], true], [keys[1], keys[0], false]] as const) {
+            const otherTable = otherKey.foreignKey!.table;
+            const modelName = toModelName(otherTable);
+            fields.push({
+                tableName: key.foreignKey!.table,
+                lines: (imports) => {
+                    imports.decorators.add('ManyToMany');
+                    imports.entities.add(otherTable);
+                    const lines = [`  @ManyToMany(() => ${modelName}, ${toInverseSide(fieldName(otherKey, key))})`];
+                    if (owner) {
+                        imports.decorators.add('JoinTable');
+                        const options = [
+                            `name: ${toStringLiteral(table.name)}`,
+                            ...(table.namespace ? [`schema: ${toStringLiteral(table.namespace)}`] : []),
+                            `joinColumn: ${joinColumn(key)}`,
+                            `inverseJoinColumn: ${joinColumn(otherKey)}`,
+                        ];
+                        lines.push(`  @JoinTable({ ${options.join(', ')} })`);
+                    }
+                    lines.push(`  ${fieldName(key, otherKey)}: ${modelName}[];`);
+                    return lines;
+                },
+            });
+        }
+    }
+
+    return fields;
+}
+
+/**
+ * Class-level decorators: indexes and CHECK constraints
+ */
+function generateTableDecorators(table: NormalizedTable, foreignKeys: NormalizedColumn[][], imports: EntityImports): string[] {
+    const lines: string[] = [];
+
+    for (const index of table.indexes || []) {
+        imports.decorators.add('Index');
+        const properties = index.columns.map(name => toStringLiteral(toScalarFieldName(table.columns[name], foreignKeys)));
+        const options: string[] = [];
+        if (index.unique) {
+            options.push('unique: true');
+        }
+        // TypeORM only knows GiST on geometry (spatial); other methods are set in the migration
+        if (index.method === 'gist' && index.columns.every(name => table.columns[name].type.base === 'geometry')) {
+            options.push('spatial: true');
+        } else if (index.method !== 'btree') {
+            lines.push(`// ${index.name} uses ${index.method.toUpperCase()}${index.trigram ? ` with ${index.method}_trgm_ops` : ''}; set the method in the migration`);
+        }
+        const args = [toStringLiteral(index.name), `[${properties.join(', ')}]`, formatOptions(options)].filter(Boolean);
+        lines.push(`@Index(${args.join(', ')})`);
+    }
+
+    const checks = [
+        ...Object.values(table.columns).map(column => column.check).filter(check => check !== undefined),
+        ...(table.checks || []),
+    ];
+    for (const check of checks) {
+        imports.decorators.add('Check');
+        lines.push(`@Check(${toStringLiteral(check.name)}, ${toStringLiteral(check.expression)})`);
+    }
+
+    return lines;
+}
+
+/**
+ * Import lines of an entity file: typeorm decorators, then enums and related entities
+ */
+function generateImports(tableName: string, imports: EntityImports): string[] {
+    const lines = [`import { ${[...imports.decorators].sort().join(', ')} } from 'typeorm';`];
+    if (imports.enums.size > 0) {
+        lines.push(`import { ${[...imports.enums].sort().join(', ')} } from './enums';`);
+    }
+    for (const entity of [...imports.entities].filter(entity => entity !== tableName).sort()) {
+        lines.push(`import { ${toModelName(entity)} } from './${toFileName(entity)}.entity';`);
+    }
+    return lines;
+}
+
+function generateEntity(
+    tableName: string,
+    table: NormalizedTable,
+    relationMap: Map<string, RelationInfo[]>,
+    manyToManyFields: ManyToManyField[],
+    schema: NormalizedSchema
+): string {
+    const imports: EntityImports = { decorators: new Set(['Entity']), entities: new Set(), enums: new Set() };
+
+    const foreignKeys = groupForeignKeys(schema, table);
+    const members: string[][] = [];
+    for (const column of Object.values(table.columns)) {
+        members.push(generateColumn(column, table, foreignKeys, imports));
+    }
+    for (const foreignKey of foreignKeys) {
+        members.push(generateRelation(tableName, foreignKey, relationMap, schema, imports));
+    }
+    for (const relation of relationMap.get(tableName) || []) {
+        members.push(generateBackRelation(relation, imports));
+    }
+    for (const field of manyToManyFields.filter(f => f.tableName === tableName)) {
+        members.push(field.lines(imports));
+    }
+
+    const entityOptions = [`name: ${toStringLiteral(table.name)}`];
+    if (table.namespace) {
+        entityOptions.push(`schema: ${toStringLiteral(table.namespace)}`);
+    }
+    if (table.description) {
+        entityOptions.push(`comment: ${toStringLiteral(table.description)}`);
+    }
+    const decorators = generateTableDecorators(table, foreignKeys, imports);
+
+    return [
+        ...generateImports(tableName, imports),
+        '',
+        `@Entity(${formatOptions(entityOptions)})`,
+        ...decorators,
+        `export class ${toModelName(tableName)} {`,
+        members.map(lines => lines.join('\n')).join('\n\n'),
+        '}',
+        '',
+    ].join('\n');
+}
+
+function generateViewColumn(column: NormalizedViewColumn, imports: EntityImports): string[] {
+    const propertyName = toCamelCase(column.name);
+    if (column.type.base === 'enum' && column.enum) {
+        imports.enums.add(toEnumName(column.enum));
+    }
+    const options = propertyName !== column.name ? `{ name: ${toStringLiteral(column.name)} }` : '';
+    return [
+        `  @ViewColumn(${options})`,
+        `  ${propertyName}: ${toPropertyType(column.type, column.enum, column.nullable)};`,
+    ];
+}
+
+/**
+ * @ViewEntity with its query; TypeORM creates it on synchronize and in generated migrations
+ */
+function generateViewEntity(view: NormalizedView): string {
+    const imports: EntityImports = { decorators: new Set(['ViewColumn', 'ViewEntity']), entities: new Set(), enums: new Set() };
+    const members = Object.values(view.columns).map(column => generateViewColumn(column, imports));
+
+    const options = [`name: ${toStringLiteral(view.name)}`];
+    if (view.namespace) {
+        options.push(`schema: ${toStringLiteral(view.namespace)}`);
+    }
+    if (view.materialized) {
+        options.push('materialized: true');
+    }
+    options.push(`expression: \`${view.query.trim().replace(/;\s*$/, '').replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${')}\``);
+
+    return [
+        ...generateImports(view.name, imports),
+        '',
+        `@ViewEntity({ ${options.join(', ')} })`,
+        `export class ${toModelName(view.name)} {`,
+        members.map(lines => lines.join('\n')).join('\n\n'),
+        '}',
+        '',
+    ].join('\n');
+}
+
+/**
+ * Generates TypeORM entities for PostgreSQL as a bundle of files under entities/: one
+ * {name}.entity.ts per table and view, enums.ts, and an index.ts re-exporting them with
+ * an `entities` array for the DataSource.
+ *
+ * Implicit many-to-many join tables become @ManyToMany pairs instead of entities. Sequences,
+ * row-level security, roles, extensions and partitioning are left to the SQL export and
+ * listed in a comment in index.ts.
+ */
+export function generateTypeORMEntities(normalizedSchema: NormalizedSchema): GeneratedFile[] {
+    validateSchemaForGeneration(normalizedSchema);
+
+    // Entity names follow the Prisma export, which needs namespaced tables re-keyed by bare name
+    const schema = rekeyNamespacedTables(normalizedSchema);
+    const relationMap = buildRelationMap(schema);
+    const manyToManyFields = buildManyToManyFields(schema);
+
+    const files: GeneratedFile[] = [];
+    const exported: string[] = [];
+
+    const enums = Object.keys(schema.enums || {}).sort().map(name => schema.enums![name]);
+    if (enums.length > 0) {
+        files.push({ path: 'entities/enums.ts', content: generateEnumsFile(enums) });
+    }
+
+    for (const tableName of Object.keys(schema.tables).sort()) {
+        const table = schema.tables[tableName];
+        if (isImplicitJoinTable(table)) {
+            continue;
+        }
+        files.push({
+            path: `entities/${toFileName(tableName)}.entity.ts`,
+            content: generateEntity(tableName, table, relationMap, manyToManyFields, schema),
+        });
+        exported.push(tableName);
+    }
+
+    for (const view of Object.values(schema.views || {}).sort((a, b) => a.name.localeCompare(b.name))) {
+        files.push({ path: `entities/${toFileName(view.name)}.entity.ts`, content: generateViewEntity(view) });
+        exported.push(view.name);
+    }
+
+    const notes: string[] = [];
+    for (const sequence of Object.values(schema.sequences || {})) {
+        notes.push(`sequence ${sequence.name}`);
+    }
+    for (const table of Object.values(schema.tables)) {
+        const tableName = table.namespace ? `${table.namespace}.${table.name}` : table.name;
+        if (table.rowLevelSecurity || (table.policies || []).length > 0) {
+            notes.push(`row-level security on ${tableName}`);
+        }
+        if (table.partitioning) {
+            notes.push(`partitioning of ${tableName}`);
+        }
+    }
+    if (Object.keys(schema.roles || {}).length > 0) {
+        notes.push('roles and privileges');
+    }
+    if ((schema.extensions || []).length > 0) {
+        notes.push(`extensions (${schema.extensions!.join(', ')})`);
+    }
+
+    const index: string[] = [];
+    if (notes.length > 0) {
+        index.push('// TypeORM does not create these; add them to a migration from the PostgreSQL export:', ...notes.map(note => `//   ${note}`), '');
+    }
+    const modelNames = exported.map(toModelName);
+    index.push(...exported.map((name, i) => `import { ${modelNames[i]} } from './${toFileName(name)}.entity';`));
+    if (enums.length > 0) {
+        index.push('', "export * from './enums';");
+    }
+    index.push(
+        ...(modelNames.length > 0 ? ['', `export { ${modelNames.join(', ')} };`] : []),
+        '',
+        `export const entities = [${modelNames.join(', ')}];`,
+        ''
+    );
+    files.push({ path: 'entities/index.ts', content: index.join('\n') });
+
+    return files;
+}
+
+/**
+ * Joins a multi-file export into one text, each file under a header with its path
+ */
+export function bundleFiles(files: GeneratedFile[]): string {
+    return files.map(file => `// ===== ${file.path} =====\n\n${file.content}`).join('\n');
+}
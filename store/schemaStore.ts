@@ -1,54 +1,247 @@
 import { create } from 'zustand';
 import { normalizeSchema, NormalizedSchema } from '@/lib/schemaNormalizer';
+import { ColumnType } from '@/lib/columnTypes';
+import { toSingular } from '@/lib/naming';
 
 export interface Column {
     id: string;
     name: string;
-    type: string;
+    type: ColumnType;
+    enumId?: string; // Set when type.base is 'enum'
     primaryKey: boolean;
     nullable: boolean;
     unique: boolean;
     default?: {
-        kind: 'autoincrement' | 'uuid' | 'now' | 'value';
-        value?: string; // For 'value' kind
+        kind: 'autoincrement' | 'identity' | 'sequence' | 'uuid' | 'now' | 'value' | 'expression';
+        value?: string; // Literal for 'value' kind, raw SQL for 'expression' kind
+        identity?: IdentityOptions; // For 'identity' kind
+        sequenceId?: string; // For 'sequence' kind
     };
+    check?: string; // Column-level CHECK expression, e.g. "price >= 0"
+    generated?: string; // Stored generated column expression, e.g. "first_name || ' ' || last_name"
+    autoUpdate?: boolean; // Set to now() on every update (timestamp columns only)
+    description?: string; // Free-text documentation, emitted as COMMENT ON COLUMN
 }
 
+// ALWAYS rejects explicit values on insert; BY DEFAULT only fills them in when omitted
+export type IdentityGeneration = 'always' | 'by-default';
+
+export interface IdentityOptions {
+    generation: IdentityGeneration;
+    start?: number; // Unset means the database default (1)
+    increment?: number;
+}
+
+export type IndexMethod = 'btree' | 'hash' | 'gin' | 'gist' | 'brin';
+
+export interface Index {
+    id: string;
+    name: string; // Empty name means the normalizer derives one from the table and columns
+    columnIds: string[]; // Ordered: position matters for composite indexes
+    unique: boolean;
+    method: IndexMethod;
+    trigram?: boolean; // gin_trgm_ops / gist_trgm_ops on every column (gin and gist only)
+}
+
+export interface CheckConstraint {
+    id: string;
+    name: string; // Empty name means the normalizer derives one from the table
+    expression: string; // Table-level CHECK expression, e.g. "start_at < end_at"
+}
+
+// Forced row-level security also applies the policies to the table owner
+export type RowLevelSecurity = 'enabled' | 'forced';
+
+export type PolicyCommand = 'ALL' | 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface Policy {
+    id: string;
+    name: string; // Empty name means the normalizer derives one from the table
+    command: PolicyCommand;
+    roles: string[]; // Empty means PUBLIC (every role)
+    using: string; // Rows visible to (or affected by) the command, e.g. "owner_id = current_user_id()"
+    withCheck: string; // Rows the command may write; only for ALL, INSERT and UPDATE
+}
+
+export type PartitionStrategy = 'RANGE' | 'LIST' | 'HASH';
+
+export interface Partition {
+    id: string;
+    name: string; // Empty name means the normalizer derives one from the table
+    isDefault: boolean; // Catches rows no other partition's bound matches (RANGE and LIST only)
+    from: string; // RANGE lower bound values, e.g. "'2024-01-01'" or "MINVALUE"
+    to: string; // RANGE upper bound values (exclusive)
+    values: string; // LIST values, comma-separated SQL literals
+    modulus?: number; // HASH
+    remainder?: number;
+}
+
+export interface Partitioning {
+    strategy: PartitionStrategy;
+    keyColumnIds: string[]; // Ordered: position matters for multi-column keys
+    partitions: Partition[];
+}
+
+// Implicit join tables become Prisma-managed M:N relations; explicit ones get their own model
+export type JoinTablePrismaMode = 'implicit' | 'explicit';
+
 export interface Table {
     id: string;
     name: string;
     columns: Column[];
+    indexes: Index[];
+    checks: CheckConstraint[];
+    policies: Policy[];
+    rowLevelSecurity?: RowLevelSecurity; // Unset means RLS is disabled
+    partitioning?: Partitioning; // Unset means a plain table
+    joinTable?: { prismaMode: JoinTablePrismaMode }; // Set on tables that resolve a many-to-many relation
+    namespace?: string; // PostgreSQL schema; unset means 'public'
+    description?: string; // Free-text documentation, emitted as COMMENT ON TABLE
+}
+
+export type ReferentialAction = 'CASCADE' | 'SET NULL' | 'SET DEFAULT' | 'RESTRICT' | 'NO ACTION';
+
+// Many-to-many relations are the two FK legs of a join table, each marked 'many-to-many'
+export type Cardinality = 'one-to-one' | 'one-to-many' | 'many-to-many';
+
+export interface ColumnPair {
+    fromColumnId: string; // Referenced (PK) column
+    toColumnId: string; // Referencing (FK) column
 }
 
 export interface Relation {
     id: string;
     fromTableId: string;
-    fromColumnId: string;
     toTableId: string;
-    toColumnId: string;
+    columns: ColumnPair[]; // Ordered; several pairs make a composite foreign key
+    onDelete?: ReferentialAction; // Unset means the database default (NO ACTION)
+    onUpdate?: ReferentialAction;
+    cardinality: Cardinality;
+}
+
+export interface EnumType {
+    id: string;
+    name: string;
+    values: string[]; // Ordered: PostgreSQL enums compare by declaration order
+}
+
+export interface Sequence {
+    id: string;
+    name: string;
+    start?: number; // Unset means the database default (1)
+    increment?: number;
+}
+
+export type Privilege = 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface Grant {
+    tableId: string;
+    privilege: Privilege;
+    columnIds?: string[]; // Limits SELECT, INSERT or UPDATE to these columns; unset means the whole table
+}
+
+export interface Role {
+    id: string;
+    name: string;
+    login: boolean; // LOGIN roles are users; others group privileges for GRANT ... TO
+    grants: Grant[];
+}
+
+export interface ViewColumn {
+    id: string;
+    name: string;
+    type: ColumnType;
+    enumId?: string; // Set when type.base is 'enum'
+    nullable: boolean;
+    unique: boolean; // Prisma needs a unique field to query a view
 }
 
-interface SchemaStore {
+export interface View {
+    id: string;
+    name: string;
+    materialized: boolean;
+    query: string; // SELECT statement the view is defined as
+    columns: ViewColumn[]; // Declared output columns, in the order the query returns them
+    dependencyIds: string[]; // Tables and views the query reads from
+    namespace?: string; // PostgreSQL schema; unset means 'public'
+    description?: string;
+}
+
+/**
+ * Everything the canvas edits (ID-based), independent of UI flags
+ */
+export interface CanvasSchema {
     tables: Table[];
     relations: Relation[];
+    enums: EnumType[];
+    sequences: Sequence[];
+    views: View[];
+    roles: Role[];
+    extensions: string[]; // Declared PostgreSQL extensions; the generators add inferred ones
+}
+
+interface SchemaStore extends CanvasSchema {
     isNormalized: boolean;
     addTable: () => void;
     updateTableName: (id: string, name: string) => void;
+    updateTableDescription: (id: string, description: string) => void;
+    updateTableNamespace: (id: string, namespace: string) => void;
+    updateJoinTable: (id: string, joinTable: Table['joinTable']) => void;
     deleteTable: (id: string) => void;
     addColumn: (tableId: string) => void;
     updateColumn: (tableId: string, columnId: string, data: Partial<Column>) => void;
     deleteColumn: (tableId: string, columnId: string) => void;
+    addIndex: (tableId: string) => void;
+    updateIndex: (tableId: string, indexId: string, data: Partial<Omit<Index, 'id'>>) => void;
+    deleteIndex: (tableId: string, indexId: string) => void;
+    addCheck: (tableId: string) => void;
+    updateCheck: (tableId: string, checkId: string, data: Partial<Omit<CheckConstraint, 'id'>>) => void;
+    deleteCheck: (tableId: string, checkId: string) => void;
+    updateRowLevelSecurity: (tableId: string, rowLevelSecurity: RowLevelSecurity | undefined) => void;
+    addPolicy: (tableId: string) => void;
+    updatePolicy: (tableId: string, policyId: string, data: Partial<Omit<Policy, 'id'>>) => void;
+    deletePolicy: (tableId: string, policyId: string) => void;
+    updatePartitioning: (tableId: string, data: Partial<Omit<Partitioning, 'partitions'>> | undefined) => void;
+    addPartition: (tableId: string) => void;
+    updatePartition: (tableId: string, partitionId: string, data: Partial<Omit<Partition, 'id'>>) => void;
+    deletePartition: (tableId: string, partitionId: string) => void;
     addRelation: (relation: Omit<Relation, 'id'>) => void;
     updateRelation: (relationId: string, updates: Partial<Omit<Relation, 'id'>>) => void;
     removeRelation: (relationId: string) => void;
+    setRelationCardinality: (relationId: string, cardinality: Exclude<Cardinality, 'many-to-many'>) => void;
+    convertToManyToMany: (relationId: string, joinTableId?: string) => void;
+    addEnum: () => void;
+    updateEnum: (enumId: string, data: Partial<Omit<EnumType, 'id'>>) => void;
+    deleteEnum: (enumId: string) => void;
+    addSequence: () => void;
+    updateSequence: (sequenceId: string, data: Partial<Omit<Sequence, 'id'>>) => void;
+    deleteSequence: (sequenceId: string) => void;
+    addView: () => void;
+    updateView: (viewId: string, data: Partial<Omit<View, 'id' | 'columns'>>) => void;
+    deleteView: (viewId: string) => void;
+    addViewColumn: (viewId: string) => void;
+    updateViewColumn: (viewId: string, columnId: string, data: Partial<Omit<ViewColumn, 'id'>>) => void;
+    deleteViewColumn: (viewId: string, columnId: string) => void;
+    addRole: () => void;
+    updateRole: (roleId: string, data: Partial<Omit<Role, 'id' | 'grants'>>) => void;
+    deleteRole: (roleId: string) => void;
+    setGrant: (roleId: string, tableId: string, privilege: Privilege, granted: boolean) => void;
+    setGrantColumns: (roleId: string, tableId: string, privilege: Privilege, columnIds: string[] | undefined) => void;
+    addExtension: (name: string) => void;
+    removeExtension: (name: string) => void;
     getNormalizedSchema: () => NormalizedSchema;
-    loadSchema: (tables: Table[], relations: Relation[]) => void;
+    loadSchema: (schema: CanvasSchema) => void;
     setNormalized: (normalized: boolean) => void;
 }
 
 export const useSchemaStore = create<SchemaStore>()((set, get) => ({
     tables: [],
     relations: [],
+    enums: [],
+    sequences: [],
+    views: [],
+    roles: [],
+    extensions: [],
     isNormalized: false,
 
     addTable: () => {
@@ -56,6 +249,9 @@ export const useSchemaStore = create<SchemaStore>()((set, get) => ({
             id: crypto.randomUUID(),
             name: 'new_table',
             columns: [],
+            indexes: [],
+            checks: [],
+            policies: [],
         };
         set((state) => ({
             tables: [...state.tables, newTable],
@@ -72,6 +268,33 @@ export const useSchemaStore = create<SchemaStore>()((set, get) => ({
         }));
     },
 
+    updateTableDescription: (id: string, description: string) => {
+        set((state) => ({
+            tables: state.tables.map((table) =>
+                table.id === id ? { ...table, description: description || undefined } : table
+            ),
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    updateTableNamespace: (id: string, namespace: string) => {
+        set((state) => ({
+            tables: state.tables.map((table) =>
+                table.id === id ? { ...table, namespace: namespace || undefined } : table
+            ),
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    updateJoinTable: (id: string, joinTable: Table['joinTable']) => {
+        set((state) => ({
+            tables: state.tables.map((table) =>
+                table.id === id ? { ...table, joinTable } : table
+            ),
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
     deleteTable: (id: string) => {
         set((state) => ({
             tables: state.tables.filter((table) => table.id !== id),
@@ -79,6 +302,16 @@ export const useSchemaStore = create<SchemaStore>()((set, get) => ({
             relations: state.relations.filter(
                 (rel) => rel.fromTableId !== id && rel.toTableId !== id
             ),
+            // Views that read from it no longer depend on it
+            views: state.views.map((view) => ({
+                ...view,
+                dependencyIds: view.dependencyIds.filter((dependencyId) => dependencyId !== id),
+            })),
+            // Privileges on it go with it
+            roles: state.roles.map((role) => ({
+                ...role,
+                grants: role.grants.filter((grant) => grant.tableId !== id),
+            })),
             isNormalized: false, // Reset normalization flag when schema changes
         }));
     },
@@ -87,7 +320,7 @@ export const useSchemaStore = create<SchemaStore>()((set, get) => ({
         const newColumn: Column = {
             id: crypto.randomUUID(),
             name: 'column_name',
-            type: 'varchar',
+            type: { base: 'varchar' },
             primaryKey: false,
             nullable: false,
             unique: false,
@@ -125,14 +358,256 @@ export const useSchemaStore = create<SchemaStore>()((set, get) => ({
                     ? {
                         ...table,
                         columns: table.columns.filter((column) => column.id !== columnId),
+                        // Also drop this column from any index that covers it
+                        indexes: table.indexes.map((index) => ({
+                            ...index,
+                            columnIds: index.columnIds.filter((id) => id !== columnId),
+                        })),
+                        // And from the partition key
+                        partitioning: table.partitioning && {
+                            ...table.partitioning,
+                            keyColumnIds: table.partitioning.keyColumnIds.filter((id) => id !== columnId),
+                        },
                     }
                     : table
             ),
-            // Also remove any relations involving this column
-            relations: state.relations.filter(
-                (rel) =>
-                    !(rel.fromTableId === tableId && rel.fromColumnId === columnId) &&
-                    !(rel.toTableId === tableId && rel.toColumnId === columnId)
+            // Also drop this column from relations, removing relations left without columns
+            relations: state.relations
+                .map((rel) => ({
+                    ...rel,
+                    columns: rel.columns.filter(
+                        (pair) =>
+                            !(rel.fromTableId === tableId && pair.fromColumnId === columnId) &&
+                            !(rel.toTableId === tableId && pair.toColumnId === columnId)
+                    ),
+                }))
+                .filter((rel) => rel.columns.length > 0),
+            // Also drop this column from column-level grants; a grant left without columns is
+            // revoked rather than widened to the whole table
+            roles: state.roles.map((role) => ({
+                ...role,
+                grants: role.grants
+                    .map((grant) =>
+                        grant.tableId === tableId && grant.columnIds
+                            ? { ...grant, columnIds: grant.columnIds.filter((id) => id !== columnId) }
+                            : grant
+                    )
+                    .filter((grant) => !grant.columnIds || grant.columnIds.length > 0),
+            })),
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    addIndex: (tableId: string) => {
+        const newIndex: Index = {
+            id: crypto.randomUUID(),
+            name: '',
+            columnIds: [],
+            unique: false,
+            method: 'btree',
+        };
+        set((state) => ({
+            tables: state.tables.map((table) =>
+                table.id === tableId
+                    ? { ...table, indexes: [...table.indexes, newIndex] }
+                    : table
+            ),
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    updateIndex: (tableId: string, indexId: string, data: Partial<Omit<Index, 'id'>>) => {
+        set((state) => ({
+            tables: state.tables.map((table) =>
+                table.id === tableId
+                    ? {
+                        ...table,
+                        indexes: table.indexes.map((index) =>
+                            index.id === indexId ? { ...index, ...data } : index
+                        ),
+                    }
+                    : table
+            ),
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    deleteIndex: (tableId: string, indexId: string) => {
+        set((state) => ({
+            tables: state.tables.map((table) =>
+                table.id === tableId
+                    ? { ...table, indexes: table.indexes.filter((index) => index.id !== indexId) }
+                    : table
+            ),
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    addCheck: (tableId: string) => {
+        const newCheck: CheckConstraint = {
+            id: crypto.randomUUID(),
+            name: '',
+            expression: '',
+        };
+        set((state) => ({
+            tables: state.tables.map((table) =>
+                table.id === tableId
+                    ? { ...table, checks: [...table.checks, newCheck] }
+                    : table
+            ),
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    updateCheck: (tableId: string, checkId: string, data: Partial<Omit<CheckConstraint, 'id'>>) => {
+        set((state) => ({
+            tables: state.tables.map((table) =>
+                table.id === tableId
+                    ? {
+                        ...table,
+                        checks: table.checks.map((check) =>
+                            check.id === checkId ? { ...check, ...data } : check
+                        ),
+                    }
+                    : table
+            ),
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    deleteCheck: (tableId: string, checkId: string) => {
+        set((state) => ({
+            tables: state.tables.map((table) =>
+                table.id === tableId
+                    ? { ...table, checks: table.checks.filter((check) => check.id !== checkId) }
+                    : table
+            ),
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    updateRowLevelSecurity: (tableId: string, rowLevelSecurity: RowLevelSecurity | undefined) => {
+        set((state) => ({
+            tables: state.tables.map((table) =>
+                table.id === tableId ? { ...table, rowLevelSecurity } : table
+            ),
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    addPolicy: (tableId: string) => {
+        const newPolicy: Policy = {
+            id: crypto.randomUUID(),
+            name: '',
+            command: 'ALL',
+            roles: [],
+            using: '',
+            withCheck: '',
+        };
+        set((state) => ({
+            tables: state.tables.map((table) =>
+                table.id === tableId
+                    ? { ...table, policies: [...table.policies, newPolicy] }
+                    : table
+            ),
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    updatePolicy: (tableId: string, policyId: string, data: Partial<Omit<Policy, 'id'>>) => {
+        set((state) => ({
+            tables: state.tables.map((table) =>
+                table.id === tableId
+                    ? {
+                        ...table,
+                        policies: table.policies.map((policy) =>
+                            policy.id === policyId ? { ...policy, ...data } : policy
+                        ),
+                    }
+                    : table
+            ),
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    deletePolicy: (tableId: string, policyId: string) => {
+        set((state) => ({
+            tables: state.tables.map((table) =>
+                table.id === tableId
+                    ? { ...table, policies: table.policies.filter((policy) => policy.id !== policyId) }
+                    : table
+            ),
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    updatePartitioning: (tableId: string, data: Partial<Omit<Partitioning, 'partitions'>> | undefined) => {
+        set((state) => ({
+            tables: state.tables.map((table) => {
+                if (table.id !== tableId) {
+                    return table;
+                }
+                // Undefined turns partitioning off, dropping the declared partitions with it
+                if (!data) {
+                    return { ...table, partitioning: undefined };
+                }
+                const partitioning = table.partitioning ?? { strategy: 'RANGE', keyColumnIds: [], partitions: [] };
+                return { ...table, partitioning: { ...partitioning, ...data } };
+            }),
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    addPartition: (tableId: string) => {
+        const newPartition: Partition = {
+            id: crypto.randomUUID(),
+            name: '',
+            isDefault: false,
+            from: '',
+            to: '',
+            values: '',
+        };
+        set((state) => ({
+            tables: state.tables.map((table) =>
+                table.id === tableId && table.partitioning
+                    ? { ...table, partitioning: { ...table.partitioning, partitions: [...table.partitioning.partitions, newPartition] } }
+                    : table
+            ),
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    updatePartition: (tableId: string, partitionId: string, data: Partial<Omit<Partition, 'id'>>) => {
+        set((state) => ({
+            tables: state.tables.map((table) =>
+                table.id === tableId && table.partitioning
+                    ? {
+                        ...table,
+                        partitioning: {
+                            ...table.partitioning,
+                            partitions: table.partitioning.partitions.map((partition) =>
+                                partition.id === partitionId ? { ...partition, ...data } : partition
+                            ),
+                        },
+                    }
+                    : table
+            ),
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    deletePartition: (tableId: string, partitionId: string) => {
+        set((state) => ({
+            tables: state.tables.map((table) =>
+                table.id === tableId && table.partitioning
+                    ? {
+                        ...table,
+                        partitioning: {
+                            ...table.partitioning,
+                            partitions: table.partitioning.partitions.filter((partition) => partition.id !== partitionId),
+                        },
+                    }
+                    : table
             ),
             isNormalized: false, // Reset normalization flag when schema changes
         }));
@@ -165,15 +640,367 @@ export const useSchemaStore = create<SchemaStore>()((set, get) => ({
         }));
     },
 
+    setRelationCardinality: (relationId: string, cardinality: Exclude<Cardinality, 'many-to-many'>) => {
+        set((state) => {
+            const relation = state.relations.find((rel) => rel.id === relationId);
+            if (!relation) {
+                return state;
+            }
+            return {
+                relations: state.relations.map((rel) =>
+                    rel.id === relationId ? { ...rel, cardinality } : rel
+                ),
+                // A one-to-one relation is a unique FK column (composite keys need a unique index instead)
+                tables: state.tables.map((table) =>
+                    table.id === relation.toTableId && relation.columns.length === 1
+                        ? {
+                            ...table,
+                            columns: table.columns.map((column) =>
+                                column.id === relation.columns[0].toColumnId
+                                    ? { ...column, unique: cardinality === 'one-to-one' }
+                                    : column
+                            ),
+                        }
+                        : table
+                ),
+                isNormalized: false, // Reset normalization flag when schema changes
+            };
+        });
+    },
+
+    convertToManyToMany: (relationId: string, joinTableId?: string) => {
+        set((state) => {
+            const relation = state.relations.find((rel) => rel.id === relationId);
+            const fromTable = state.tables.find((table) => table.id === relation?.fromTableId);
+            const toTable = state.tables.find((table) => table.id === relation?.toTableId);
+            const fromKeys = fromTable?.columns.filter((column) => column.primaryKey) ?? [];
+            const toKeys = toTable?.columns.filter((column) => column.primaryKey) ?? [];
+            if (!relation || !fromTable || !toTable || fromKeys.length === 0 || toKeys.length === 0) {
+                return state;
+            }
+
+            // Use the picked table, or create one named after both sides
+            const existing = state.tables.find((table) => table.id === joinTableId);
+            const joinTable: Table = existing ?? {
+                id: crypto.randomUUID(),
+                name: `${fromTable.name}_${toTable.name}`,
+                columns: [],
+                indexes: [],
+                checks: [],
+                policies: [],
+            };
+
+            // Reuse a same-named column for each key column of either side or add one;
+            // together they form the join table's composite PK
+            const columns = joinTable.columns.map((column) => ({ ...column, primaryKey: false }));
+            const legs: [Table, Column[], string][] = [
+                [fromTable, fromKeys, toSingular(fromTable.name)],
+                // A self-referencing M:N needs a second, distinct column name
+                [toTable, toKeys, `${fromTable.id === toTable.id ? 'related_' : ''}${toSingular(toTable.name)}`],
+            ];
+            const legRelations: Relation[] = legs.map(([table, keys, prefix]) => ({
+                id: crypto.randomUUID(),
+                fromTableId: table.id,
+                toTableId: joinTable.id,
+                columns: keys.map((key) => {
+                    const columnName = `${prefix}_${key.name}`;
+                    let column = columns.find((c) => c.name === columnName);
+                    if (column) {
+                        Object.assign(column, { primaryKey: true, nullable: false });
+                    } else {
+                        column = {
+                            id: crypto.randomUUID(),
+                            name: columnName,
+                            type: { ...key.type },
+                            enumId: key.enumId,
+                            primaryKey: true,
+                            nullable: false,
+                            unique: false,
+                        };
+                        columns.push(column);
+                    }
+                    return { fromColumnId: key.id, toColumnId: column.id };
+                }),
+                // Join rows are meaningless without both sides
+                onDelete: 'CASCADE',
+                cardinality: 'many-to-many',
+            }));
+
+            const updatedJoinTable: Table = {
+                ...joinTable,
+                columns,
+                // Prisma can only manage a join table that holds nothing but the two keys
+                joinTable: joinTable.joinTable ?? { prismaMode: columns.length === 2 ? 'implicit' : 'explicit' },
+            };
+
+            return {
+                tables: existing
+                    ? state.tables.map((table) => (table.id === existing.id ? updatedJoinTable : table))
+                    : [...state.tables, updatedJoinTable],
+                relations: [
+                    ...state.relations.filter((rel) =>
+                        rel.id !== relationId &&
+                        // Drop legs that already existed so they are not duplicated
+                        !legRelations.some((leg) =>
+                            leg.toTableId === rel.toTableId &&
+                            leg.columns.some((pair) => rel.columns.some((other) => other.toColumnId === pair.toColumnId))
+                        )
+                    ),
+                    ...legRelations,
+                ],
+                isNormalized: false, // Reset normalization flag when schema changes
+            };
+        });
+    },
+
+    addEnum: () => {
+        const newEnum: EnumType = {
+            id: crypto.randomUUID(),
+            name: 'new_enum',
+            values: [],
+        };
+        set((state) => ({
+            enums: [...state.enums, newEnum],
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    updateEnum: (enumId: string, data: Partial<Omit<EnumType, 'id'>>) => {
+        set((state) => ({
+            enums: state.enums.map((enumType) =>
+                enumType.id === enumId ? { ...enumType, ...data } : enumType
+            ),
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    deleteEnum: (enumId: string) => {
+        set((state) => ({
+            enums: state.enums.filter((enumType) => enumType.id !== enumId),
+            // Columns using this enum fall back to varchar; their defaults may no longer apply
+            tables: state.tables.map((table) => ({
+                ...table,
+                columns: table.columns.map((column) =>
+                    column.type.base === 'enum' && column.enumId === enumId
+                        ? { ...column, type: { base: 'varchar' }, enumId: undefined, default: undefined }
+                        : column
+                ),
+            })),
+            views: state.views.map((view) => ({
+                ...view,
+                columns: view.columns.map((column) =>
+                    column.type.base === 'enum' && column.enumId === enumId
+                        ? { ...column, type: { base: 'varchar' }, enumId: undefined }
+                        : column
+                ),
+            })),
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    addSequence: () => {
+        const newSequence: Sequence = {
+            id: crypto.randomUUID(),
+            name: 'new_sequence',
+        };
+        set((state) => ({
+            sequences: [...state.sequences, newSequence],
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    updateSequence: (sequenceId: string, data: Partial<Omit<Sequence, 'id'>>) => {
+        set((state) => ({
+            sequences: state.sequences.map((sequence) =>
+                sequence.id === sequenceId ? { ...sequence, ...data } : sequence
+            ),
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    deleteSequence: (sequenceId: string) => {
+        set((state) => ({
+            sequences: state.sequences.filter((sequence) => sequence.id !== sequenceId),
+            // Columns drawing from this sequence lose their default
+            tables: state.tables.map((table) => ({
+                ...table,
+                columns: table.columns.map((column) =>
+                    column.default?.kind === 'sequence' && column.default.sequenceId === sequenceId
+                        ? { ...column, default: undefined }
+                        : column
+                ),
+            })),
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    addView: () => {
+        const newView: View = {
+            id: crypto.randomUUID(),
+            name: 'new_view',
+            materialized: false,
+            query: '',
+            columns: [],
+            dependencyIds: [],
+        };
+        set((state) => ({
+            views: [...state.views, newView],
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    updateView: (viewId: string, data: Partial<Omit<View, 'id' | 'columns'>>) => {
+        set((state) => ({
+            views: state.views.map((view) =>
+                view.id === viewId ? { ...view, ...data } : view
+            ),
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    deleteView: (viewId: string) => {
+        set((state) => ({
+            views: state.views
+                .filter((view) => view.id !== viewId)
+                // Views built on this one no longer depend on it
+                .map((view) => ({
+                    ...view,
+                    dependencyIds: view.dependencyIds.filter((dependencyId) => dependencyId !== viewId),
+                })),
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    addViewColumn: (viewId: string) => {
+        const newColumn: ViewColumn = {
+            id: crypto.randomUUID(),
+            name: 'column_name',
+            type: { base: 'text' },
+            nullable: true,
+            unique: false,
+        };
+        set((state) => ({
+            views: state.views.map((view) =>
+                view.id === viewId
+                    ? { ...view, columns: [...view.columns, newColumn] }
+                    : view
+            ),
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    updateViewColumn: (viewId: string, columnId: string, data: Partial<Omit<ViewColumn, 'id'>>) => {
+        set((state) => ({
+            views: state.views.map((view) =>
+                view.id === viewId
+                    ? {
+                        ...view,
+                        columns: view.columns.map((column) =>
+                            column.id === columnId ? { ...column, ...data } : column
+                        ),
+                    }
+                    : view
+            ),
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    deleteViewColumn: (viewId: string, columnId: string) => {
+        set((state) => ({
+            views: state.views.map((view) =>
+                view.id === viewId
+                    ? { ...view, columns: view.columns.filter((column) => column.id !== columnId) }
+                    : view
+            ),
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    addRole: () => {
+        const newRole: Role = {
+            id: crypto.randomUUID(),
+            name: 'new_role',
+            login: false,
+            grants: [],
+        };
+        set((state) => ({
+            roles: [...state.roles, newRole],
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    updateRole: (roleId: string, data: Partial<Omit<Role, 'id' | 'grants'>>) => {
+        set((state) => ({
+            roles: state.roles.map((role) =>
+                role.id === roleId ? { ...role, ...data } : role
+            ),
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    deleteRole: (roleId: string) => {
+        set((state) => ({
+            roles: state.roles.filter((role) => role.id !== roleId),
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    setGrant: (roleId: string, tableId: string, privilege: Privilege, granted: boolean) => {
+        set((state) => ({
+            roles: state.roles.map((role) => {
+                if (role.id !== roleId) {
+                    return role;
+                }
+                const grants = role.grants.filter((grant) => !(grant.tableId === tableId && grant.privilege === privilege));
+                return { ...role, grants: granted ? [...grants, { tableId, privilege }] : grants };
+            }),
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    setGrantColumns: (roleId: string, tableId: string, privilege: Privilege, columnIds: string[] | undefined) => {
+        set((state) => ({
+            roles: state.roles.map((role) =>
+                role.id === roleId
+                    ? {
+                        ...role,
+                        grants: role.grants.map((grant) =>
+                            grant.tableId === tableId && grant.privilege === privilege ? { ...grant, columnIds } : grant
+                        ),
+                    }
+                    : role
+            ),
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    addExtension: (name: string) => {
+        set((state) => ({
+            extensions: state.extensions.includes(name) ? state.extensions : [...state.extensions, name],
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
+    removeExtension: (name: string) => {
+        set((state) => ({
+            extensions: state.extensions.filter((extension) => extension !== name),
+            isNormalized: false, // Reset normalization flag when schema changes
+        }));
+    },
+
     getNormalizedSchema: () => {
-        const state = get();
-        return normalizeSchema(state.tables, state.relations);
+        return normalizeSchema(get());
     },
 
-    loadSchema: (tables: Table[], relations: Relation[]) => {
+    loadSchema: (schema: CanvasSchema) => {
         set({
-            tables,
-            relations,
+            tables: schema.tables,
+            relations: schema.relations,
+            enums: schema.enums,
+            sequences: schema.sequences,
+            views: schema.views,
+            roles: schema.roles,
+            extensions: schema.extensions,
             isNormalized: false, // Reset normalization flag when loading new schema
         });
     },